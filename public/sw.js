@@ -0,0 +1,31 @@
+// Shows queue notifications pushed by the send-notifications Edge Function, and opens the
+// appointment when one is clicked.
+
+self.addEventListener('push', (event) => {
+  const { title, body, url } = event.data ? event.data.json() : {};
+
+  event.waitUntil(
+    self.registration.showNotification(title ?? 'barberEasy', {
+      body,
+      tag: url,
+      data: { url: url ?? '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? '/', self.location.origin).href;
+
+  event.waitUntil(
+    // Only windows this worker controls can be navigated. Navigating can still fail, for
+    // example when the window has moved to another site, so open a new one instead.
+    self.clients.matchAll({ type: 'window' }).then((windows) => {
+      const open = windows[0];
+      if (!open) return self.clients.openWindow(url);
+      return open.navigate(url)
+        .then(client => (client ?? open).focus())
+        .catch(() => self.clients.openWindow(url));
+    })
+  );
+});
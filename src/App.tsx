@@ -1,13 +1,129 @@
-import { useState } from 'react';
-import { useAuth } from './contexts/AuthContext';
+import { ReactNode, useEffect } from 'react';
+import { Routes, Route, Navigate, Outlet, useLocation, useNavigate } from 'react-router-dom';
+import { RESET_PASSWORD_PATH, SIGN_IN_PATH } from './contexts/AuthContext';
+import { useAuth } from './contexts/useAuth';
 import { LoginForm } from './components/LoginForm';
 import { RegisterForm } from './components/RegisterForm';
 import { CustomerDashboard } from './components/CustomerDashboard';
 import { BarberDashboard } from './components/BarberDashboard';
+import { ProfileSetup } from './components/ProfileSetup';
+import { ProfileLoadError } from './components/ProfileLoadError';
+import { ResetPasswordForm } from './components/ResetPasswordForm';
+import { QueueDisplay } from './components/QueueDisplay';
+import { GuestCheckIn } from './components/GuestCheckIn';
+
+// Where to go after signing in. Kept in session storage rather than router state so it
+// survives the full-page redirects of magic links and OAuth.
+const RETURN_TO_KEY = 'barberEasy.returnTo';
+
+// Supabase reports failed email links and OAuth sign-ins in the redirect URL.
+function readAuthRedirectError() {
+  const hash = new URLSearchParams(window.location.hash.slice(1));
+  const query = new URLSearchParams(window.location.search);
+  return hash.get('error_description') ?? query.get('error_description') ?? '';
+}
+
+function AuthScreen({ children }: { children: ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-gray-100 flex items-center justify-center p-4">
+      {children}
+    </div>
+  );
+}
+
+function RequireAuth() {
+  const { user, profile, profileError } = useAuth();
+  const location = useLocation();
+
+  useEffect(() => {
+    if (user) {
+      sessionStorage.removeItem(RETURN_TO_KEY);
+    } else {
+      sessionStorage.setItem(RETURN_TO_KEY, location.pathname + location.search);
+    }
+  }, [user, location.pathname, location.search]);
+
+  if (!user) {
+    return <Navigate to={SIGN_IN_PATH} replace />;
+  }
+
+  if (!profile) {
+    return (
+      <AuthScreen>
+        {profileError ? <ProfileLoadError message={profileError} /> : <ProfileSetup />}
+      </AuthScreen>
+    );
+  }
+
+  return <Outlet />;
+}
+
+function GuestOnly() {
+  const { user } = useAuth();
+
+  if (user) {
+    return <Navigate to={sessionStorage.getItem(RETURN_TO_KEY) ?? '/'} replace />;
+  }
+
+  return (
+    <AuthScreen>
+      <Outlet />
+    </AuthScreen>
+  );
+}
+
+function LoginPage() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const redirectError = readAuthRedirectError();
+
+  useEffect(() => {
+    if (redirectError) {
+      navigate(location.pathname, { replace: true });
+    }
+  }, [redirectError, navigate, location.pathname]);
+
+  return (
+    <LoginForm
+      onToggleMode={() => navigate('/register')}
+      initialError={redirectError}
+    />
+  );
+}
+
+function RegisterPage() {
+  const navigate = useNavigate();
+  return <RegisterForm onToggleMode={() => navigate(SIGN_IN_PATH)} />;
+}
+
+function ResetPasswordPage() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  if (!user) {
+    return <Navigate to={SIGN_IN_PATH} replace />;
+  }
+
+  return (
+    <AuthScreen>
+      <ResetPasswordForm onDone={() => navigate('/', { replace: true })} />
+    </AuthScreen>
+  );
+}
+
+function Home() {
+  const { profile } = useAuth();
+  return profile!.role === 'barber' ? <BarberDashboard /> : <CustomerDashboard />;
+}
+
+function CheckInPage() {
+  const { profile } = useAuth();
+  return profile!.role === 'barber' ? <GuestCheckIn /> : <Navigate to="/" replace />;
+}
 
 function App() {
-  const { user, profile, loading } = useAuth();
-  const [isLogin, setIsLogin] = useState(true);
+  const { loading, passwordRecovery } = useAuth();
+  const location = useLocation();
 
   if (loading) {
     return (
@@ -17,19 +133,32 @@ function App() {
     );
   }
 
-  if (!user || !profile) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-blue-50 to-gray-100 flex items-center justify-center p-4">
-        {isLogin ? (
-          <LoginForm onToggleMode={() => setIsLogin(false)} />
-        ) : (
-          <RegisterForm onToggleMode={() => setIsLogin(true)} />
-        )}
-      </div>
-    );
+  if (passwordRecovery && location.pathname !== RESET_PASSWORD_PATH) {
+    return <Navigate to={RESET_PASSWORD_PATH} replace />;
   }
 
-  return profile.role === 'barber' ? <BarberDashboard /> : <CustomerDashboard />;
+  return (
+    <Routes>
+      <Route element={<GuestOnly />}>
+        <Route path={SIGN_IN_PATH} element={<LoginPage />} />
+        <Route path="/register" element={<RegisterPage />} />
+      </Route>
+      <Route path={RESET_PASSWORD_PATH} element={<ResetPasswordPage />} />
+      <Route path="/display/:token" element={<QueueDisplay />} />
+      <Route element={<RequireAuth />}>
+        <Route path="/" element={<Home />} />
+        <Route path="/shops/:shopId" element={<Home />} />
+        <Route path="/appointments/:appointmentId" element={<Home />} />
+        <Route path="/history" element={<Home />} />
+        <Route path="/settings" element={<Home />} />
+        <Route path="/schedule" element={<Home />} />
+        <Route path="/analytics" element={<Home />} />
+        <Route path="/manage-shops" element={<Home />} />
+        <Route path="/check-in/:shopId" element={<CheckInPage />} />
+      </Route>
+      <Route path="*" element={<Navigate to="/" replace />} />
+    </Routes>
+  );
 }
 
 export default App;
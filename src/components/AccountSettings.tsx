@@ -0,0 +1,334 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '../lib/supabase';
+import { profilesRepo } from '../lib/repos/profilesRepo';
+import { notificationsRepo } from '../lib/repos/notificationsRepo';
+import { normalizePhone } from '../lib/phone';
+import { useAuth } from '../contexts/useAuth';
+
+export function AccountSettings() {
+  const { user, profile, refreshProfile } = useAuth();
+  const [fullName, setFullName] = useState(profile?.full_name ?? '');
+  const [phone, setPhone] = useState(profile?.phone ?? '');
+  const [profileMessage, setProfileMessage] = useState('');
+  const [profileError, setProfileError] = useState('');
+  const [emailNotifications, setEmailNotifications] = useState(false);
+  const [smsNotifications, setSmsNotifications] = useState(false);
+  const [notificationMessage, setNotificationMessage] = useState('');
+  const [notificationError, setNotificationError] = useState('');
+  const [email, setEmail] = useState('');
+  const [emailMessage, setEmailMessage] = useState('');
+  const [emailError, setEmailError] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [passwordMessage, setPasswordMessage] = useState('');
+  const [passwordError, setPasswordError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const isCustomer = profile?.role === 'customer';
+
+  const loadNotificationPreferences = useCallback(async () => {
+    const { data, error } = await notificationsRepo.getPreferences(user!.id);
+
+    if (error) {
+      setNotificationError(error.message);
+      return;
+    }
+    setEmailNotifications(data?.email_enabled ?? false);
+    setSmsNotifications(data?.sms_enabled ?? false);
+  }, [user]);
+
+  useEffect(() => {
+    if (isCustomer) loadNotificationPreferences();
+  }, [isCustomer, loadNotificationPreferences]);
+
+  const saveProfile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setProfileMessage('');
+    setProfileError('');
+
+    const normalizedPhone = phone.trim() ? normalizePhone(phone) : '';
+    if (normalizedPhone === null) {
+      setProfileError('Enter a valid phone number, e.g. +15551234567');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await profilesRepo.update(user!.id, {
+      full_name: fullName.trim(),
+      phone: normalizedPhone || null,
+    });
+
+    if (error) {
+      setProfileError(error.message);
+    } else {
+      setPhone(normalizedPhone);
+      setProfileMessage('Profile saved');
+      await refreshProfile();
+    }
+    setLoading(false);
+  };
+
+  const saveNotificationPreferences = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setNotificationMessage('');
+    setNotificationError('');
+    setLoading(true);
+
+    const { error } = await notificationsRepo.savePreferences(user!.id, {
+      email_enabled: emailNotifications,
+      sms_enabled: smsNotifications,
+    });
+
+    if (error) {
+      setNotificationError(error.message);
+    } else {
+      setNotificationMessage('Notification settings saved');
+    }
+    setLoading(false);
+  };
+
+  const changeEmail = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEmailMessage('');
+    setEmailError('');
+    setLoading(true);
+
+    const { error } = await supabase.auth.updateUser({ email: email.trim() });
+
+    if (error) {
+      setEmailError(error.message);
+    } else {
+      setEmail('');
+      setEmailMessage('Check your inbox to confirm the new address');
+    }
+    setLoading(false);
+  };
+
+  const changePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPasswordMessage('');
+    setPasswordError('');
+
+    if (password !== confirmPassword) {
+      setPasswordError('Passwords do not match');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) {
+      setPasswordError(error.message);
+    } else {
+      setPassword('');
+      setConfirmPassword('');
+      setPasswordMessage('Password changed');
+    }
+    setLoading(false);
+  };
+
+  const deleteAccount = async () => {
+    if (!confirm('Delete your account? Your profile and appointments will be removed permanently.')) return;
+
+    setLoading(true);
+    const { error } = await profilesRepo.deleteMyAccount();
+
+    if (error) {
+      alert(error.message);
+      setLoading(false);
+      return;
+    }
+    await supabase.auth.signOut({ scope: 'local' });
+  };
+
+  return (
+    <section className="max-w-2xl space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900">Account Settings</h2>
+
+      <form onSubmit={saveProfile} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Profile</h3>
+        <div>
+          <label htmlFor="settingsFullName" className="block text-sm font-medium text-gray-700 mb-1">
+            Full Name
+          </label>
+          <input
+            id="settingsFullName"
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="settingsPhone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone
+          </label>
+          <input
+            id="settingsPhone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="+15551234567"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            {isCustomer
+              ? 'Barbers use this number to call you when it is your turn.'
+              : 'Shown to your team.'}
+          </p>
+        </div>
+        {profileError && (
+          <div className="text-red-600 text-sm">{profileError}</div>
+        )}
+        {profileMessage && (
+          <div className="text-green-600 text-sm">{profileMessage}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+        >
+          Save Profile
+        </button>
+      </form>
+
+      {isCustomer && (
+        <form onSubmit={saveNotificationPreferences} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+          <h3 className="font-semibold text-gray-900">Queue Notifications</h3>
+          <p className="text-sm text-gray-600">
+            Step out while you wait. We'll let you know when you're 2 away, when you're next and
+            when your barber is ready.
+          </p>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={emailNotifications}
+              onChange={(e) => setEmailNotifications(e.target.checked)}
+              className="mr-2"
+            />
+            Email me at {profile?.email}
+          </label>
+          <div>
+            <label className="flex items-center text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={smsNotifications && !!profile?.phone}
+                onChange={(e) => setSmsNotifications(e.target.checked)}
+                disabled={!profile?.phone}
+                className="mr-2"
+              />
+              {profile?.phone ? `Text me at ${profile.phone}` : 'Text me'}
+            </label>
+            {!profile?.phone && (
+              <p className="text-xs text-gray-500 mt-1">Save a phone number above to get texts.</p>
+            )}
+          </div>
+          {notificationError && (
+            <div className="text-red-600 text-sm">{notificationError}</div>
+          )}
+          {notificationMessage && (
+            <div className="text-green-600 text-sm">{notificationMessage}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            Save Notifications
+          </button>
+        </form>
+      )}
+
+      <form onSubmit={changeEmail} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Email</h3>
+        <p className="text-sm text-gray-600">Current: {user?.email}</p>
+        <div>
+          <label htmlFor="settingsEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            New Email
+          </label>
+          <input
+            id="settingsEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {emailError && (
+          <div className="text-red-600 text-sm">{emailError}</div>
+        )}
+        {emailMessage && (
+          <div className="text-green-600 text-sm">{emailMessage}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+        >
+          Change Email
+        </button>
+      </form>
+
+      <form onSubmit={changePassword} className="bg-white rounded-lg shadow-md p-6 space-y-4">
+        <h3 className="font-semibold text-gray-900">Password</h3>
+        <div>
+          <label htmlFor="settingsPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            New Password
+          </label>
+          <input
+            id="settingsPassword"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+            minLength={6}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="settingsConfirmPassword" className="block text-sm font-medium text-gray-700 mb-1">
+            Confirm New Password
+          </label>
+          <input
+            id="settingsConfirmPassword"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            required
+            minLength={6}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {passwordError && (
+          <div className="text-red-600 text-sm">{passwordError}</div>
+        )}
+        {passwordMessage && (
+          <div className="text-green-600 text-sm">{passwordMessage}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white px-4 py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+        >
+          Change Password
+        </button>
+      </form>
+
+      <div className="bg-white rounded-lg shadow-md p-6 border border-red-200">
+        <h3 className="font-semibold text-red-700 mb-2">Delete Account</h3>
+        <p className="text-sm text-gray-600 mb-4">
+          Removes your profile, your appointments and any shop where you are the only barber.
+        </p>
+        <button
+          onClick={deleteAccount}
+          disabled={loading}
+          className="bg-red-600 text-white px-4 py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400"
+        >
+          Delete My Account
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from 'react';
+import { X } from 'lucide-react';
+import { customerName } from '../lib/supabase';
+import { appointmentsRepo, DetailAppointment, TimelineEvent } from '../lib/repos/appointmentsRepo';
+import { profilesRepo } from '../lib/repos/profilesRepo';
+
+type Props = {
+  appointmentId: string;
+  onClose: () => void;
+};
+
+function formatStatus(status: unknown) {
+  return typeof status === 'string' ? status.replace(/_/g, ' ') : '-';
+}
+
+export function AppointmentDetail({ appointmentId, onClose }: Props) {
+  const [appointment, setAppointment] = useState<DetailAppointment | null>(null);
+  const [events, setEvents] = useState<TimelineEvent[]>([]);
+  const [barberNames, setBarberNames] = useState<Record<string, string>>({});
+  const [loaded, setLoaded] = useState(false);
+
+  const loadDetail = useCallback(async () => {
+    const { data: detail } = await appointmentsRepo.getDetail(appointmentId);
+    const timeline = detail?.events ?? [];
+    setAppointment(detail?.appointment ?? null);
+    setEvents(timeline);
+
+    const barberIds = [...new Set(
+      timeline
+        .filter(event => event.event_type === 'reassigned')
+        .flatMap(event => [
+          event.old_value?.barber_id,
+          event.old_value?.preferred_barber_id,
+          event.new_value?.barber_id,
+          event.new_value?.preferred_barber_id,
+        ])
+        .filter((id): id is string => typeof id === 'string')
+    )];
+
+    const { data: names } = await profilesRepo.getNames(barberIds);
+    if (names) setBarberNames(names);
+    setLoaded(true);
+  }, [appointmentId]);
+
+  useEffect(() => {
+    loadDetail();
+  }, [loadDetail]);
+
+  const barberName = (id: unknown) =>
+    typeof id === 'string' ? barberNames[id] ?? 'Unknown barber' : 'nobody';
+
+  const describe = (event: TimelineEvent) => {
+    switch (event.event_type) {
+      case 'created':
+        return event.new_value?.booking_type === 'scheduled'
+          ? `Booked for ${new Date(String(event.new_value.scheduled_at)).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}`
+          : `Joined the queue at #${event.new_value?.queue_position}`;
+      case 'status_changed':
+        return `Status changed from ${formatStatus(event.old_value?.status)} to ${formatStatus(event.new_value?.status)}`;
+      case 'reordered':
+        return `Moved from #${event.old_value?.queue_position} to #${event.new_value?.queue_position}`;
+      case 'reassigned':
+        if (event.old_value?.barber_id !== event.new_value?.barber_id) {
+          return `Barber changed from ${barberName(event.old_value?.barber_id)} to ${barberName(event.new_value?.barber_id)}`;
+        }
+        return `Requested barber changed from ${barberName(event.old_value?.preferred_barber_id)} to ${barberName(event.new_value?.preferred_barber_id)}`;
+      case 'deleted':
+        return `Removed while ${formatStatus(event.old_value?.status)}`;
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-md p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="font-semibold text-gray-900">
+              {appointment ? customerName(appointment) : 'Appointment'}
+            </h3>
+            {appointment && (
+              <p className="text-sm text-gray-600">
+                {appointment.shop?.name} - {appointment.service_type.replace(/_/g, ' ')}
+                {appointment.barber && ` with ${appointment.barber.full_name}`}
+              </p>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {loaded && !appointment && (
+          <div className="text-sm text-gray-500 mb-4">This appointment has been removed.</div>
+        )}
+
+        <h4 className="font-medium text-gray-900 mb-2">Timeline</h4>
+        {loaded && events.length === 0 ? (
+          <div className="text-sm text-gray-400">No recorded changes</div>
+        ) : (
+          <ol className="border-l border-gray-200 ml-2 space-y-4">
+            {events.map((event) => (
+              <li key={event.id} className="ml-4">
+                <div className="text-sm text-gray-900">{describe(event)}</div>
+                <div className="text-xs text-gray-500">
+                  {new Date(event.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  {' - '}
+                  {event.actor?.full_name ?? 'System'}
+                </div>
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, RotateCcw, History } from 'lucide-react';
+import { Shop, Appointment, AppointmentStatus } from '../lib/supabase';
+import { appointmentsRepo, HistoryAppointment } from '../lib/repos/appointmentsRepo';
+import { useAuth } from '../contexts/useAuth';
+
+type Props = {
+  shops: Shop[];
+  onBookAgain: (appointment: HistoryAppointment) => void;
+};
+
+type StatusFilter = 'all' | 'completed' | 'cancelled' | 'no_show';
+
+const pastStatuses: AppointmentStatus[] = ['completed', 'cancelled', 'no_show'];
+
+const PAGE_SIZE = 10;
+
+const statusStyles: Record<AppointmentStatus, string> = {
+  waiting: 'bg-yellow-100 text-yellow-800',
+  in_progress: 'bg-green-100 text-green-800',
+  completed: 'bg-blue-100 text-blue-800',
+  cancelled: 'bg-gray-100 text-gray-700',
+  no_show: 'bg-red-100 text-red-800',
+};
+
+function formatDuration(appointment: Appointment) {
+  if (!appointment.started_at || !appointment.completed_at) return '-';
+  const minutes = Math.round(
+    (new Date(appointment.completed_at).getTime() - new Date(appointment.started_at).getTime()) / 60000
+  );
+  return `${minutes} min`;
+}
+
+export function AppointmentHistory({ shops, onBookAgain }: Props) {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const [appointments, setAppointments] = useState<HistoryAppointment[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [shopFilter, setShopFilter] = useState('');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+
+  useEffect(() => {
+    setPage(0);
+  }, [statusFilter, shopFilter, fromDate, toDate]);
+
+  const loadHistory = useCallback(async () => {
+    const { data } = await appointmentsRepo.listHistory({
+      customerId: user!.id,
+      statuses: statusFilter === 'all' ? pastStatuses : [statusFilter],
+      shopId: shopFilter,
+      from: fromDate && new Date(`${fromDate}T00:00:00`).toISOString(),
+      to: toDate && new Date(`${toDate}T23:59:59.999`).toISOString(),
+      offset: page * PAGE_SIZE,
+      limit: PAGE_SIZE,
+    });
+
+    if (data) {
+      setAppointments(data.appointments);
+      setTotal(data.total);
+    }
+  }, [user, page, statusFilter, shopFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory]);
+
+  const pageCount = Math.max(Math.ceil(total / PAGE_SIZE), 1);
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-gray-900 mb-4">Visit History</h2>
+
+      <div className="bg-white rounded-lg shadow-md p-4 mb-4 grid md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="historyStatus" className="block text-sm font-medium text-gray-700 mb-1">
+            Status
+          </label>
+          <select
+            id="historyStatus"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="all">All</option>
+            <option value="completed">Completed</option>
+            <option value="cancelled">Cancelled</option>
+            <option value="no_show">No-show</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="historyShop" className="block text-sm font-medium text-gray-700 mb-1">
+            Shop
+          </label>
+          <select
+            id="historyShop"
+            value={shopFilter}
+            onChange={(e) => setShopFilter(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All shops</option>
+            {shops.map((shop) => (
+              <option key={shop.id} value={shop.id}>{shop.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="historyFrom" className="block text-sm font-medium text-gray-700 mb-1">
+            From
+          </label>
+          <input
+            id="historyFrom"
+            type="date"
+            value={fromDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="historyTo" className="block text-sm font-medium text-gray-700 mb-1">
+            To
+          </label>
+          <input
+            id="historyTo"
+            type="date"
+            value={toDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Date</th>
+              <th className="px-4 py-3 font-medium">Shop</th>
+              <th className="px-4 py-3 font-medium">Barber</th>
+              <th className="px-4 py-3 font-medium">Service</th>
+              <th className="px-4 py-3 font-medium">Duration</th>
+              <th className="px-4 py-3 font-medium">Status</th>
+              <th className="px-4 py-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {appointments.length === 0 ? (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">
+                  No past visits
+                </td>
+              </tr>
+            ) : (
+              appointments.map((appointment) => (
+                <tr key={appointment.id}>
+                  <td className="px-4 py-3 text-gray-900">
+                    {new Date(appointment.scheduled_at ?? appointment.created_at).toLocaleDateString([], { dateStyle: 'medium' })}
+                  </td>
+                  <td className="px-4 py-3 text-gray-900">{appointment.shop?.name ?? '-'}</td>
+                  <td className="px-4 py-3 text-gray-600">{appointment.barber?.full_name ?? '-'}</td>
+                  <td className="px-4 py-3 text-gray-600">{appointment.service_type.replace(/_/g, ' ')}</td>
+                  <td className="px-4 py-3 text-gray-600">{formatDuration(appointment)}</td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-1 rounded text-xs font-medium ${statusStyles[appointment.status]}`}>
+                      {appointment.status.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center justify-end gap-3">
+                      <button
+                        onClick={() => navigate(`/appointments/${appointment.id}`, { state: { background: '/history' } })}
+                        className="text-gray-600 hover:underline flex items-center gap-1"
+                      >
+                        <History className="w-3 h-3" />
+                        Details
+                      </button>
+                      {appointment.shop && (
+                        <button
+                          onClick={() => onBookAgain(appointment)}
+                          className="text-blue-600 hover:underline flex items-center gap-1"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          Book again
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex justify-between items-center mt-4 text-sm text-gray-600">
+        <span>{total} visit{total === 1 ? '' : 's'}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="p-1 hover:text-gray-900 disabled:text-gray-300"
+          >
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span>Page {page + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={page + 1 >= pageCount}
+            className="p-1 hover:text-gray-900 disabled:text-gray-300"
+          >
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Users, Hourglass, Scissors, Ban } from 'lucide-react';
+import {
+  Shop,
+  AnalyticsSummary,
+  DailyThroughput,
+  ServiceTimeStats,
+  BusyHour,
+} from '../lib/supabase';
+import { appointmentsRepo } from '../lib/repos/appointmentsRepo';
+import { shopsRepo, RosterBarber } from '../lib/repos/shopsRepo';
+
+type Props = {
+  shops: Shop[];
+};
+
+const DAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function dateString(date: Date) {
+  return date.toLocaleDateString('en-CA');
+}
+
+function daysAgo(days: number) {
+  const date = new Date();
+  date.setDate(date.getDate() - days);
+  return date;
+}
+
+function formatMinutes(minutes: number | null) {
+  return minutes === null ? '-' : `${minutes} min`;
+}
+
+export function BarberAnalytics({ shops }: Props) {
+  const [shopId, setShopId] = useState(shops[0]?.id ?? '');
+  const [barberId, setBarberId] = useState('');
+  const [roster, setRoster] = useState<RosterBarber[]>([]);
+  const [fromDate, setFromDate] = useState(dateString(daysAgo(29)));
+  const [toDate, setToDate] = useState(dateString(new Date()));
+  const [summary, setSummary] = useState<AnalyticsSummary | null>(null);
+  const [throughput, setThroughput] = useState<DailyThroughput[]>([]);
+  const [serviceStats, setServiceStats] = useState<ServiceTimeStats[]>([]);
+  const [busyHours, setBusyHours] = useState<BusyHour[]>([]);
+
+  useEffect(() => {
+    setBarberId('');
+    setRoster([]);
+    if (shopId) {
+      loadRoster(shopId);
+    }
+  }, [shopId]);
+
+  const loadRoster = async (forShopId: string) => {
+    const { data } = await shopsRepo.listRoster(forShopId);
+    if (data) setRoster(data);
+  };
+
+  const loadAnalytics = useCallback(async () => {
+    if (!fromDate || !toDate || toDate < fromDate) return;
+
+    const { data } = await appointmentsRepo.getAnalytics({
+      shopId,
+      barberId,
+      from: fromDate,
+      to: toDate,
+    });
+    if (!data) return;
+
+    setSummary(data.summary);
+    setThroughput(data.throughput);
+    setServiceStats(data.serviceStats);
+    setBusyHours(data.busyHours);
+  }, [shopId, barberId, fromDate, toDate]);
+
+  useEffect(() => {
+    loadAnalytics();
+  }, [loadAnalytics]);
+
+  const maxServed = Math.max(...throughput.map(day => day.served_count), 1);
+  const maxVisits = Math.max(...busyHours.map(cell => cell.visit_count), 1);
+  const visitsAt = (day: number, hour: number) =>
+    busyHours.find(cell => cell.day_of_week === day && cell.hour === hour)?.visit_count ?? 0;
+  const activeHours = HOURS.filter(hour => busyHours.some(cell => cell.hour === hour));
+
+  return (
+    <section className="space-y-6">
+      <h2 className="text-xl font-semibold text-gray-900">Analytics</h2>
+
+      <div className="bg-white rounded-lg shadow-md p-4 grid md:grid-cols-4 gap-4">
+        <div>
+          <label htmlFor="analyticsShop" className="block text-sm font-medium text-gray-700 mb-1">
+            Shop
+          </label>
+          <select
+            id="analyticsShop"
+            value={shopId}
+            onChange={(e) => setShopId(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">All my shops</option>
+            {shops.map((shop) => (
+              <option key={shop.id} value={shop.id}>{shop.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="analyticsBarber" className="block text-sm font-medium text-gray-700 mb-1">
+            Barber
+          </label>
+          <select
+            id="analyticsBarber"
+            value={barberId}
+            onChange={(e) => setBarberId(e.target.value)}
+            disabled={!shopId}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+          >
+            <option value="">All barbers</option>
+            {roster.map((barber) => (
+              <option key={barber.id} value={barber.id}>{barber.full_name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="analyticsFrom" className="block text-sm font-medium text-gray-700 mb-1">
+            From
+          </label>
+          <input
+            id="analyticsFrom"
+            type="date"
+            value={fromDate}
+            max={toDate}
+            onChange={(e) => setFromDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="analyticsTo" className="block text-sm font-medium text-gray-700 mb-1">
+            To
+          </label>
+          <input
+            id="analyticsTo"
+            type="date"
+            value={toDate}
+            min={fromDate}
+            onChange={(e) => setToDate(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-4 gap-4">
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <div className="text-sm text-gray-600 flex items-center gap-1">
+            <Users className="w-4 h-4" />
+            Customers served
+          </div>
+          <div className="text-2xl font-bold text-gray-900 mt-1">{summary?.completed_count ?? 0}</div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <div className="text-sm text-gray-600 flex items-center gap-1">
+            <Hourglass className="w-4 h-4" />
+            Average wait
+          </div>
+          <div className="text-2xl font-bold text-gray-900 mt-1">
+            {formatMinutes(summary?.avg_wait_minutes ?? null)}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <div className="text-sm text-gray-600 flex items-center gap-1">
+            <Scissors className="w-4 h-4" />
+            Average service
+          </div>
+          <div className="text-2xl font-bold text-gray-900 mt-1">
+            {formatMinutes(summary?.avg_service_minutes ?? null)}
+          </div>
+        </div>
+        <div className="bg-white rounded-lg shadow-md p-4">
+          <div className="text-sm text-gray-600 flex items-center gap-1">
+            <Ban className="w-4 h-4" />
+            Cancellation rate
+          </div>
+          <div className="text-2xl font-bold text-gray-900 mt-1">
+            {summary?.cancellation_rate == null ? '-' : `${(summary.cancellation_rate * 100).toFixed(1)}%`}
+          </div>
+        </div>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Customers Served per Day</h3>
+        {throughput.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">No data for this period</div>
+        ) : (
+          <div className="flex items-end gap-1 h-40">
+            {throughput.map((day) => (
+              <div
+                key={day.day}
+                title={`${day.day}: ${day.served_count} served, ${day.cancelled_count} cancelled`}
+                className="flex-1 bg-blue-500 rounded-t min-h-[2px]"
+                style={{ height: `${(day.served_count / maxServed) * 100}%` }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-medium">Service</th>
+              <th className="px-4 py-3 font-medium">Served</th>
+              <th className="px-4 py-3 font-medium">Average wait</th>
+              <th className="px-4 py-3 font-medium">Average service time</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {serviceStats.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="px-4 py-6 text-center text-gray-500">
+                  No completed services in this period
+                </td>
+              </tr>
+            ) : (
+              serviceStats.map((stats) => (
+                <tr key={stats.service_type}>
+                  <td className="px-4 py-3 text-gray-900">{stats.service_type.replace(/_/g, ' ')}</td>
+                  <td className="px-4 py-3 text-gray-600">{stats.served_count}</td>
+                  <td className="px-4 py-3 text-gray-600">{formatMinutes(stats.avg_wait_minutes)}</td>
+                  <td className="px-4 py-3 text-gray-600">{formatMinutes(stats.avg_service_minutes)}</td>
+                </tr>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6 overflow-x-auto">
+        <h3 className="font-semibold text-gray-900 mb-4">Busiest Hours</h3>
+        {activeHours.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">No data for this period</div>
+        ) : (
+          <table className="text-xs">
+            <thead>
+              <tr>
+                <th></th>
+                {activeHours.map((hour) => (
+                  <th key={hour} className="px-1 font-normal text-gray-500">{String(hour).padStart(2, '0')}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {DAYS.map((day, dayIndex) => (
+                <tr key={day}>
+                  <td className="pr-2 text-gray-600">{day}</td>
+                  {activeHours.map((hour) => {
+                    const visits = visitsAt(dayIndex, hour);
+                    return (
+                      <td key={hour} className="p-0.5">
+                        <div
+                          title={`${day} ${hour}:00 - ${visits} visits`}
+                          className="w-6 h-6 rounded bg-blue-600"
+                          style={{ opacity: visits === 0 ? 0.05 : 0.15 + (visits / maxVisits) * 0.85 }}
+                        />
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </section>
+  );
+}
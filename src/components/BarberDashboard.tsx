@@ -1,265 +1,710 @@
-import { useState, useEffect } from 'react';
-import { MapPin, Clock, Check, X, Play } from 'lucide-react';
-import { supabase, Shop, Appointment, Profile } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { useState, useEffect, useCallback } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import {
+  MapPin,
+  Clock,
+  Check,
+  X,
+  Play,
+  Store,
+  CalendarClock,
+  CalendarDays,
+  ListOrdered,
+  BarChart3,
+  GripVertical,
+  ChevronsDown,
+  UserX,
+  History,
+  Phone,
+  Settings,
+  Tablet,
+  Wifi,
+  WifiOff,
+  RefreshCw,
+  AlertTriangle,
+} from 'lucide-react';
+import { customerName, Shop, Appointment, AppointmentTransition } from '../lib/supabase';
+import { appointmentsRepo, QueueAppointment } from '../lib/repos/appointmentsRepo';
+import { shopsRepo } from '../lib/repos/shopsRepo';
+import {
+  listPendingMutations,
+  queueMutation,
+  replayMutations,
+  isNetworkError,
+  transitionStatuses,
+  PendingMutation,
+  MutationConflict,
+} from '../lib/offlineQueue';
+import { useAuth } from '../contexts/useAuth';
+import { ShopManager } from './ShopManager';
+import { DayCalendar } from './DayCalendar';
+import { ScheduleEditor } from './ScheduleEditor';
+import { BarberAnalytics } from './BarberAnalytics';
+import { AppointmentDetail } from './AppointmentDetail';
+import { AccountSettings } from './AccountSettings';
 
-type AppointmentWithCustomer = Appointment & {
-  customer: Profile;
+type DashboardView = 'queue' | 'schedule' | 'analytics' | 'shops' | 'settings';
+
+const viewPaths: Record<DashboardView, string> = {
+  queue: '/',
+  schedule: '/schedule',
+  analytics: '/analytics',
+  shops: '/manage-shops',
+  settings: '/settings',
 };
 
+function viewForPath(pathname: string) {
+  return (Object.keys(viewPaths) as DashboardView[]).find(view => viewPaths[view] === pathname) ?? 'queue';
+}
+
+const SCHEDULED_DUE_WINDOW_MS = 15 * 60 * 1000;
+const CALL_LATER_PLACES = 3;
+const SYNC_RETRY_INTERVAL_MS = 30 * 1000;
+
+const transitionLabels: Record<AppointmentTransition, string> = {
+  start: 'Start',
+  complete: 'Complete',
+  no_show: 'No-show',
+  cancel: 'Cancel',
+};
+
+function isDueForQueue(appointment: Appointment, now: number) {
+  return appointment.booking_type === 'walk_in'
+    || new Date(appointment.scheduled_at!).getTime() <= now + SCHEDULED_DUE_WINDOW_MS;
+}
+
+function customerPhone(appointment: QueueAppointment) {
+  return appointment.customer?.phone ?? appointment.guest_phone;
+}
+
+function PendingBadge() {
+  return (
+    <span className="px-2 py-1 rounded text-xs font-medium bg-gray-100 text-gray-600">
+      Not synced
+    </span>
+  );
+}
+
+function GuestBadge() {
+  return (
+    <span className="px-2 py-0.5 rounded text-xs font-medium bg-gray-100 text-gray-600">
+      Guest
+    </span>
+  );
+}
+
+type ConnectionStatusProps = {
+  online: boolean;
+  syncing: boolean;
+  pendingCount: number;
+};
+
+function ConnectionStatus({ online, syncing, pendingCount }: ConnectionStatusProps) {
+  if (syncing) {
+    return (
+      <span className="px-3 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800 flex items-center gap-1">
+        <RefreshCw className="w-3 h-3 animate-spin" />
+        Syncing {pendingCount}
+      </span>
+    );
+  }
+
+  if (!online) {
+    return (
+      <span className="px-3 py-1 rounded text-xs font-medium bg-red-100 text-red-800 flex items-center gap-1">
+        <WifiOff className="w-3 h-3" />
+        Offline{pendingCount > 0 && ` · ${pendingCount} pending`}
+      </span>
+    );
+  }
+
+  return (
+    <span className="px-3 py-1 rounded text-xs font-medium bg-green-100 text-green-800 flex items-center gap-1">
+      <Wifi className="w-3 h-3" />
+      Online{pendingCount > 0 && ` · ${pendingCount} pending`}
+    </span>
+  );
+}
+
+function compareQueueOrder(a: Appointment, b: Appointment) {
+  if (a.booking_type !== b.booking_type) {
+    return a.booking_type === 'scheduled' ? -1 : 1;
+  }
+  if (a.booking_type === 'scheduled') {
+    return new Date(a.scheduled_at!).getTime() - new Date(b.scheduled_at!).getTime();
+  }
+  return a.queue_position - b.queue_position;
+}
+
 export function BarberDashboard() {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { shopId, appointmentId } = useParams();
   const [shops, setShops] = useState<Shop[]>([]);
   const [selectedShop, setSelectedShop] = useState<Shop | null>(null);
-  const [appointments, setAppointments] = useState<AppointmentWithCustomer[]>([]);
+  const [appointments, setAppointments] = useState<QueueAppointment[]>([]);
   const [loading, setLoading] = useState(false);
+  const [calendarRefreshKey, setCalendarRefreshKey] = useState(0);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [online, setOnline] = useState(navigator.onLine);
+  const [syncing, setSyncing] = useState(false);
+  const [syncKey, setSyncKey] = useState(0);
+  const [pendingMutations, setPendingMutations] = useState<PendingMutation[]>([]);
+  const [conflicts, setConflicts] = useState<MutationConflict[]>([]);
+
+  // The appointment detail opens over whichever page it was opened from.
+  const background = (location.state as { background?: string } | null)?.background;
+  const view = viewForPath(background ?? location.pathname);
+  const queuePath = selectedShop ? `/shops/${selectedShop.id}` : '/';
+
+  const loadShops = useCallback(async () => {
+    const { data } = await shopsRepo.listMemberships(user!.id);
+
+    if (data) setShops(data.map(membership => membership.shop));
+  }, [user]);
+
+  const loadAppointments = useCallback(async () => {
+    if (!selectedShop) return;
+
+    const { data, error } = await appointmentsRepo.listActiveForShop(selectedShop.id);
+
+    if (error && isNetworkError(error)) {
+      setOnline(false);
+    }
+    if (data) {
+      setAppointments(data);
+      setCalendarRefreshKey(key => key + 1);
+    }
+  }, [selectedShop]);
+
+  const syncPendingMutations = useCallback(async () => {
+    const queued = await listPendingMutations(user!.id);
+    setPendingMutations(queued);
+    if (queued.length === 0) return;
+
+    setSyncing(true);
+    const result = await replayMutations(user!.id);
+    setSyncing(false);
+    setOnline(result.completed);
+    if (result.conflicts.length > 0) {
+      setConflicts(current => [...current, ...result.conflicts]);
+    }
+    setPendingMutations(await listPendingMutations(user!.id));
+    if (result.replayed > 0 || result.conflicts.length > 0) {
+      setSyncKey(key => key + 1);
+    }
+  }, [user]);
 
   useEffect(() => {
     loadShops();
-  }, []);
+  }, [loadShops]);
+
+  useEffect(() => {
+    syncPendingMutations();
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncPendingMutations();
+      setSyncKey(key => key + 1);
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    // The browser can report being online while the shop's Wi-Fi drops requests, so
+    // queued changes are also retried on a timer.
+    const interval = setInterval(syncPendingMutations, SYNC_RETRY_INTERVAL_MS);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      clearInterval(interval);
+    };
+  }, [syncPendingMutations]);
+
+  useEffect(() => {
+    setSelectedShop(current =>
+      shops.find(shop => shop.id === (shopId ?? current?.id)) ?? shops[0] ?? null
+    );
+  }, [shopId, shops]);
 
   useEffect(() => {
     if (selectedShop) {
       loadAppointments();
 
-      const subscription = supabase
-        .channel('appointments_changes')
-        .on('postgres_changes', {
-          event: '*',
-          schema: 'public',
-          table: 'appointments',
-          filter: `shop_id=eq.${selectedShop.id}`
-        }, () => {
-          loadAppointments();
-        })
-        .subscribe();
-
-      return () => {
-        subscription.unsubscribe();
-      };
+      return appointmentsRepo.subscribeToShop(selectedShop.id, () => {
+        loadAppointments();
+      });
     }
-  }, [selectedShop]);
+  }, [selectedShop, syncKey, loadAppointments]);
 
-  const loadShops = async () => {
-    const { data } = await supabase
-      .from('shop_barbers')
-      .select('shop_id, shops(*)')
-      .eq('barber_id', user?.id);
+  const updateAppointmentStatus = async (appointment: QueueAppointment, transition: AppointmentTransition) => {
+    const mutation = {
+      userId: user!.id,
+      appointmentId: appointment.id,
+      transition,
+      expectedStatus: appointment.status,
+      label: `${transitionLabels[transition]} ${customerName(appointment)}`,
+    };
 
-    if (data) {
-      const shopList = data.map(item => item.shops).filter(Boolean) as Shop[];
-      setShops(shopList);
-      if (shopList.length > 0 && !selectedShop) {
-        setSelectedShop(shopList[0]);
-      }
+    // Changes already waiting to sync go first, so new ones queue up behind them.
+    if (pendingMutations.length > 0) {
+      await queueMutation(mutation);
+      await syncPendingMutations();
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await appointmentsRepo.transition(appointment.id, transition);
+    if (error && isNetworkError(error)) {
+      setOnline(false);
+      await queueMutation(mutation);
+      setPendingMutations(await listPendingMutations(user!.id));
+    } else if (error) {
+      alert(error.message);
+    } else {
+      setOnline(true);
     }
+    await loadAppointments();
+    setLoading(false);
   };
 
-  const loadAppointments = async () => {
-    if (!selectedShop) return;
+  const startService = (appointment: QueueAppointment) => {
+    if (
+      appointment.preferred_barber_id
+      && appointment.preferred_barber_id !== user?.id
+      && !confirm(`${customerName(appointment)} asked for ${appointment.preferred_barber?.full_name ?? 'another barber'}. Start anyway?`)
+    ) {
+      return;
+    }
+    updateAppointmentStatus(appointment, 'start');
+  };
 
-    const { data } = await supabase
-      .from('appointments')
-      .select(`
-        *,
-        customer:profiles!appointments_customer_id_fkey(*)
-      `)
-      .eq('shop_id', selectedShop.id)
-      .in('status', ['waiting', 'in_progress'])
-      .order('queue_position');
+  const setView = (next: DashboardView) => {
+    navigate(next === 'queue' ? queuePath : viewPaths[next]);
+  };
 
-    if (data) {
-      setAppointments(data as AppointmentWithCustomer[]);
+  const selectShop = (shop: Shop) => {
+    if (view === 'queue') {
+      navigate(`/shops/${shop.id}`);
+    } else {
+      setSelectedShop(shop);
     }
   };
 
-  const updateAppointmentStatus = async (id: string, status: string, updates: Partial<Appointment> = {}) => {
+  const openDetail = (id: string) => {
+    navigate(`/appointments/${id}`, { state: { background: location.pathname } });
+  };
+
+  const moveAppointment = async (id: string, beforeId: string | null) => {
+    setDraggedId(null);
+    if (id === beforeId) return;
+
     setLoading(true);
-    try {
-      const updateData: any = { status, ...updates };
-
-      if (status === 'in_progress') {
-        updateData.started_at = new Date().toISOString();
-        updateData.barber_id = user!.id;
-      } else if (status === 'completed') {
-        updateData.completed_at = new Date().toISOString();
-      }
-
-      const { error } = await supabase
-        .from('appointments')
-        .update(updateData)
-        .eq('id', id);
-
-      if (error) throw error;
-      await loadAppointments();
-    } catch (err) {
-      alert('Failed to update appointment');
-    } finally {
-      setLoading(false);
+    const { error } = await appointmentsRepo.move(id, beforeId);
+    if (error) {
+      alert(error.message);
     }
+    await loadAppointments();
+    setLoading(false);
   };
 
-  const deleteAppointment = async (id: string) => {
-    if (!confirm('Are you sure you want to remove this appointment?')) return;
+  const callLater = async (id: string) => {
+    setLoading(true);
+    const { error } = await appointmentsRepo.skip(id, CALL_LATER_PLACES);
+    if (error) {
+      alert(error.message);
+    }
+    await loadAppointments();
+    setLoading(false);
+  };
 
-    const { error } = await supabase
-      .from('appointments')
-      .delete()
-      .eq('id', id);
+  const markNoShow = (appointment: QueueAppointment) => {
+    if (!confirm(`Mark ${customerName(appointment)} as a no-show?`)) return;
+    updateAppointmentStatus(appointment, 'no_show');
+  };
 
-    if (!error) {
-      await loadAppointments();
-    }
+  const cancelAppointment = (appointment: QueueAppointment) => {
+    if (!confirm(`Cancel ${customerName(appointment)}'s appointment?`)) return;
+    updateAppointmentStatus(appointment, 'cancel');
   };
 
-  const waitingAppointments = appointments.filter(a => a.status === 'waiting');
-  const inProgressAppointments = appointments.filter(a => a.status === 'in_progress');
+  // Show queued changes as if they had already been saved.
+  const pendingTransitions = new Map(
+    pendingMutations.map(mutation => [mutation.appointmentId, mutation.transition])
+  );
+  const visibleAppointments = appointments.map(appointment => {
+    const transition = pendingTransitions.get(appointment.id);
+    return transition ? { ...appointment, status: transitionStatuses[transition] } : appointment;
+  });
+
+  const now = Date.now();
+  const dueAppointments = visibleAppointments
+    .filter(a => a.status === 'waiting' && isDueForQueue(a, now))
+    .sort(compareQueueOrder);
+  const waitingAppointments = [
+    ...dueAppointments.filter(a => a.preferred_barber_id === user?.id),
+    ...dueAppointments.filter(a => !a.preferred_barber_id),
+    ...dueAppointments.filter(a => a.preferred_barber_id && a.preferred_barber_id !== user?.id),
+  ];
+  // The list is grouped by preferred barber but move_appointment orders the whole queue by
+  // position, so drops are only accepted within the dragged customer's group, where the
+  // two orders agree.
+  const preferenceGroup = (appointment: QueueAppointment) =>
+    !appointment.preferred_barber_id ? 'anyone' : appointment.preferred_barber_id === user?.id ? 'me' : 'other';
+  const draggedAppointment = waitingAppointments.find(a => a.id === draggedId);
+  const canDropOn = (appointment: QueueAppointment) =>
+    !!draggedAppointment
+    && appointment.booking_type === 'walk_in'
+    && preferenceGroup(appointment) === preferenceGroup(draggedAppointment);
+  const inProgressAppointments = visibleAppointments.filter(a => a.status === 'in_progress');
 
   return (
     <div className="min-h-screen bg-gray-50">
       <header className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">Barber Dashboard</h1>
-          <button
-            onClick={() => signOut()}
-            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
-          >
-            Sign Out
-          </button>
+          <div className="flex items-center gap-2">
+            <ConnectionStatus online={online} syncing={syncing} pendingCount={pendingMutations.length} />
+            <button
+              onClick={() => setView('queue')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'queue' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <ListOrdered className="w-4 h-4" />
+              Queue
+            </button>
+            <button
+              onClick={() => setView('schedule')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'schedule' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <CalendarDays className="w-4 h-4" />
+              My Schedule
+            </button>
+            <button
+              onClick={() => setView('analytics')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'analytics' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <BarChart3 className="w-4 h-4" />
+              Analytics
+            </button>
+            <button
+              onClick={() => setView('shops')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'shops' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <Store className="w-4 h-4" />
+              Manage Shops
+            </button>
+            <button
+              onClick={() => setView('settings')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'settings' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <Settings className="w-4 h-4" />
+              Settings
+            </button>
+            <button
+              onClick={() => signOut()}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-8">
-        <div className="mb-6">
-          <label className="block text-sm font-medium text-gray-700 mb-2">
-            Select Shop
-          </label>
-          <div className="grid md:grid-cols-3 gap-4">
-            {shops.map((shop) => (
-              <button
-                key={shop.id}
-                onClick={() => setSelectedShop(shop)}
-                className={`text-left p-4 rounded-lg border transition-colors ${
-                  selectedShop?.id === shop.id
-                    ? 'border-blue-500 bg-blue-50'
-                    : 'border-gray-300 bg-white hover:border-gray-400'
-                }`}
-              >
-                <div className="font-semibold text-gray-900">{shop.name}</div>
-                <div className="text-sm text-gray-600 flex items-center mt-1">
-                  <MapPin className="w-3 h-3 mr-1" />
-                  {shop.address}
-                </div>
-                <div className="text-sm text-gray-600 flex items-center mt-1">
-                  <Clock className="w-3 h-3 mr-1" />
-                  {shop.opening_time} - {shop.closing_time}
-                </div>
+        {conflicts.length > 0 && (
+          <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-4 mb-6">
+            <div className="flex justify-between items-start">
+              <div className="flex items-center gap-2 font-semibold text-yellow-800 mb-2">
+                <AlertTriangle className="w-4 h-4" />
+                Some offline changes were not saved
+              </div>
+              <button onClick={() => setConflicts([])} className="text-yellow-700 hover:text-yellow-900">
+                <X className="w-4 h-4" />
               </button>
-            ))}
+            </div>
+            <ul className="text-sm text-yellow-800 space-y-1">
+              {conflicts.map(({ mutation, reason }) => (
+                <li key={mutation.id}>{mutation.label}: {reason}</li>
+              ))}
+            </ul>
           </div>
-        </div>
+        )}
 
-        {selectedShop && (
-          <div className="grid md:grid-cols-2 gap-8">
-            <section>
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">
-                In Progress ({inProgressAppointments.length})
-              </h2>
-              <div className="space-y-4">
-                {inProgressAppointments.length === 0 ? (
-                  <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
-                    No appointments in progress
-                  </div>
-                ) : (
-                  inProgressAppointments.map((appointment) => (
-                    <div key={appointment.id} className="bg-white rounded-lg shadow-md p-6">
-                      <div className="flex justify-between items-start mb-3">
-                        <div>
-                          <h3 className="font-semibold text-gray-900">{appointment.customer.full_name}</h3>
-                          <p className="text-sm text-gray-600">{appointment.service_type.replace('_', ' ')}</p>
-                        </div>
-                        <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
-                          In Progress
-                        </span>
-                      </div>
-                      {appointment.notes && (
-                        <p className="text-sm text-gray-600 mb-3">{appointment.notes}</p>
-                      )}
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => updateAppointmentStatus(appointment.id, 'completed')}
-                          disabled={loading}
-                          className="flex-1 bg-green-600 text-white py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
-                        >
-                          <Check className="w-4 h-4" />
-                          Complete
-                        </button>
-                        <button
-                          onClick={() => deleteAppointment(appointment.id)}
-                          disabled={loading}
-                          className="px-4 bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
+        {view === 'settings' && (
+          <AccountSettings />
+        )}
+
+        {(view === 'shops' || (shops.length === 0 && view !== 'settings')) && (
+          <ShopManager onShopsChanged={loadShops} />
+        )}
+
+        {view === 'analytics' && shops.length > 0 && (
+          <BarberAnalytics shops={shops} />
+        )}
+
+        {(view === 'queue' || view === 'schedule') && shops.length > 0 && (
+          <>
+            <div className="mb-6">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Select Shop
+              </label>
+              <div className="grid md:grid-cols-3 gap-4">
+                {shops.map((shop) => (
+                  <button
+                    key={shop.id}
+                    onClick={() => selectShop(shop)}
+                    className={`text-left p-4 rounded-lg border transition-colors ${
+                      selectedShop?.id === shop.id
+                        ? 'border-blue-500 bg-blue-50'
+                        : 'border-gray-300 bg-white hover:border-gray-400'
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-900">{shop.name}</div>
+                    <div className="text-sm text-gray-600 flex items-center mt-1">
+                      <MapPin className="w-3 h-3 mr-1" />
+                      {shop.address}
+                    </div>
+                    <div className="text-sm text-gray-600 flex items-center mt-1">
+                      <Clock className="w-3 h-3 mr-1" />
+                      {shop.opening_time} - {shop.closing_time}
                     </div>
-                  ))
-                )}
+                  </button>
+                ))}
               </div>
-            </section>
-
-            <section>
-              <h2 className="text-xl font-semibold text-gray-900 mb-4">
-                Waiting Queue ({waitingAppointments.length})
-              </h2>
-              <div className="space-y-4">
-                {waitingAppointments.length === 0 ? (
-                  <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
-                    No appointments in queue
-                  </div>
-                ) : (
-                  waitingAppointments.map((appointment) => (
-                    <div key={appointment.id} className="bg-white rounded-lg shadow-md p-6">
-                      <div className="flex justify-between items-start mb-3">
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <span className="text-lg font-bold text-blue-600">#{appointment.queue_position}</span>
-                            <h3 className="font-semibold text-gray-900">{appointment.customer.full_name}</h3>
+            </div>
+
+            {view === 'schedule' && selectedShop && (
+              <ScheduleEditor shop={selectedShop} />
+            )}
+
+            {view === 'queue' && selectedShop && (
+              <div className="flex justify-end mb-4">
+                <button
+                  onClick={() => navigate(`/check-in/${selectedShop.id}`)}
+                  className="px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors flex items-center gap-2 text-sm"
+                >
+                  <Tablet className="w-4 h-4" />
+                  Guest Check-In
+                </button>
+              </div>
+            )}
+
+            {view === 'queue' && selectedShop && (
+              <div className="grid md:grid-cols-2 gap-8">
+                <section>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                    In Progress ({inProgressAppointments.length})
+                  </h2>
+                  <div className="space-y-4">
+                    {inProgressAppointments.length === 0 ? (
+                      <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+                        No appointments in progress
+                      </div>
+                    ) : (
+                      inProgressAppointments.map((appointment) => (
+                        <div key={appointment.id} className="bg-white rounded-lg shadow-md p-6">
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <div className="flex items-center gap-2">
+                                <h3 className="font-semibold text-gray-900">{customerName(appointment)}</h3>
+                                {!appointment.customer_id && <GuestBadge />}
+                              </div>
+                              <p className="text-sm text-gray-600">{appointment.service_type.replace(/_/g, ' ')}</p>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => openDetail(appointment.id)}
+                                title="Timeline"
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                              {pendingTransitions.has(appointment.id) && <PendingBadge />}
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800">
+                                In Progress
+                              </span>
+                            </div>
+                          </div>
+                          {appointment.notes && (
+                            <p className="text-sm text-gray-600 mb-3">{appointment.notes}</p>
+                          )}
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => updateAppointmentStatus(appointment, 'complete')}
+                              disabled={loading}
+                              className="flex-1 bg-green-600 text-white py-2 rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+                            >
+                              <Check className="w-4 h-4" />
+                              Complete
+                            </button>
+                            <button
+                              onClick={() => cancelAppointment(appointment)}
+                              disabled={loading}
+                              title="Cancel"
+                              className="px-4 bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
                           </div>
-                          <p className="text-sm text-gray-600">{appointment.service_type.replace('_', ' ')}</p>
                         </div>
-                        <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
-                          Waiting
-                        </span>
+                      ))
+                    )}
+                  </div>
+                </section>
+
+                <section>
+                  <h2 className="text-xl font-semibold text-gray-900 mb-4">
+                    Waiting Queue ({waitingAppointments.length})
+                  </h2>
+                  <div className="space-y-4">
+                    {waitingAppointments.length === 0 ? (
+                      <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+                        No appointments in queue
                       </div>
-                      {appointment.notes && (
-                        <p className="text-sm text-gray-600 mb-3">{appointment.notes}</p>
-                      )}
-                      <div className="flex gap-2">
-                        <button
-                          onClick={() => updateAppointmentStatus(appointment.id, 'in_progress')}
-                          disabled={loading}
-                          className="flex-1 bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+                    ) : (
+                      waitingAppointments.map((appointment) => (
+                        <div
+                          key={appointment.id}
+                          draggable={appointment.booking_type === 'walk_in' && !loading}
+                          onDragStart={() => setDraggedId(appointment.id)}
+                          onDragEnd={() => setDraggedId(null)}
+                          onDragOver={(e) => {
+                            if (canDropOn(appointment)) e.preventDefault();
+                          }}
+                          onDrop={() => draggedId && canDropOn(appointment) && moveAppointment(draggedId, appointment.id)}
+                          className={`bg-white rounded-lg shadow-md p-6 ${
+                            draggedId === appointment.id ? 'opacity-50' : ''
+                          }`}
                         >
-                          <Play className="w-4 h-4" />
-                          Start Service
-                        </button>
-                        <button
-                          onClick={() => deleteAppointment(appointment.id)}
-                          disabled={loading}
-                          className="px-4 bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400"
-                        >
-                          <X className="w-4 h-4" />
-                        </button>
+                          <div className="flex justify-between items-start mb-3">
+                            <div>
+                              <div className="flex items-center gap-2">
+                                {appointment.booking_type === 'walk_in' && (
+                                  <GripVertical className="w-4 h-4 text-gray-400 cursor-move" />
+                                )}
+                                {appointment.booking_type === 'scheduled' ? (
+                                  <span className="text-lg font-bold text-purple-600 flex items-center gap-1">
+                                    <CalendarClock className="w-4 h-4" />
+                                    {new Date(appointment.scheduled_at!).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                  </span>
+                                ) : (
+                                  <span className="text-lg font-bold text-blue-600">#{appointment.queue_position}</span>
+                                )}
+                                <h3 className="font-semibold text-gray-900">{customerName(appointment)}</h3>
+                                {!appointment.customer_id && <GuestBadge />}
+                              </div>
+                              <p className="text-sm text-gray-600">{appointment.service_type.replace(/_/g, ' ')}</p>
+                              {customerPhone(appointment) && (
+                                <a
+                                  href={`tel:${customerPhone(appointment)}`}
+                                  className="text-sm text-blue-600 hover:underline flex items-center gap-1 mt-1"
+                                >
+                                  <Phone className="w-3 h-3" />
+                                  {customerPhone(appointment)}
+                                </a>
+                              )}
+                              {appointment.preferred_barber_id === user?.id ? (
+                                <p className="text-xs font-medium text-blue-600 mt-1">Requested you</p>
+                              ) : appointment.preferred_barber && (
+                                <p className="text-xs text-gray-500 mt-1">
+                                  Waiting for {appointment.preferred_barber.full_name}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <button
+                                onClick={() => openDetail(appointment.id)}
+                                title="Timeline"
+                                className="text-gray-400 hover:text-gray-600"
+                              >
+                                <History className="w-4 h-4" />
+                              </button>
+                              <span className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800">
+                                Waiting
+                              </span>
+                            </div>
+                          </div>
+                          {appointment.notes && (
+                            <p className="text-sm text-gray-600 mb-3">{appointment.notes}</p>
+                          )}
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => startService(appointment)}
+                              disabled={loading}
+                              className="flex-1 bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+                            >
+                              <Play className="w-4 h-4" />
+                              Start Service
+                            </button>
+                            {appointment.booking_type === 'walk_in' && (
+                              <button
+                                onClick={() => callLater(appointment.id)}
+                                disabled={loading}
+                                title={`Call later (move back ${CALL_LATER_PLACES} places)`}
+                                className="px-4 bg-gray-200 text-gray-700 py-2 rounded-md hover:bg-gray-300 transition-colors disabled:bg-gray-100"
+                              >
+                                <ChevronsDown className="w-4 h-4" />
+                              </button>
+                            )}
+                            <button
+                              onClick={() => markNoShow(appointment)}
+                              disabled={loading}
+                              title="No-show"
+                              className="px-4 bg-orange-500 text-white py-2 rounded-md hover:bg-orange-600 transition-colors disabled:bg-gray-400"
+                            >
+                              <UserX className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => cancelAppointment(appointment)}
+                              disabled={loading}
+                              title="Cancel"
+                              className="px-4 bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                    {draggedId && (
+                      <div
+                        onDragOver={(e) => e.preventDefault()}
+                        onDrop={() => moveAppointment(draggedId, null)}
+                        className="border-2 border-dashed border-gray-300 rounded-lg p-4 text-center text-sm text-gray-500"
+                      >
+                        Drop here to move to the end of their group
                       </div>
-                    </div>
-                  ))
-                )}
+                    )}
+                  </div>
+                </section>
               </div>
-            </section>
-          </div>
+            )}
+
+            {view === 'queue' && selectedShop && (
+              <DayCalendar shop={selectedShop} refreshKey={calendarRefreshKey} />
+            )}
+          </>
         )}
       </main>
+
+      {appointmentId && (
+        <AppointmentDetail
+          appointmentId={appointmentId}
+          onClose={() => navigate(background ?? queuePath)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
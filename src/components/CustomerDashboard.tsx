@@ -1,88 +1,308 @@
-import { useState, useEffect } from 'react';
-import { MapPin, Clock, Plus, X } from 'lucide-react';
-import { supabase, Shop, Appointment } from '../lib/supabase';
-import { useAuth } from '../contexts/AuthContext';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { MapPin, Clock, Plus, X, Hourglass, Bell, CalendarClock, ListOrdered, History, Settings } from 'lucide-react';
+import { Shop, Appointment, AppointmentStatus, Service, ShopWaitTime, WaitEstimate } from '../lib/supabase';
+import { appointmentsRepo, CustomerAppointment, HistoryAppointment } from '../lib/repos/appointmentsRepo';
+import { shopsRepo, RosterBarber } from '../lib/repos/shopsRepo';
+import { useAuth } from '../contexts/useAuth';
+import { AppointmentHistory } from './AppointmentHistory';
+import { AppointmentDetail } from './AppointmentDetail';
+import { AccountSettings } from './AccountSettings';
+import { PushNotificationCard } from './PushNotificationCard';
+
+const WAIT_REFRESH_INTERVAL_MS = 30000;
+const QUEUE_ALERT_TIMEOUT_MS = 15000;
+
+type DashboardView = 'book' | 'history' | 'settings';
+
+const viewPaths: Record<DashboardView, string> = {
+  book: '/',
+  history: '/history',
+  settings: '/settings',
+};
+
+function viewForPath(pathname: string) {
+  return (Object.keys(viewPaths) as DashboardView[]).find(view => viewPaths[view] === pathname) ?? 'book';
+}
+
+type BookAgainPrefill = {
+  serviceId?: string;
+  barberId?: string;
+};
+
+type QueueAlert = {
+  id: string;
+  message: string;
+};
+
+function todayDateString() {
+  return new Date().toLocaleDateString('en-CA');
+}
+
+function formatSlotTime(slot: string) {
+  return new Date(slot).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function formatWait(minutes: number) {
+  if (minutes <= 0) return 'No wait';
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return rest === 0 ? `~${hours} h` : `~${hours} h ${rest} min`;
+}
 
 export function CustomerDashboard() {
   const { user, signOut } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { shopId, appointmentId } = useParams();
   const [shops, setShops] = useState<Shop[]>([]);
-  const [appointments, setAppointments] = useState<Appointment[]>([]);
+  const [appointments, setAppointments] = useState<CustomerAppointment[]>([]);
   const [selectedShop, setSelectedShop] = useState<Shop | null>(null);
-  const [serviceType, setServiceType] = useState('');
+  const [services, setServices] = useState<Service[]>([]);
+  const [serviceId, setServiceId] = useState('');
+  const [roster, setRoster] = useState<RosterBarber[]>([]);
+  const [preferredBarberId, setPreferredBarberId] = useState('');
   const [notes, setNotes] = useState('');
+  const [bookingType, setBookingType] = useState<Appointment['booking_type']>('walk_in');
+  const [bookingDate, setBookingDate] = useState(todayDateString());
+  const [availableSlots, setAvailableSlots] = useState<string[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState('');
   const [loading, setLoading] = useState(false);
+  const [shopWaits, setShopWaits] = useState<Record<string, ShopWaitTime>>({});
+  const [waitEstimates, setWaitEstimates] = useState<Record<string, WaitEstimate>>({});
+  const [now, setNow] = useState(Date.now());
+  const [queueAlerts, setQueueAlerts] = useState<QueueAlert[]>([]);
+  const bookAgainPrefill = useRef<BookAgainPrefill | null>(null);
+  const previousStatuses = useRef<Record<string, AppointmentStatus>>({});
+  const notifiedNextInLine = useRef<Set<string>>(new Set());
+
+  // The appointment detail opens over whichever page it was opened from.
+  const background = (location.state as { background?: string } | null)?.background;
+  const view = viewForPath(background ?? location.pathname);
+  const bookPath = selectedShop ? `/shops/${selectedShop.id}` : '/';
+
+  const userId = user!.id;
+
+  const loadAppointments = useCallback(async () => {
+    const { data } = await appointmentsRepo.listActiveForCustomer(userId);
+    if (data) setAppointments(data);
+  }, [userId]);
+
+  const dismissQueueAlert = useCallback((id: string) => {
+    setQueueAlerts(current => current.filter(alert => alert.id !== id));
+  }, []);
+
+  const pushQueueAlert = useCallback((message: string) => {
+    const id = crypto.randomUUID();
+    setQueueAlerts(current => [...current, { id, message }]);
+    setTimeout(() => dismissQueueAlert(id), QUEUE_ALERT_TIMEOUT_MS);
+  }, [dismissQueueAlert]);
 
   useEffect(() => {
     loadShops();
     loadAppointments();
-  }, []);
+    loadWaitTimes();
+
+    const interval = setInterval(() => {
+      setNow(Date.now());
+      loadWaitTimes();
+    }, WAIT_REFRESH_INTERVAL_MS);
+
+    const unsubscribe = appointmentsRepo.subscribeToCustomer(userId, () => {
+      loadAppointments();
+      loadWaitTimes();
+    });
+
+    return () => {
+      clearInterval(interval);
+      unsubscribe();
+    };
+  }, [userId, loadAppointments]);
+
+  const waitingShopIds = Array.from(new Set(
+    appointments.filter(a => a.status === 'waiting').map(a => a.shop_id)
+  )).sort().join(',');
+
+  useEffect(() => {
+    if (!waitingShopIds) return;
+
+    return shopsRepo.subscribeToQueueStatus(
+      `customer_shop_queues_${userId}`,
+      waitingShopIds.split(','),
+      () => {
+        loadWaitTimes();
+      }
+    );
+  }, [waitingShopIds, userId]);
+
+  useEffect(() => {
+    appointments.forEach((appointment) => {
+      const previous = previousStatuses.current[appointment.id];
+      if (previous === 'waiting' && appointment.status === 'in_progress') {
+        const shop = shops.find(s => s.id === appointment.shop_id);
+        pushQueueAlert(`Your barber has started your service${shop ? ` at ${shop.name}` : ''}.`);
+      }
+    });
+    previousStatuses.current = Object.fromEntries(
+      appointments.map(appointment => [appointment.id, appointment.status])
+    );
+  }, [appointments, shops, pushQueueAlert]);
+
+  useEffect(() => {
+    appointments
+      .filter(appointment => appointment.status === 'waiting')
+      .forEach((appointment) => {
+        const estimate = waitEstimates[appointment.id];
+        if (estimate?.people_ahead === 0 && !notifiedNextInLine.current.has(appointment.id)) {
+          notifiedNextInLine.current.add(appointment.id);
+          const shop = shops.find(s => s.id === appointment.shop_id);
+          pushQueueAlert(`You're next in line${shop ? ` at ${shop.name}` : ''}!`);
+        }
+      });
+  }, [appointments, waitEstimates, shops, pushQueueAlert]);
+
+  useEffect(() => {
+    const shop = shops.find(s => s.id === shopId);
+    if (shop) setSelectedShop(shop);
+  }, [shopId, shops]);
+
+  useEffect(() => {
+    setServiceId('');
+    setServices([]);
+    setPreferredBarberId('');
+    setRoster([]);
+    if (selectedShop) {
+      loadServices(selectedShop.id);
+      loadRoster(selectedShop.id);
+    }
+  }, [selectedShop]);
+
+  useEffect(() => {
+    setSelectedSlot('');
+    setAvailableSlots([]);
+    if (selectedShop && serviceId && bookingType === 'scheduled') {
+      loadAvailableSlots(selectedShop.id, serviceId, bookingDate, preferredBarberId);
+    }
+  }, [selectedShop, serviceId, bookingType, bookingDate, preferredBarberId]);
 
   const loadShops = async () => {
-    const { data } = await supabase
-      .from('shops')
-      .select('*')
-      .order('name');
+    const { data } = await shopsRepo.list();
     if (data) setShops(data);
   };
 
-  const loadAppointments = async () => {
-    const { data } = await supabase
-      .from('appointments')
-      .select('*')
-      .eq('customer_id', user?.id)
-      .in('status', ['waiting', 'in_progress'])
-      .order('created_at', { ascending: false });
-    if (data) setAppointments(data);
+  const loadWaitTimes = async () => {
+    const [{ data: shopData }, { data: estimateData }] = await Promise.all([
+      shopsRepo.getWaitTimes(),
+      appointmentsRepo.getMyWaitEstimates(),
+    ]);
+
+    if (shopData) {
+      setShopWaits(Object.fromEntries(shopData.map(wait => [wait.shop_id, wait])));
+    }
+    if (estimateData) {
+      setWaitEstimates(Object.fromEntries(estimateData.map(estimate => [estimate.appointment_id, estimate])));
+    }
+  };
+
+  const loadServices = async (shopId: string) => {
+    const { data } = await shopsRepo.listServices(shopId, { activeOnly: true });
+    if (data) {
+      setServices(data);
+      const prefillServiceId = bookAgainPrefill.current?.serviceId;
+      if (prefillServiceId && data.some(service => service.id === prefillServiceId)) {
+        setServiceId(prefillServiceId);
+      }
+    }
+  };
+
+  const loadRoster = async (shopId: string) => {
+    const { data } = await shopsRepo.listRoster(shopId);
+    if (data) {
+      setRoster(data);
+      const prefillBarberId = bookAgainPrefill.current?.barberId;
+      if (prefillBarberId && data.some(barber => barber.id === prefillBarberId)) {
+        setPreferredBarberId(prefillBarberId);
+      }
+    }
+  };
+
+  const loadAvailableSlots = async (shopId: string, forServiceId: string, date: string, barberId: string) => {
+    const { data } = await appointmentsRepo.getAvailableSlots(shopId, forServiceId, date, barberId);
+    if (data) setAvailableSlots(data);
+  };
+
+  const bookAgain = (appointment: HistoryAppointment) => {
+    const shop = shops.find(s => s.id === appointment.shop_id);
+    if (!shop) return;
+
+    const barberId = appointment.preferred_barber_id ?? appointment.barber_id;
+    setNotes(appointment.notes ?? '');
+    setBookingType('walk_in');
+    navigate(`/shops/${shop.id}`);
+
+    if (selectedShop?.id === shop.id) {
+      if (appointment.service_id && services.some(service => service.id === appointment.service_id)) {
+        setServiceId(appointment.service_id);
+      }
+      if (barberId && roster.some(barber => barber.id === barberId)) {
+        setPreferredBarberId(barberId);
+      }
+      return;
+    }
+
+    bookAgainPrefill.current = { serviceId: appointment.service_id ?? undefined, barberId: barberId ?? undefined };
+  };
+
+  const setView = (next: DashboardView) => {
+    navigate(next === 'book' ? bookPath : viewPaths[next]);
   };
 
+  const openDetail = (id: string) => {
+    navigate(`/appointments/${id}`, { state: { background: location.pathname } });
+  };
+
+  const noBarbersOnShift = selectedShop !== null && shopWaits[selectedShop.id]?.barbers_on_shift === 0;
+
   const createAppointment = async () => {
-    if (!selectedShop || !serviceType) return;
+    if (!selectedShop || !serviceId) return;
+    if (bookingType === 'scheduled' && !selectedSlot) return;
+    if (bookingType === 'walk_in' && noBarbersOnShift) return;
 
     setLoading(true);
-    try {
-      const { data: queueData } = await supabase
-        .from('appointments')
-        .select('queue_position')
-        .eq('shop_id', selectedShop.id)
-        .eq('status', 'waiting')
-        .order('queue_position', { ascending: false })
-        .limit(1)
-        .maybeSingle();
-
-      const nextPosition = queueData ? queueData.queue_position + 1 : 1;
-
-      const { error } = await supabase
-        .from('appointments')
-        .insert({
-          shop_id: selectedShop.id,
-          customer_id: user!.id,
-          service_type: serviceType,
-          notes: notes || undefined,
-          status: 'waiting',
-          queue_position: nextPosition,
-        });
-
-      if (error) throw error;
+    const { error } = await appointmentsRepo.book({
+      shopId: selectedShop.id,
+      serviceId,
+      notes,
+      preferredBarberId,
+      scheduledAt: bookingType === 'scheduled' ? selectedSlot : undefined,
+    });
 
+    if (error) {
+      alert(error.message);
+    } else {
+      // Leave /shops/:shopId as well, or picking the same shop again would not select it.
       setSelectedShop(null);
-      setServiceType('');
+      navigate('/');
+      setServiceId('');
+      setPreferredBarberId('');
       setNotes('');
+      setBookingType('walk_in');
+      setSelectedSlot('');
       loadAppointments();
-    } catch (err) {
-      alert('Failed to create appointment');
-    } finally {
-      setLoading(false);
+      loadWaitTimes();
     }
+    setLoading(false);
   };
 
   const cancelAppointment = async (id: string) => {
-    const { error } = await supabase
-      .from('appointments')
-      .update({ status: 'cancelled' })
-      .eq('id', id);
+    const { error } = await appointmentsRepo.transition(id, 'cancel');
 
-    if (!error) {
+    if (error) {
+      alert(error.message);
+    } else {
       loadAppointments();
+      loadWaitTimes();
     }
   };
 
@@ -91,146 +311,364 @@ export function CustomerDashboard() {
       <header className="bg-white shadow-sm">
         <div className="max-w-7xl mx-auto px-4 py-4 flex justify-between items-center">
           <h1 className="text-2xl font-bold text-gray-900">Customer Dashboard</h1>
-          <button
-            onClick={() => signOut()}
-            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
-          >
-            Sign Out
-          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setView('book')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'book' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <ListOrdered className="w-4 h-4" />
+              Book & Queue
+            </button>
+            <button
+              onClick={() => setView('history')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'history' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <History className="w-4 h-4" />
+              History
+            </button>
+            <button
+              onClick={() => setView('settings')}
+              className={`px-4 py-2 text-sm hover:text-gray-900 flex items-center gap-2 ${
+                view === 'settings' ? 'text-blue-600' : 'text-gray-600'
+              }`}
+            >
+              <Settings className="w-4 h-4" />
+              Settings
+            </button>
+            <button
+              onClick={() => signOut()}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-900"
+            >
+              Sign Out
+            </button>
+          </div>
         </div>
       </header>
 
+      {queueAlerts.length > 0 && (
+        <div className="fixed top-4 right-4 z-50 space-y-2 w-80">
+          {queueAlerts.map((queueAlert) => (
+            <div
+              key={queueAlert.id}
+              role="alert"
+              className="bg-blue-600 text-white rounded-lg shadow-lg p-4 flex items-start gap-3"
+            >
+              <Bell className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <p className="flex-1 text-sm font-medium">{queueAlert.message}</p>
+              <button
+                onClick={() => dismissQueueAlert(queueAlert.id)}
+                className="text-blue-100 hover:text-white"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <main className="max-w-7xl mx-auto px-4 py-8">
-        <div className="grid md:grid-cols-2 gap-8">
-          <section>
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Book an Appointment</h2>
-            <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  Select Shop
-                </label>
-                <div className="space-y-2 max-h-64 overflow-y-auto">
-                  {shops.map((shop) => (
-                    <button
-                      key={shop.id}
-                      onClick={() => setSelectedShop(shop)}
-                      className={`w-full text-left p-3 rounded-md border transition-colors ${
-                        selectedShop?.id === shop.id
-                          ? 'border-blue-500 bg-blue-50'
-                          : 'border-gray-300 hover:border-gray-400'
-                      }`}
-                    >
-                      <div className="font-medium text-gray-900">{shop.name}</div>
-                      <div className="text-sm text-gray-600 flex items-center mt-1">
-                        <MapPin className="w-3 h-3 mr-1" />
-                        {shop.address}
-                      </div>
-                      <div className="text-sm text-gray-600 flex items-center mt-1">
-                        <Clock className="w-3 h-3 mr-1" />
-                        {shop.opening_time} - {shop.closing_time}
-                      </div>
-                    </button>
-                  ))}
+        {view === 'settings' ? (
+          <AccountSettings />
+        ) : view === 'history' ? (
+          <AppointmentHistory shops={shops} onBookAgain={bookAgain} />
+        ) : (
+          <div className="grid md:grid-cols-2 gap-8">
+            <section>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Book an Appointment</h2>
+              <div className="bg-white rounded-lg shadow-md p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Select Shop
+                  </label>
+                  <div className="space-y-2 max-h-64 overflow-y-auto">
+                    {shops.map((shop) => (
+                      <button
+                        key={shop.id}
+                        onClick={() => {
+                          bookAgainPrefill.current = null;
+                          navigate(`/shops/${shop.id}`);
+                        }}
+                        className={`w-full text-left p-3 rounded-md border transition-colors ${
+                          selectedShop?.id === shop.id
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-300 hover:border-gray-400'
+                        }`}
+                      >
+                        <div className="font-medium text-gray-900">{shop.name}</div>
+                        <div className="text-sm text-gray-600 flex items-center mt-1">
+                          <MapPin className="w-3 h-3 mr-1" />
+                          {shop.address}
+                        </div>
+                        <div className="text-sm text-gray-600 flex items-center mt-1">
+                          <Clock className="w-3 h-3 mr-1" />
+                          {shop.opening_time} - {shop.closing_time}
+                        </div>
+                        {shopWaits[shop.id]?.barbers_on_shift === 0 ? (
+                          <div className="text-sm text-red-600 flex items-center mt-1">
+                            <Hourglass className="w-3 h-3 mr-1" />
+                            No barbers on shift
+                          </div>
+                        ) : shopWaits[shop.id] && (
+                          <div className="text-sm text-gray-600 flex items-center mt-1">
+                            <Hourglass className="w-3 h-3 mr-1" />
+                            Current wait: {formatWait(shopWaits[shop.id].estimated_wait_minutes)}
+                            {' '}({shopWaits[shop.id].waiting_count} waiting)
+                          </div>
+                        )}
+                      </button>
+                    ))}
+                  </div>
                 </div>
-              </div>
 
-              {selectedShop && (
-                <>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Service Type
-                    </label>
-                    <select
-                      value={serviceType}
-                      onChange={(e) => setServiceType(e.target.value)}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                    >
-                      <option value="">Select a service</option>
-                      <option value="haircut">Haircut</option>
-                      <option value="beard_trim">Beard Trim</option>
-                      <option value="haircut_beard">Haircut + Beard</option>
-                      <option value="shave">Shave</option>
-                    </select>
-                  </div>
+                {selectedShop && (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Service Type
+                      </label>
+                      {services.length === 0 ? (
+                        <p className="text-sm text-gray-500">This shop has not published a service menu yet.</p>
+                      ) : (
+                        <select
+                          value={serviceId}
+                          onChange={(e) => setServiceId(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        >
+                          <option value="">Select a service</option>
+                          {services.map((service) => (
+                            <option key={service.id} value={service.id}>
+                              {service.name} - ${service.price.toFixed(2)} ({service.duration_minutes} min)
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                    </div>
 
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 mb-1">
-                      Notes (Optional)
-                    </label>
-                    <textarea
-                      value={notes}
-                      onChange={(e) => setNotes(e.target.value)}
-                      rows={3}
-                      className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                      placeholder="Any special requests?"
-                    />
-                  </div>
+                    <div>
+                      <label htmlFor="preferredBarber" className="block text-sm font-medium text-gray-700 mb-1">
+                        Barber
+                      </label>
+                      <select
+                        id="preferredBarber"
+                        value={preferredBarberId}
+                        onChange={(e) => setPreferredBarberId(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <option value="">Anyone available</option>
+                        {roster.map((barber) => (
+                          <option key={barber.id} value={barber.id}>{barber.full_name}</option>
+                        ))}
+                      </select>
+                    </div>
 
-                  <button
-                    onClick={createAppointment}
-                    disabled={loading || !serviceType}
-                    className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
-                  >
-                    <Plus className="w-4 h-4" />
-                    {loading ? 'Booking...' : 'Book Appointment'}
-                  </button>
-                </>
-              )}
-            </div>
-          </section>
-
-          <section>
-            <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Appointments</h2>
-            <div className="space-y-4">
-              {appointments.length === 0 ? (
-                <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
-                  No active appointments
-                </div>
-              ) : (
-                appointments.map((appointment) => {
-                  const shop = shops.find(s => s.id === appointment.shop_id);
-                  return (
-                    <div key={appointment.id} className="bg-white rounded-lg shadow-md p-6">
-                      <div className="flex justify-between items-start mb-3">
-                        <div>
-                          <h3 className="font-semibold text-gray-900">{shop?.name}</h3>
-                          <p className="text-sm text-gray-600">{appointment.service_type.replace('_', ' ')}</p>
-                        </div>
-                        <button
-                          onClick={() => cancelAppointment(appointment.id)}
-                          className="text-red-600 hover:text-red-700"
-                        >
-                          <X className="w-5 h-5" />
-                        </button>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        When
+                      </label>
+                      <div className="flex gap-4">
+                        <label className="flex items-center text-sm">
+                          <input
+                            type="radio"
+                            value="walk_in"
+                            checked={bookingType === 'walk_in'}
+                            onChange={() => setBookingType('walk_in')}
+                            className="mr-2"
+                          />
+                          Join the queue now
+                        </label>
+                        <label className="flex items-center text-sm">
+                          <input
+                            type="radio"
+                            value="scheduled"
+                            checked={bookingType === 'scheduled'}
+                            onChange={() => setBookingType('scheduled')}
+                            className="mr-2"
+                          />
+                          Book a time
+                        </label>
                       </div>
-                      <div className="space-y-1">
-                        <div className="flex items-center text-sm">
-                          <span className="font-medium text-gray-700 w-24">Status:</span>
-                          <span className={`px-2 py-1 rounded text-xs font-medium ${
-                            appointment.status === 'waiting' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
-                          }`}>
-                            {appointment.status.replace('_', ' ')}
-                          </span>
-                        </div>
-                        <div className="flex items-center text-sm">
-                          <span className="font-medium text-gray-700 w-24">Queue:</span>
-                          <span className="text-gray-900">Position #{appointment.queue_position}</span>
-                        </div>
-                        {appointment.notes && (
-                          <div className="flex items-start text-sm">
-                            <span className="font-medium text-gray-700 w-24">Notes:</span>
-                            <span className="text-gray-600">{appointment.notes}</span>
+                    </div>
+
+                    {bookingType === 'walk_in' && noBarbersOnShift && (
+                      <p className="text-sm text-red-600">
+                        No barbers are on shift right now. Book a time instead.
+                      </p>
+                    )}
+
+                    {bookingType === 'scheduled' && (
+                      <div>
+                        <label htmlFor="bookingDate" className="block text-sm font-medium text-gray-700 mb-1">
+                          Date
+                        </label>
+                        <input
+                          id="bookingDate"
+                          type="date"
+                          value={bookingDate}
+                          min={todayDateString()}
+                          onChange={(e) => setBookingDate(e.target.value)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        />
+                        {!serviceId ? (
+                          <p className="text-sm text-gray-500 mt-2">Select a service to see available times.</p>
+                        ) : availableSlots.length === 0 ? (
+                          <p className="text-sm text-gray-500 mt-2">No times available on this day.</p>
+                        ) : (
+                          <div className="grid grid-cols-4 gap-2 mt-2 max-h-40 overflow-y-auto">
+                            {availableSlots.map((slot) => (
+                              <button
+                                key={slot}
+                                type="button"
+                                onClick={() => setSelectedSlot(slot)}
+                                className={`py-1 rounded-md border text-sm transition-colors ${
+                                  selectedSlot === slot
+                                    ? 'border-blue-500 bg-blue-50 text-blue-700'
+                                    : 'border-gray-300 hover:border-gray-400'
+                                }`}
+                              >
+                                {formatSlotTime(slot)}
+                              </button>
+                            ))}
                           </div>
                         )}
                       </div>
+                    )}
+
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Notes (Optional)
+                      </label>
+                      <textarea
+                        value={notes}
+                        onChange={(e) => setNotes(e.target.value)}
+                        rows={3}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                        placeholder="Any special requests?"
+                      />
                     </div>
-                  );
-                })
-              )}
-            </div>
-          </section>
-        </div>
+
+                    <button
+                      onClick={createAppointment}
+                      disabled={loading || !serviceId || (bookingType === 'scheduled' ? !selectedSlot : noBarbersOnShift)}
+                      className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+                    >
+                      <Plus className="w-4 h-4" />
+                      {loading ? 'Booking...' : 'Book Appointment'}
+                    </button>
+                  </>
+                )}
+              </div>
+            </section>
+
+            <section>
+              <h2 className="text-xl font-semibold text-gray-900 mb-4">Your Appointments</h2>
+              <PushNotificationCard />
+              <div className="space-y-4">
+                {appointments.length === 0 ? (
+                  <div className="bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+                    No active appointments
+                  </div>
+                ) : (
+                  appointments.map((appointment) => {
+                    const shop = shops.find(s => s.id === appointment.shop_id);
+                    const estimate = waitEstimates[appointment.id];
+                    return (
+                      <div key={appointment.id} className="bg-white rounded-lg shadow-md p-6">
+                        <div className="flex justify-between items-start mb-3">
+                          <div>
+                            <h3 className="font-semibold text-gray-900">{shop?.name}</h3>
+                            <p className="text-sm text-gray-600">{appointment.service_type.replace(/_/g, ' ')}</p>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <button
+                              onClick={() => openDetail(appointment.id)}
+                              title="Timeline"
+                              className="text-gray-400 hover:text-gray-600"
+                            >
+                              <History className="w-5 h-5" />
+                            </button>
+                            <button
+                              onClick={() => cancelAppointment(appointment.id)}
+                              className="text-red-600 hover:text-red-700"
+                            >
+                              <X className="w-5 h-5" />
+                            </button>
+                          </div>
+                        </div>
+                        <div className="space-y-1">
+                          <div className="flex items-center text-sm">
+                            <span className="font-medium text-gray-700 w-24">Status:</span>
+                            <span className={`px-2 py-1 rounded text-xs font-medium ${
+                              appointment.status === 'waiting' ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+                            }`}>
+                              {appointment.status.replace('_', ' ')}
+                            </span>
+                          </div>
+                          {appointment.booking_type === 'scheduled' && appointment.scheduled_at ? (
+                            <div className="flex items-center text-sm">
+                              <span className="font-medium text-gray-700 w-24">Booked for:</span>
+                              <span className="text-gray-900 flex items-center">
+                                <CalendarClock className="w-4 h-4 mr-1" />
+                                {new Date(appointment.scheduled_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                              </span>
+                            </div>
+                          ) : (
+                            <div className="flex items-center text-sm">
+                              <span className="font-medium text-gray-700 w-24">Queue:</span>
+                              <span className="text-gray-900">Position #{appointment.queue_position}</span>
+                            </div>
+                          )}
+                          {appointment.preferred_barber_id && (
+                            <div className="flex items-center text-sm">
+                              <span className="font-medium text-gray-700 w-24">Barber:</span>
+                              <span className="text-gray-900">
+                                {appointment.preferred_barber?.full_name ?? 'Requested barber'}
+                              </span>
+                            </div>
+                          )}
+                          {appointment.status === 'waiting' && estimate && (
+                            <div className="flex items-center text-sm">
+                              <span className="font-medium text-gray-700 w-24">Ahead:</span>
+                              <span className="text-gray-900">
+                                {estimate.people_ahead === 0 ? "You're next" : `${estimate.people_ahead} ${estimate.people_ahead === 1 ? 'person' : 'people'}`}
+                              </span>
+                            </div>
+                          )}
+                          {appointment.status === 'waiting' && estimate && (
+                            <div className="flex items-center text-sm">
+                              <span className="font-medium text-gray-700 w-24">Est. start:</span>
+                              <span className="text-gray-900">
+                                {new Date(estimate.estimated_start).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                                {' '}({formatWait(Math.ceil((new Date(estimate.estimated_start).getTime() - now) / 60000))})
+                              </span>
+                            </div>
+                          )}
+                          {appointment.notes && (
+                            <div className="flex items-start text-sm">
+                              <span className="font-medium text-gray-700 w-24">Notes:</span>
+                              <span className="text-gray-600">{appointment.notes}</span>
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </section>
+          </div>
+        )}
       </main>
+
+      {appointmentId && (
+        <AppointmentDetail
+          appointmentId={appointmentId}
+          onClose={() => navigate(background ?? bookPath)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, CalendarClock, Footprints } from 'lucide-react';
+import { customerName, Shop, Appointment } from '../lib/supabase';
+import { appointmentsRepo, CalendarAppointment } from '../lib/repos/appointmentsRepo';
+
+type Props = {
+  shop: Shop;
+  refreshKey: number;
+};
+
+function startOfDay(date: Date) {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function appointmentTime(appointment: Appointment) {
+  return new Date(appointment.scheduled_at ?? appointment.started_at ?? appointment.created_at);
+}
+
+export function DayCalendar({ shop, refreshKey }: Props) {
+  const [day, setDay] = useState(startOfDay(new Date()));
+  const [appointments, setAppointments] = useState<CalendarAppointment[]>([]);
+
+  const loadDay = useCallback(async () => {
+    const start = day.toISOString();
+    const end = new Date(day.getTime() + 24 * 60 * 60 * 1000).toISOString();
+
+    const { data } = await appointmentsRepo.listForDay(shop.id, start, end);
+
+    if (data) {
+      setAppointments(
+        data.sort((a, b) => appointmentTime(a).getTime() - appointmentTime(b).getTime())
+      );
+    }
+  }, [shop.id, day]);
+
+  useEffect(() => {
+    loadDay();
+  }, [loadDay, refreshKey]);
+
+  const moveDay = (days: number) => {
+    const next = new Date(day);
+    next.setDate(next.getDate() + days);
+    setDay(startOfDay(next));
+  };
+
+  const openingHour = Number(shop.opening_time.slice(0, 2));
+  const closingHour = Math.ceil(Number(shop.closing_time.slice(0, 2)) + Number(shop.closing_time.slice(3, 5)) / 60);
+  const hours = Array.from({ length: Math.max(closingHour - openingHour, 0) }, (_, i) => openingHour + i);
+
+  return (
+    <section className="mt-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Day View</h2>
+        <div className="flex items-center gap-2">
+          <button onClick={() => moveDay(-1)} className="p-1 text-gray-600 hover:text-gray-900">
+            <ChevronLeft className="w-5 h-5" />
+          </button>
+          <span className="text-sm font-medium text-gray-700 w-40 text-center">
+            {day.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })}
+          </span>
+          <button onClick={() => moveDay(1)} className="p-1 text-gray-600 hover:text-gray-900">
+            <ChevronRight className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+      <div className="bg-white rounded-lg shadow-md divide-y divide-gray-100">
+        {hours.map((hour) => {
+          const hourAppointments = appointments.filter(a => appointmentTime(a).getHours() === hour);
+          return (
+            <div key={hour} className="flex min-h-[3rem]">
+              <div className="w-16 flex-shrink-0 px-3 py-2 text-sm text-gray-500 border-r border-gray-100">
+                {String(hour).padStart(2, '0')}:00
+              </div>
+              <div className="flex-1 p-2 flex flex-wrap gap-2">
+                {hourAppointments.map((appointment) => (
+                  <div
+                    key={appointment.id}
+                    className={`px-2 py-1 rounded text-xs font-medium flex items-center gap-1 ${
+                      appointment.booking_type === 'scheduled'
+                        ? 'bg-purple-100 text-purple-800'
+                        : 'bg-gray-100 text-gray-800'
+                    } ${appointment.status === 'completed' ? 'opacity-60' : ''}`}
+                  >
+                    {appointment.booking_type === 'scheduled' ? (
+                      <CalendarClock className="w-3 h-3" />
+                    ) : (
+                      <Footprints className="w-3 h-3" />
+                    )}
+                    {appointmentTime(appointment).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    {' '}{customerName(appointment)} · {appointment.service_type.replace(/_/g, ' ')}
+                  </div>
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Check, LogOut, Scissors } from 'lucide-react';
+import { Shop, Service, Appointment } from '../lib/supabase';
+import { appointmentsRepo } from '../lib/repos/appointmentsRepo';
+import { shopsRepo } from '../lib/repos/shopsRepo';
+import { normalizePhone } from '../lib/phone';
+
+// How long the confirmation stays up before the form is ready for the next guest.
+const CONFIRMATION_MS = 8 * 1000;
+
+export function GuestCheckIn() {
+  const { shopId } = useParams<{ shopId: string }>();
+  const navigate = useNavigate();
+  const [shop, setShop] = useState<Shop | null>(null);
+  const [services, setServices] = useState<Service[]>([]);
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [serviceId, setServiceId] = useState('');
+  const [checkedIn, setCheckedIn] = useState<Appointment | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!checkedIn) return;
+
+    const timeout = setTimeout(() => setCheckedIn(null), CONFIRMATION_MS);
+    return () => clearTimeout(timeout);
+  }, [checkedIn]);
+
+  const loadShop = useCallback(async () => {
+    const [{ data: shopData }, { data: serviceData }] = await Promise.all([
+      shopsRepo.get(shopId!),
+      shopsRepo.listServices(shopId!, { activeOnly: true }),
+    ]);
+    setShop(shopData);
+    if (serviceData) setServices(serviceData);
+  }, [shopId]);
+
+  useEffect(() => {
+    loadShop();
+  }, [loadShop]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!serviceId) {
+      setError('Choose a service');
+      return;
+    }
+
+    const normalizedPhone = phone.trim() ? normalizePhone(phone) : '';
+    if (normalizedPhone === null) {
+      setError('Enter a valid phone number, or leave it empty');
+      return;
+    }
+
+    setLoading(true);
+    const { data, error } = await appointmentsRepo.checkInGuest({
+      shopId: shopId!,
+      serviceId,
+      guestName: name.trim(),
+      guestPhone: normalizedPhone,
+    });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setCheckedIn(data);
+      setName('');
+      setPhone('');
+      setServiceId('');
+    }
+    setLoading(false);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 to-gray-100 flex flex-col">
+      <header className="flex justify-end p-4">
+        <button
+          onClick={() => navigate(`/shops/${shopId}`)}
+          className="text-sm text-gray-500 hover:text-gray-700 flex items-center gap-1"
+        >
+          <LogOut className="w-4 h-4" />
+          Exit check-in
+        </button>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-4">
+        <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-xl">
+          <div className="flex items-center gap-3 mb-6">
+            <Scissors className="w-8 h-8 text-blue-600" />
+            <h1 className="text-3xl font-bold text-gray-800">{shop?.name ?? 'Check In'}</h1>
+          </div>
+
+          {checkedIn ? (
+            <div className="text-center py-8">
+              <div className="mx-auto w-16 h-16 rounded-full bg-green-100 flex items-center justify-center mb-4">
+                <Check className="w-8 h-8 text-green-600" />
+              </div>
+              <h2 className="text-2xl font-semibold text-gray-900 mb-2">
+                You're in line, {checkedIn.guest_name?.split(' ')[0]}!
+              </h2>
+              <p className="text-gray-600 mb-6">Take a seat. We'll call your name when a barber is ready.</p>
+              <button
+                onClick={() => setCheckedIn(null)}
+                className="px-6 bg-blue-600 text-white py-3 rounded-md hover:bg-blue-700 transition-colors text-lg"
+              >
+                Done
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <p className="text-gray-600">No account needed. Tell us your name to join the queue.</p>
+              <div>
+                <label htmlFor="guestName" className="block text-lg font-medium text-gray-700 mb-1">
+                  Name
+                </label>
+                <input
+                  id="guestName"
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  required
+                  autoComplete="off"
+                  className="w-full px-4 py-3 text-lg border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <label htmlFor="guestPhone" className="block text-lg font-medium text-gray-700 mb-1">
+                  Phone (optional)
+                </label>
+                <input
+                  id="guestPhone"
+                  type="tel"
+                  value={phone}
+                  onChange={(e) => setPhone(e.target.value)}
+                  autoComplete="off"
+                  placeholder="So we can call you back in"
+                  className="w-full px-4 py-3 text-lg border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                />
+              </div>
+              <div>
+                <span className="block text-lg font-medium text-gray-700 mb-2">Service</span>
+                {services.length === 0 ? (
+                  <p className="text-gray-500">This shop has not published a service menu yet.</p>
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {services.map((service) => (
+                      <button
+                        key={service.id}
+                        type="button"
+                        onClick={() => setServiceId(service.id)}
+                        className={`text-left p-4 rounded-lg border transition-colors ${
+                          serviceId === service.id
+                            ? 'border-blue-500 bg-blue-50'
+                            : 'border-gray-300 bg-white hover:border-gray-400'
+                        }`}
+                      >
+                        <div className="font-semibold text-gray-900">{service.name}</div>
+                        <div className="text-sm text-gray-600">
+                          ${service.price.toFixed(2)} · {service.duration_minutes} min
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {error && (
+                <div className="text-red-600 text-sm">{error}</div>
+              )}
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full bg-blue-600 text-white py-3 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 text-lg"
+              >
+                {loading ? 'Checking in...' : 'Join the Queue'}
+              </button>
+            </form>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -1,24 +1,51 @@
 import { useState } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import { Provider } from '@supabase/supabase-js';
+import { useAuth } from '../contexts/useAuth';
 
 type Props = {
   onToggleMode: () => void;
+  initialError?: string;
 };
 
-export function LoginForm({ onToggleMode }: Props) {
+type LoginMode = 'password' | 'magic_link' | 'forgot_password';
+
+const titles: Record<LoginMode, string> = {
+  password: 'Sign In',
+  magic_link: 'Email Me a Sign-In Link',
+  forgot_password: 'Reset Password',
+};
+
+export function LoginForm({ onToggleMode, initialError = '' }: Props) {
+  const [mode, setMode] = useState<LoginMode>('password');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [error, setError] = useState(initialError);
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
-  const { signIn } = useAuth();
+  const { signIn, signInWithMagicLink, signInWithOAuth, sendPasswordReset, oauthProviders } = useAuth();
+
+  const switchMode = (next: LoginMode) => {
+    setMode(next);
+    setError('');
+    setNotice('');
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
     setLoading(true);
 
     try {
-      await signIn(email, password);
+      if (mode === 'password') {
+        await signIn(email, password);
+      } else if (mode === 'magic_link') {
+        await signInWithMagicLink(email);
+        setNotice(`Check ${email} for a link to sign in.`);
+      } else {
+        await sendPasswordReset(email);
+        setNotice(`If ${email} has an account, a link to reset the password is on its way.`);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sign in');
     } finally {
@@ -26,9 +53,18 @@ export function LoginForm({ onToggleMode }: Props) {
     }
   };
 
+  const handleOAuth = async (provider: Provider) => {
+    setError('');
+    try {
+      await signInWithOAuth(provider);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign in');
+    }
+  };
+
   return (
     <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
-      <h2 className="text-2xl font-bold text-gray-800 mb-6">Sign In</h2>
+      <h2 className="text-2xl font-bold text-gray-800 mb-6">{titles[mode]}</h2>
       <form onSubmit={handleSubmit} className="space-y-4">
         <div>
           <label htmlFor="email" className="block text-sm font-medium text-gray-700 mb-1">
@@ -43,30 +79,74 @@ export function LoginForm({ onToggleMode }: Props) {
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
-        <div>
-          <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
-            Password
-          </label>
-          <input
-            id="password"
-            type="password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            required
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-        </div>
+        {mode === 'password' && (
+          <div>
+            <div className="flex justify-between items-center mb-1">
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Password
+              </label>
+              <button
+                type="button"
+                onClick={() => switchMode('forgot_password')}
+                className="text-sm text-blue-600 hover:underline"
+              >
+                Forgot password?
+              </button>
+            </div>
+            <input
+              id="password"
+              type="password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        )}
         {error && (
           <div className="text-red-600 text-sm">{error}</div>
         )}
+        {notice && (
+          <div className="text-green-600 text-sm">{notice}</div>
+        )}
         <button
           type="submit"
           disabled={loading}
           className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
         >
-          {loading ? 'Signing in...' : 'Sign In'}
+          {mode === 'password'
+            ? (loading ? 'Signing in...' : 'Sign In')
+            : (loading ? 'Sending...' : 'Send Link')}
         </button>
       </form>
+
+      <div className="mt-4 space-y-2">
+        {mode === 'password' ? (
+          <button
+            onClick={() => switchMode('magic_link')}
+            className="w-full border border-gray-300 text-gray-700 py-2 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Sign in with an email link
+          </button>
+        ) : (
+          <button
+            onClick={() => switchMode('password')}
+            className="w-full border border-gray-300 text-gray-700 py-2 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            Back to password sign in
+          </button>
+        )}
+        {oauthProviders.map((provider) => (
+          <button
+            key={provider}
+            onClick={() => handleOAuth(provider)}
+            className="w-full border border-gray-300 text-gray-700 py-2 rounded-md hover:bg-gray-50 transition-colors capitalize"
+          >
+            Continue with {provider}
+          </button>
+        ))}
+      </div>
+
       <p className="mt-4 text-center text-sm text-gray-600">
         Don't have an account?{' '}
         <button
@@ -78,4 +158,4 @@ export function LoginForm({ onToggleMode }: Props) {
       </p>
     </div>
   );
-}
\ No newline at end of file
+}
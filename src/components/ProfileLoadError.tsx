@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { useAuth } from '../contexts/useAuth';
+
+type Props = {
+  message: string;
+};
+
+export function ProfileLoadError({ message }: Props) {
+  const { signOut, refreshProfile } = useAuth();
+  const [loading, setLoading] = useState(false);
+
+  const retry = async () => {
+    setLoading(true);
+    await refreshProfile();
+    setLoading(false);
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2">Something Went Wrong</h2>
+      <p className="text-sm text-gray-600 mb-4">
+        We could not load your profile. Check your connection and try again.
+      </p>
+      <div className="text-red-600 text-sm mb-6">{message}</div>
+      <button
+        onClick={retry}
+        disabled={loading}
+        className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+      >
+        {loading ? 'Retrying...' : 'Try Again'}
+      </button>
+      <p className="mt-4 text-center text-sm text-gray-600">
+        <button
+          onClick={() => signOut()}
+          className="text-blue-600 hover:underline"
+        >
+          Sign out
+        </button>
+      </p>
+    </div>
+  );
+}
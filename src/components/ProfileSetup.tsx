@@ -0,0 +1,127 @@
+import { useState } from 'react';
+import { profilesRepo } from '../lib/repos/profilesRepo';
+import { normalizePhone } from '../lib/phone';
+import { useAuth } from '../contexts/useAuth';
+
+export function ProfileSetup() {
+  const { user, signOut, refreshProfile } = useAuth();
+  const metadata = user?.user_metadata ?? {};
+  const [fullName, setFullName] = useState<string>(metadata.full_name ?? '');
+  const [phone, setPhone] = useState<string>(metadata.phone ?? '');
+  const [role, setRole] = useState<'barber' | 'customer'>(metadata.role === 'barber' ? 'barber' : 'customer');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const normalizedPhone = phone.trim() ? normalizePhone(phone) : '';
+    if (normalizedPhone === null) {
+      setError('Enter a valid phone number, e.g. +15551234567');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await profilesRepo.create({
+      id: user!.id,
+      email: user!.email ?? '',
+      full_name: fullName.trim(),
+      role,
+      phone: normalizedPhone || null,
+    });
+
+    // A duplicate means the profile exists but could not be loaded; loading it again is
+    // the right recovery either way.
+    if (error && error.code !== '23505') {
+      setError(error.message);
+      setLoading(false);
+      return;
+    }
+    await refreshProfile();
+    setLoading(false);
+  };
+
+  return (
+    <div className="bg-white p-8 rounded-lg shadow-md w-full max-w-md">
+      <h2 className="text-2xl font-bold text-gray-800 mb-2">Finish Setting Up</h2>
+      <p className="text-sm text-gray-600 mb-6">
+        You are signed in as {user?.email}, but your profile is missing. Fill it in to continue.
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label htmlFor="setupFullName" className="block text-sm font-medium text-gray-700 mb-1">
+            Full Name
+          </label>
+          <input
+            id="setupFullName"
+            type="text"
+            value={fullName}
+            onChange={(e) => setFullName(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="setupPhone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone (optional)
+          </label>
+          <input
+            id="setupPhone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="+15551234567"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            I am a:
+          </label>
+          <div className="flex gap-4">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="customer"
+                checked={role === 'customer'}
+                onChange={(e) => setRole(e.target.value as 'customer')}
+                className="mr-2"
+              />
+              Customer
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                value="barber"
+                checked={role === 'barber'}
+                onChange={(e) => setRole(e.target.value as 'barber')}
+                className="mr-2"
+              />
+              Barber
+            </label>
+          </div>
+        </div>
+        {error && (
+          <div className="text-red-600 text-sm">{error}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+        >
+          {loading ? 'Saving...' : 'Continue'}
+        </button>
+      </form>
+      <p className="mt-4 text-center text-sm text-gray-600">
+        Not you?{' '}
+        <button
+          onClick={() => signOut()}
+          className="text-blue-600 hover:underline"
+        >
+          Sign out
+        </button>
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useState, useEffect, useCallback } from 'react';
+import { BellRing } from 'lucide-react';
+import { notificationsRepo } from '../lib/repos/notificationsRepo';
+import { isPushSupported, pushPermission, getPushSubscription, subscribeToPush } from '../lib/push';
+import { useAuth } from '../contexts/useAuth';
+
+type PushState = 'loading' | 'blocked' | 'off' | 'on';
+
+// Turns browser notifications on or off for this device. Turning them off only removes the
+// subscription from the profile, so someone else signed in on the same browser keeps theirs.
+export function PushNotificationCard() {
+  const { profile } = useAuth();
+  const [state, setState] = useState<PushState>('loading');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const supported = isPushSupported();
+  const profileId = profile?.id;
+
+  const loadState = useCallback(async () => {
+    if (pushPermission() === 'denied') {
+      setState('blocked');
+      return;
+    }
+
+    const subscription = await getPushSubscription();
+    if (!subscription || pushPermission() !== 'granted') {
+      setState('off');
+      return;
+    }
+
+    const { data, error } = await notificationsRepo.hasPushSubscription(profileId!, subscription.endpoint);
+    if (error) {
+      setError(error.message);
+      setState('off');
+      return;
+    }
+    setState(data ? 'on' : 'off');
+  }, [profileId]);
+
+  useEffect(() => {
+    if (supported && profileId) loadState();
+  }, [supported, profileId, loadState]);
+
+  const turnOn = async () => {
+    if (!profile) return;
+    setWorking(true);
+    setError('');
+
+    try {
+      const subscription = await subscribeToPush();
+      if (!subscription) {
+        setState(pushPermission() === 'denied' ? 'blocked' : 'off');
+        return;
+      }
+
+      const { error } = await notificationsRepo.savePushSubscription(profile.id, subscription.toJSON());
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      setState('on');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn on notifications');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const turnOff = async () => {
+    if (!profile) return;
+    setWorking(true);
+    setError('');
+
+    try {
+      const subscription = await getPushSubscription();
+      if (subscription) {
+        const { error } = await notificationsRepo.deletePushSubscription(profile.id, subscription.endpoint);
+        if (error) {
+          setError(error.message);
+          return;
+        }
+      }
+      setState('off');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to turn off notifications');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  if (!supported || state === 'loading') return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-4 mb-4">
+      <div className="flex items-start gap-3">
+        <BellRing className="w-5 h-5 text-blue-600 mt-0.5 flex-shrink-0" />
+        <div className="flex-1">
+          <h3 className="font-semibold text-gray-900 text-sm">Notifications on this device</h3>
+          {state === 'blocked' && (
+            <p className="text-sm text-gray-600">
+              Notifications are blocked for this site. Allow them in your browser settings to get alerts.
+            </p>
+          )}
+          {state === 'off' && (
+            <p className="text-sm text-gray-600">
+              Get an alert when you're next and when your barber is ready, even with this tab in the background.
+            </p>
+          )}
+          {state === 'on' && (
+            <p className="text-sm text-gray-600">
+              You'll get an alert when you're next and when your barber is ready.
+            </p>
+          )}
+          {error && <div className="text-red-600 text-sm mt-2">{error}</div>}
+        </div>
+        {state === 'off' && (
+          <button
+            onClick={turnOn}
+            disabled={working}
+            className="bg-blue-600 text-white px-3 py-1 rounded-md text-sm hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            Turn On
+          </button>
+        )}
+        {state === 'on' && (
+          <button
+            onClick={turnOff}
+            disabled={working}
+            className="text-sm text-gray-600 hover:text-gray-900 disabled:text-gray-400"
+          >
+            Turn Off
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
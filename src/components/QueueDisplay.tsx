@@ -0,0 +1,167 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import { useParams } from 'react-router-dom';
+import { Scissors, WifiOff } from 'lucide-react';
+import { DisplayQueue } from '../lib/supabase';
+import { shopsRepo } from '../lib/repos/shopsRepo';
+
+// Realtime is the main source of updates; polling catches anything it misses.
+const POLL_INTERVAL_MS = 60 * 1000;
+const MAX_RECONNECT_DELAY_MS = 30 * 1000;
+
+export function QueueDisplay() {
+  const { token } = useParams<{ token: string }>();
+  const [queue, setQueue] = useState<DisplayQueue | null>(null);
+  const [error, setError] = useState('');
+  const [connected, setConnected] = useState(true);
+  const [connectAttempt, setConnectAttempt] = useState(0);
+  const reconnectFailures = useRef(0);
+
+  const shopId = queue?.shop_id;
+
+  const loadQueue = useCallback(async () => {
+    const { data, error, invalidToken } = await shopsRepo.getDisplayQueue(token!);
+
+    if (error) {
+      if (invalidToken) {
+        setQueue(null);
+        setError(error.message);
+      } else {
+        setConnected(false);
+      }
+      return;
+    }
+
+    setQueue(data);
+    setError('');
+  }, [token]);
+
+  useEffect(() => {
+    loadQueue();
+
+    const interval = setInterval(loadQueue, POLL_INTERVAL_MS);
+
+    const handleOnline = () => {
+      loadQueue();
+      reconnectFailures.current = 0;
+      setConnectAttempt(attempt => attempt + 1);
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [loadQueue]);
+
+  useEffect(() => {
+    if (!shopId) return;
+
+    let active = true;
+    let retryTimeout: ReturnType<typeof setTimeout> | undefined;
+
+    const unsubscribe = shopsRepo.subscribeToQueueStatus(
+      `queue_display_${shopId}_${connectAttempt}`,
+      [shopId],
+      () => {
+        loadQueue();
+      },
+      (status) => {
+        if (!active) return;
+
+        if (status === 'SUBSCRIBED') {
+          reconnectFailures.current = 0;
+          setConnected(true);
+          // Changes made while disconnected were not delivered.
+          loadQueue();
+        } else if (!retryTimeout) {
+          // CHANNEL_ERROR, TIMED_OUT or CLOSED: start over on a fresh channel, backing off
+          // while the network stays down.
+          setConnected(false);
+          const delay = Math.min(1000 * 2 ** reconnectFailures.current, MAX_RECONNECT_DELAY_MS);
+          reconnectFailures.current += 1;
+          retryTimeout = setTimeout(() => setConnectAttempt(attempt => attempt + 1), delay);
+        }
+      }
+    );
+
+    return () => {
+      active = false;
+      clearTimeout(retryTimeout);
+      unsubscribe();
+    };
+  }, [shopId, connectAttempt, loadQueue]);
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-8">
+        <p className="text-2xl text-gray-300 text-center">{error}</p>
+      </div>
+    );
+  }
+
+  if (!queue) {
+    return (
+      <div className="min-h-screen bg-gray-900 text-white flex items-center justify-center p-8">
+        <p className="text-2xl text-gray-300">{connected ? 'Loading...' : 'Waiting for connection...'}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900 text-white p-10 flex flex-col">
+      <header className="flex justify-between items-center mb-10">
+        <div className="flex items-center gap-4">
+          <Scissors className="w-12 h-12 text-blue-400" />
+          <h1 className="text-5xl font-bold">{queue.shop_name}</h1>
+        </div>
+        {!connected && (
+          <div className="flex items-center gap-2 text-yellow-400 text-xl">
+            <WifiOff className="w-6 h-6" />
+            Reconnecting...
+          </div>
+        )}
+      </header>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-10 flex-1">
+        <section>
+          <h2 className="text-3xl font-semibold text-blue-400 mb-6">Now Serving</h2>
+          {queue.serving.length === 0 ? (
+            <p className="text-2xl text-gray-500">No one in the chair</p>
+          ) : (
+            <ul className="space-y-4">
+              {queue.serving.map((item) => (
+                <li key={item.id} className="bg-gray-800 rounded-lg p-6 flex justify-between items-center">
+                  <span className="text-4xl font-bold">{item.name}</span>
+                  {item.barber && (
+                    <span className="text-2xl text-gray-400">with {item.barber}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <section>
+          <h2 className="text-3xl font-semibold text-blue-400 mb-6">Up Next</h2>
+          {queue.waiting.length === 0 ? (
+            <p className="text-2xl text-gray-500">No one waiting</p>
+          ) : (
+            <ol className="space-y-4">
+              {queue.waiting.map((item, index) => (
+                <li key={item.id} className="bg-gray-800 rounded-lg p-6 flex items-center gap-6">
+                  <span className="text-3xl font-bold text-gray-500 w-10">{index + 1}</span>
+                  <span className="text-4xl font-bold flex-1">{item.name}</span>
+                  {item.scheduled_at && (
+                    <span className="text-2xl text-gray-400">
+                      {new Date(item.scheduled_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })}
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </section>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from 'react';
-import { useAuth } from '../contexts/AuthContext';
+import { useAuth } from '../contexts/useAuth';
+import { normalizePhone } from '../lib/phone';
 
 type Props = {
   onToggleMode: () => void;
@@ -9,18 +10,31 @@ export function RegisterForm({ onToggleMode }: Props) {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [fullName, setFullName] = useState('');
+  const [phone, setPhone] = useState('');
   const [role, setRole] = useState<'barber' | 'customer'>('customer');
   const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
   const [loading, setLoading] = useState(false);
   const { signUp } = useAuth();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
+    setNotice('');
+
+    const normalizedPhone = phone.trim() ? normalizePhone(phone) : '';
+    if (normalizedPhone === null) {
+      setError('Enter a valid phone number, e.g. +15551234567');
+      return;
+    }
+
     setLoading(true);
 
     try {
-      await signUp(email, password, fullName, role);
+      const { confirmationSent } = await signUp(email, password, fullName, role, normalizedPhone);
+      if (confirmationSent) {
+        setNotice(`We sent a confirmation link to ${email}. Open it to finish creating your account.`);
+      }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to sign up');
     } finally {
@@ -58,6 +72,19 @@ export function RegisterForm({ onToggleMode }: Props) {
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
         </div>
+        <div>
+          <label htmlFor="phone" className="block text-sm font-medium text-gray-700 mb-1">
+            Phone (optional)
+          </label>
+          <input
+            id="phone"
+            type="tel"
+            value={phone}
+            onChange={(e) => setPhone(e.target.value)}
+            placeholder="+15551234567"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
         <div>
           <label htmlFor="password" className="block text-sm font-medium text-gray-700 mb-1">
             Password
@@ -102,6 +129,9 @@ export function RegisterForm({ onToggleMode }: Props) {
         {error && (
           <div className="text-red-600 text-sm">{error}</div>
         )}
+        {notice && (
+          <div className="text-green-600 text-sm">{notice}</div>
+        )}
         <button
           type="submit"
           disabled={loading}
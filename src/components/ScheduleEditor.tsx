@@ -0,0 +1,298 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Trash2, Coffee, Briefcase, Plane } from 'lucide-react';
+import { Shop, BarberSchedule, BarberBreak, BarberTimeOff } from '../lib/supabase';
+import { profilesRepo, WeeklyTable } from '../lib/repos/profilesRepo';
+import { useAuth } from '../contexts/useAuth';
+
+type Props = {
+  shop: Shop;
+};
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export function ScheduleEditor({ shop }: Props) {
+  const { user } = useAuth();
+  const [schedules, setSchedules] = useState<BarberSchedule[]>([]);
+  const [breaks, setBreaks] = useState<BarberBreak[]>([]);
+  const [timeOff, setTimeOff] = useState<BarberTimeOff[]>([]);
+  const [entryType, setEntryType] = useState<WeeklyTable>('barber_schedules');
+  const [dayOfWeek, setDayOfWeek] = useState(1);
+  const [startTime, setStartTime] = useState(shop.opening_time.slice(0, 5));
+  const [endTime, setEndTime] = useState(shop.closing_time.slice(0, 5));
+  const [timeOffStart, setTimeOffStart] = useState('');
+  const [timeOffEnd, setTimeOffEnd] = useState('');
+  const [timeOffReason, setTimeOffReason] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadSchedule = useCallback(async () => {
+    const { data } = await profilesRepo.getWeek(shop.id, user!.id);
+    if (data) {
+      setSchedules(data.schedules);
+      setBreaks(data.breaks);
+      setTimeOff(data.timeOff);
+    }
+  }, [shop.id, user]);
+
+  useEffect(() => {
+    loadSchedule();
+  }, [loadSchedule]);
+
+  const addWeeklyEntry = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (endTime <= startTime) {
+      setError('End time must be after start time');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await profilesRepo.addWeeklyEntry(entryType, {
+      shop_id: shop.id,
+      barber_id: user!.id,
+      day_of_week: dayOfWeek,
+      start_time: startTime,
+      end_time: endTime,
+    });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      await loadSchedule();
+    }
+    setLoading(false);
+  };
+
+  const addTimeOff = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!timeOffStart || !timeOffEnd || timeOffEnd <= timeOffStart) {
+      setError('Time off must end after it starts');
+      return;
+    }
+
+    setLoading(true);
+    const { error } = await profilesRepo.addTimeOff({
+      shop_id: shop.id,
+      barber_id: user!.id,
+      starts_at: new Date(timeOffStart).toISOString(),
+      ends_at: new Date(timeOffEnd).toISOString(),
+      reason: timeOffReason.trim() || null,
+    });
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setTimeOffStart('');
+      setTimeOffEnd('');
+      setTimeOffReason('');
+      await loadSchedule();
+    }
+    setLoading(false);
+  };
+
+  const deleteEntry = async (table: WeeklyTable | 'barber_time_off', id: string) => {
+    const { error } = await profilesRepo.deleteScheduleEntry(table, id);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadSchedule();
+    }
+  };
+
+  return (
+    <section className="space-y-6">
+      <div>
+        <h2 className="text-xl font-semibold text-gray-900">My Schedule - {shop.name}</h2>
+        <p className="text-sm text-gray-600 mt-1">
+          Times are in the shop's time zone ({shop.timezone}). Without any weekly hours you are
+          treated as working the shop's full opening hours.
+        </p>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Weekly Hours</h3>
+        <div className="divide-y divide-gray-100 mb-6">
+          {DAYS.map((day, index) => {
+            const dayShifts = schedules.filter(s => s.day_of_week === index);
+            const dayBreaks = breaks.filter(b => b.day_of_week === index);
+            return (
+              <div key={day} className="flex py-2">
+                <div className="w-28 flex-shrink-0 text-sm font-medium text-gray-700">{day}</div>
+                <div className="flex-1 flex flex-wrap gap-2">
+                  {dayShifts.length === 0 && dayBreaks.length === 0 && (
+                    <span className="text-sm text-gray-400">Not set</span>
+                  )}
+                  {dayShifts.map((shift) => (
+                    <span key={shift.id} className="px-2 py-1 rounded text-xs font-medium bg-green-100 text-green-800 flex items-center gap-1">
+                      <Briefcase className="w-3 h-3" />
+                      {shift.start_time.slice(0, 5)} - {shift.end_time.slice(0, 5)}
+                      <button onClick={() => deleteEntry('barber_schedules', shift.id)} className="ml-1 hover:text-green-900">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                  {dayBreaks.map((pause) => (
+                    <span key={pause.id} className="px-2 py-1 rounded text-xs font-medium bg-yellow-100 text-yellow-800 flex items-center gap-1">
+                      <Coffee className="w-3 h-3" />
+                      {pause.start_time.slice(0, 5)} - {pause.end_time.slice(0, 5)}
+                      <button onClick={() => deleteEntry('barber_breaks', pause.id)} className="ml-1 hover:text-yellow-900">
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <form onSubmit={addWeeklyEntry} className="grid md:grid-cols-5 gap-4 items-end">
+          <div>
+            <label htmlFor="entryType" className="block text-sm font-medium text-gray-700 mb-1">
+              Type
+            </label>
+            <select
+              id="entryType"
+              value={entryType}
+              onChange={(e) => setEntryType(e.target.value as WeeklyTable)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              <option value="barber_schedules">Shift</option>
+              <option value="barber_breaks">Break</option>
+            </select>
+          </div>
+          <div>
+            <label htmlFor="dayOfWeek" className="block text-sm font-medium text-gray-700 mb-1">
+              Day
+            </label>
+            <select
+              id="dayOfWeek"
+              value={dayOfWeek}
+              onChange={(e) => setDayOfWeek(Number(e.target.value))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            >
+              {DAYS.map((day, index) => (
+                <option key={day} value={index}>{day}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="entryStart" className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              id="entryStart"
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="entryEnd" className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              id="entryEnd"
+              type="time"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add
+          </button>
+        </form>
+      </div>
+
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h3 className="font-semibold text-gray-900 mb-4">Time Off</h3>
+        <div className="space-y-2 mb-6">
+          {timeOff.length === 0 ? (
+            <div className="text-sm text-gray-400">No upcoming time off</div>
+          ) : (
+            timeOff.map((entry) => (
+              <div key={entry.id} className="flex items-center justify-between p-3 rounded-md border border-gray-300">
+                <div className="text-sm text-gray-700 flex items-center gap-2">
+                  <Plane className="w-4 h-4 text-gray-500" />
+                  {new Date(entry.starts_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  {' - '}
+                  {new Date(entry.ends_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                  {entry.reason && <span className="text-gray-500">({entry.reason})</span>}
+                </div>
+                <button onClick={() => deleteEntry('barber_time_off', entry.id)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        <form onSubmit={addTimeOff} className="grid md:grid-cols-4 gap-4 items-end">
+          <div>
+            <label htmlFor="timeOffStart" className="block text-sm font-medium text-gray-700 mb-1">
+              From
+            </label>
+            <input
+              id="timeOffStart"
+              type="datetime-local"
+              value={timeOffStart}
+              onChange={(e) => setTimeOffStart(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="timeOffEnd" className="block text-sm font-medium text-gray-700 mb-1">
+              To
+            </label>
+            <input
+              id="timeOffEnd"
+              type="datetime-local"
+              value={timeOffEnd}
+              onChange={(e) => setTimeOffEnd(e.target.value)}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="timeOffReason" className="block text-sm font-medium text-gray-700 mb-1">
+              Reason (Optional)
+            </label>
+            <input
+              id="timeOffReason"
+              type="text"
+              value={timeOffReason}
+              onChange={(e) => setTimeOffReason(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={loading}
+            className="bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            Add Time Off
+          </button>
+        </form>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm">{error}</div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,243 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Pencil, Trash2, X } from 'lucide-react';
+import { Shop, Service } from '../lib/supabase';
+import { shopsRepo } from '../lib/repos/shopsRepo';
+
+type Props = {
+  shop: Shop;
+  onClose: () => void;
+};
+
+type ServiceForm = {
+  name: string;
+  price: string;
+  duration_minutes: string;
+  is_active: boolean;
+};
+
+const emptyForm: ServiceForm = {
+  name: '',
+  price: '',
+  duration_minutes: '30',
+  is_active: true,
+};
+
+export function ServiceMenu({ shop, onClose }: Props) {
+  const [services, setServices] = useState<Service[]>([]);
+  const [editingServiceId, setEditingServiceId] = useState<string | null>(null);
+  const [form, setForm] = useState<ServiceForm>(emptyForm);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadServices = useCallback(async () => {
+    const { data } = await shopsRepo.listServices(shop.id);
+    if (data) setServices(data);
+  }, [shop.id]);
+
+  useEffect(() => {
+    loadServices();
+  }, [loadServices]);
+
+  const resetForm = () => {
+    setEditingServiceId(null);
+    setForm(emptyForm);
+    setError('');
+  };
+
+  const editService = (service: Service) => {
+    setEditingServiceId(service.id);
+    setForm({
+      name: service.name,
+      price: String(service.price),
+      duration_minutes: String(service.duration_minutes),
+      is_active: service.is_active,
+    });
+    setError('');
+  };
+
+  const saveService = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const price = Number(form.price);
+    const duration = Number(form.duration_minutes);
+    if (!Number.isFinite(price) || price < 0) {
+      setError('Price must be zero or more');
+      return;
+    }
+    if (!Number.isInteger(duration) || duration <= 0) {
+      setError('Duration must be a whole number of minutes');
+      return;
+    }
+
+    setLoading(true);
+    const serviceData = {
+      name: form.name.trim(),
+      price,
+      duration_minutes: duration,
+      is_active: form.is_active,
+    };
+
+    const { error } = editingServiceId
+      ? await shopsRepo.updateService(editingServiceId, serviceData)
+      : await shopsRepo.createService(shop.id, serviceData);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      resetForm();
+      await loadServices();
+    }
+    setLoading(false);
+  };
+
+  const toggleActive = async (service: Service) => {
+    const { error } = await shopsRepo.updateService(service.id, { is_active: !service.is_active });
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadServices();
+    }
+  };
+
+  const deleteService = async (id: string) => {
+    if (!confirm('Are you sure you want to delete this service?')) return;
+
+    const { error } = await shopsRepo.deleteService(id);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadServices();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-gray-900">Service Menu - {shop.name}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {services.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">No services yet</div>
+        ) : (
+          services.map((service) => (
+            <div
+              key={service.id}
+              className={`flex items-center justify-between p-3 rounded-md border ${
+                service.is_active ? 'border-gray-300' : 'border-gray-200 bg-gray-50 text-gray-400'
+              }`}
+            >
+              <div>
+                <div className="font-medium">{service.name}</div>
+                <div className="text-sm">
+                  ${service.price.toFixed(2)} · {service.duration_minutes} min
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => toggleActive(service)}
+                  className={`px-2 py-1 rounded text-xs font-medium ${
+                    service.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-200 text-gray-600'
+                  }`}
+                >
+                  {service.is_active ? 'Active' : 'Inactive'}
+                </button>
+                <button onClick={() => editService(service)} className="text-gray-600 hover:text-gray-900">
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button onClick={() => deleteService(service.id)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={saveService} className="space-y-4">
+        <div className="grid md:grid-cols-3 gap-4">
+          <div>
+            <label htmlFor="serviceName" className="block text-sm font-medium text-gray-700 mb-1">
+              Name
+            </label>
+            <input
+              id="serviceName"
+              type="text"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="servicePrice" className="block text-sm font-medium text-gray-700 mb-1">
+              Price
+            </label>
+            <input
+              id="servicePrice"
+              type="number"
+              min="0"
+              step="0.01"
+              value={form.price}
+              onChange={(e) => setForm({ ...form, price: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="serviceDuration" className="block text-sm font-medium text-gray-700 mb-1">
+              Duration (minutes)
+            </label>
+            <input
+              id="serviceDuration"
+              type="number"
+              min="1"
+              step="1"
+              value={form.duration_minutes}
+              onChange={(e) => setForm({ ...form, duration_minutes: e.target.value })}
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <label className="flex items-center text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={form.is_active}
+            onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+            className="mr-2"
+          />
+          Available for booking
+        </label>
+        {error && (
+          <div className="text-red-600 text-sm">{error}</div>
+        )}
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={loading}
+            className="flex-1 bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+          >
+            <Plus className="w-4 h-4" />
+            {loading ? 'Saving...' : editingServiceId ? 'Save Service' : 'Add Service'}
+          </button>
+          {editingServiceId && (
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
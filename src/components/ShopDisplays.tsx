@@ -0,0 +1,147 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Plus, Copy, Ban, X, ExternalLink } from 'lucide-react';
+import { Shop, ShopDisplayToken } from '../lib/supabase';
+import { shopsRepo } from '../lib/repos/shopsRepo';
+import { useAuth } from '../contexts/useAuth';
+
+type Props = {
+  shop: Shop;
+  onClose: () => void;
+};
+
+const displayLink = (token: string) => `${window.location.origin}/display/${token}`;
+
+export function ShopDisplays({ shop, onClose }: Props) {
+  const { user } = useAuth();
+  const [displays, setDisplays] = useState<ShopDisplayToken[]>([]);
+  const [label, setLabel] = useState('');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadDisplays = useCallback(async () => {
+    const { data } = await shopsRepo.listDisplays(shop.id);
+    if (data) setDisplays(data);
+  }, [shop.id]);
+
+  useEffect(() => {
+    loadDisplays();
+  }, [loadDisplays]);
+
+  const createDisplay = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    const { error } = await shopsRepo.createDisplay(shop.id, label, user!.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setLabel('');
+      await loadDisplays();
+    }
+    setLoading(false);
+  };
+
+  const revokeDisplay = async (display: ShopDisplayToken) => {
+    if (!confirm('Revoke this display link? Screens using it will stop showing the queue.')) return;
+
+    const { error } = await shopsRepo.revokeDisplay(display.id);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadDisplays();
+    }
+  };
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(displayLink(token));
+    } catch {
+      alert('Could not copy the link. Select it and copy it instead.');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-gray-900">Queue Displays - {shop.name}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        Open a display link on a screen in the shop to show the live queue. Anyone with the link
+        can see first names and last initials, so revoke links you no longer use.
+      </p>
+
+      <div className="space-y-2 mb-6">
+        {displays.length === 0 ? (
+          <div className="text-center text-gray-500 py-4">No display links yet</div>
+        ) : (
+          displays.map((display) => (
+            <div key={display.id} className="flex items-center justify-between p-3 rounded-md border border-gray-300 gap-4">
+              <div className="min-w-0">
+                <div className="font-medium">{display.label || 'Untitled display'}</div>
+                <div className="text-sm text-gray-600 truncate">{displayLink(display.token)}</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={() => copyLink(display.token)}
+                  title="Copy link"
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+                <a
+                  href={displayLink(display.token)}
+                  target="_blank"
+                  rel="noreferrer"
+                  title="Open display"
+                  className="text-gray-600 hover:text-gray-900"
+                >
+                  <ExternalLink className="w-4 h-4" />
+                </a>
+                <button
+                  onClick={() => revokeDisplay(display)}
+                  title="Revoke link"
+                  className="text-red-600 hover:text-red-700"
+                >
+                  <Ban className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={createDisplay} className="space-y-4">
+        <div>
+          <label htmlFor="displayLabel" className="block text-sm font-medium text-gray-700 mb-1">
+            Screen location
+          </label>
+          <input
+            id="displayLabel"
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Front window"
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        {error && (
+          <div className="text-red-600 text-sm">{error}</div>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          {loading ? 'Creating...' : 'Create Display Link'}
+        </button>
+      </form>
+    </div>
+  );
+}
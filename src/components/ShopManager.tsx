@@ -0,0 +1,402 @@
+import { useState, useEffect, useCallback } from 'react';
+import { MapPin, Clock, Phone, Plus, Pencil, LogOut, X, Scissors, Users, Mail, Check, Monitor } from 'lucide-react';
+import { Shop } from '../lib/supabase';
+import { shopsRepo, Membership, InvitationWithShop } from '../lib/repos/shopsRepo';
+import { useAuth } from '../contexts/useAuth';
+import { ServiceMenu } from './ServiceMenu';
+import { ShopTeam } from './ShopTeam';
+import { ShopDisplays } from './ShopDisplays';
+
+type Props = {
+  onShopsChanged: () => void;
+};
+
+type ShopForm = {
+  name: string;
+  address: string;
+  phone: string;
+  opening_time: string;
+  closing_time: string;
+  timezone: string;
+};
+
+const emptyForm: ShopForm = {
+  name: '',
+  address: '',
+  phone: '',
+  opening_time: '09:00',
+  closing_time: '18:00',
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+};
+
+export function ShopManager({ onShopsChanged }: Props) {
+  const { user } = useAuth();
+  const [memberships, setMemberships] = useState<Membership[]>([]);
+  const [invitations, setInvitations] = useState<InvitationWithShop[]>([]);
+  const [editingShopId, setEditingShopId] = useState<string | null>(null);
+  const [menuShop, setMenuShop] = useState<Shop | null>(null);
+  const [teamShop, setTeamShop] = useState<Membership | null>(null);
+  const [displayShop, setDisplayShop] = useState<Shop | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ShopForm>(emptyForm);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const loadShops = useCallback(async () => {
+    const [{ data: memberData }, { data: invitationData }] = await Promise.all([
+      shopsRepo.listMemberships(user!.id),
+      shopsRepo.listInvitationsFor(user!.email!),
+    ]);
+
+    if (memberData) setMemberships(memberData);
+    if (invitationData) setInvitations(invitationData);
+  }, [user]);
+
+  useEffect(() => {
+    loadShops();
+  }, [loadShops]);
+
+  const openCreateForm = () => {
+    setEditingShopId(null);
+    setForm(emptyForm);
+    setError('');
+    setShowForm(true);
+  };
+
+  const openEditForm = (shop: Shop) => {
+    setEditingShopId(shop.id);
+    setForm({
+      name: shop.name,
+      address: shop.address,
+      phone: shop.phone ?? '',
+      opening_time: shop.opening_time.slice(0, 5),
+      closing_time: shop.closing_time.slice(0, 5),
+      timezone: shop.timezone,
+    });
+    setError('');
+    setShowForm(true);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditingShopId(null);
+    setError('');
+  };
+
+  const saveShop = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (form.closing_time <= form.opening_time) {
+      setError('Closing time must be after opening time');
+      return;
+    }
+
+    setLoading(true);
+    const shopData = {
+      name: form.name.trim(),
+      address: form.address.trim(),
+      phone: form.phone.trim() || null,
+      opening_time: form.opening_time,
+      closing_time: form.closing_time,
+      timezone: form.timezone.trim(),
+    };
+
+    const { error } = editingShopId
+      ? await shopsRepo.update(editingShopId, shopData)
+      : await shopsRepo.create(shopData);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      closeForm();
+      await loadShops();
+      onShopsChanged();
+    }
+    setLoading(false);
+  };
+
+  const respondToInvitation = async (id: string, accept: boolean) => {
+    setLoading(true);
+    const { error } = await shopsRepo.respondToInvitation(id, accept);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadShops();
+      if (accept) onShopsChanged();
+    }
+    setLoading(false);
+  };
+
+  const leaveShop = async (shopId: string) => {
+    if (!confirm('Are you sure you want to leave this shop?')) return;
+
+    setLoading(true);
+    const { data: left, error } = await shopsRepo.leave(shopId, user!.id);
+
+    if (error) {
+      alert(error.message);
+    } else if (!left) {
+      alert('You are the only owner of this shop. Make someone else an owner before leaving.');
+    } else {
+      if (menuShop?.id === shopId) setMenuShop(null);
+      if (teamShop?.shop.id === shopId) setTeamShop(null);
+      if (displayShop?.id === shopId) setDisplayShop(null);
+      await loadShops();
+      onShopsChanged();
+    }
+    setLoading(false);
+  };
+
+  return (
+    <section className="mb-8">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-gray-900">Manage Shops</h2>
+        <button
+          onClick={openCreateForm}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors flex items-center gap-2"
+        >
+          <Plus className="w-4 h-4" />
+          New Shop
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={saveShop} className="bg-white rounded-lg shadow-md p-6 space-y-4 mb-6">
+          <div className="flex justify-between items-center">
+            <h3 className="font-semibold text-gray-900">
+              {editingShopId ? 'Edit Shop' : 'Create Shop'}
+            </h3>
+            <button type="button" onClick={closeForm} className="text-gray-500 hover:text-gray-700">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="grid md:grid-cols-2 gap-4">
+            <div>
+              <label htmlFor="shopName" className="block text-sm font-medium text-gray-700 mb-1">
+                Name
+              </label>
+              <input
+                id="shopName"
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="shopPhone" className="block text-sm font-medium text-gray-700 mb-1">
+                Phone (Optional)
+              </label>
+              <input
+                id="shopPhone"
+                type="tel"
+                value={form.phone}
+                onChange={(e) => setForm({ ...form, phone: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div className="md:col-span-2">
+              <label htmlFor="shopAddress" className="block text-sm font-medium text-gray-700 mb-1">
+                Address
+              </label>
+              <input
+                id="shopAddress"
+                type="text"
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="openingTime" className="block text-sm font-medium text-gray-700 mb-1">
+                Opening Time
+              </label>
+              <input
+                id="openingTime"
+                type="time"
+                value={form.opening_time}
+                onChange={(e) => setForm({ ...form, opening_time: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="closingTime" className="block text-sm font-medium text-gray-700 mb-1">
+                Closing Time
+              </label>
+              <input
+                id="closingTime"
+                type="time"
+                value={form.closing_time}
+                onChange={(e) => setForm({ ...form, closing_time: e.target.value })}
+                required
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+            <div>
+              <label htmlFor="shopTimezone" className="block text-sm font-medium text-gray-700 mb-1">
+                Time Zone
+              </label>
+              <input
+                id="shopTimezone"
+                type="text"
+                value={form.timezone}
+                onChange={(e) => setForm({ ...form, timezone: e.target.value })}
+                required
+                placeholder="Europe/London"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          </div>
+          {error && (
+            <div className="text-red-600 text-sm">{error}</div>
+          )}
+          <button
+            type="submit"
+            disabled={loading}
+            className="w-full bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+          >
+            {loading ? 'Saving...' : editingShopId ? 'Save Changes' : 'Create Shop'}
+          </button>
+        </form>
+      )}
+
+      {menuShop && (
+        <ServiceMenu shop={menuShop} onClose={() => setMenuShop(null)} />
+      )}
+
+      {teamShop && (
+        <ShopTeam shop={teamShop.shop} myRole={teamShop.role} onClose={() => setTeamShop(null)} />
+      )}
+
+      {displayShop && (
+        <ShopDisplays shop={displayShop} onClose={() => setDisplayShop(null)} />
+      )}
+
+      {invitations.length > 0 && (
+        <div className="mb-6 space-y-2">
+          <h3 className="font-semibold text-gray-900">Invitations</h3>
+          {invitations.map((invitation) => (
+            <div key={invitation.id} className="bg-white rounded-lg shadow-md p-4 flex items-center justify-between">
+              <div className="flex items-center gap-3">
+                <Mail className="w-5 h-5 text-blue-600" />
+                <div>
+                  <div className="font-medium text-gray-900">{invitation.shop?.name}</div>
+                  <div className="text-sm text-gray-600">
+                    Invited as {invitation.role} · {invitation.shop?.address}
+                  </div>
+                </div>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => respondToInvitation(invitation.id, true)}
+                  disabled={loading}
+                  className="px-4 bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center gap-2 text-sm"
+                >
+                  <Check className="w-4 h-4" />
+                  Accept
+                </button>
+                <button
+                  onClick={() => respondToInvitation(invitation.id, false)}
+                  disabled={loading}
+                  className="px-4 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:bg-gray-200 text-sm"
+                >
+                  Decline
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="grid md:grid-cols-3 gap-4">
+        {memberships.length === 0 ? (
+          <div className="md:col-span-3 bg-white rounded-lg shadow-md p-6 text-center text-gray-500">
+            You are not part of any shop yet. Create one, or ask a shop owner to invite you.
+          </div>
+        ) : (
+          memberships.map((membership) => {
+            const { shop, role } = membership;
+            const canManage = role === 'owner' || role === 'manager';
+            return (
+              <div key={shop.id} className="bg-white rounded-lg shadow-md p-4">
+                <div className="flex justify-between items-start">
+                  <div className="font-semibold text-gray-900">{shop.name}</div>
+                  <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800 capitalize">
+                    {role}
+                  </span>
+                </div>
+                <div className="text-sm text-gray-600 flex items-center mt-1">
+                  <MapPin className="w-3 h-3 mr-1" />
+                  {shop.address}
+                </div>
+                {shop.phone && (
+                  <div className="text-sm text-gray-600 flex items-center mt-1">
+                    <Phone className="w-3 h-3 mr-1" />
+                    {shop.phone}
+                  </div>
+                )}
+                <div className="text-sm text-gray-600 flex items-center mt-1">
+                  <Clock className="w-3 h-3 mr-1" />
+                  {shop.opening_time} - {shop.closing_time}
+                </div>
+                <div className="flex flex-wrap gap-2 mt-4">
+                  {canManage && (
+                    <button
+                      onClick={() => openEditForm(shop)}
+                      disabled={loading}
+                      className="flex-1 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:bg-gray-200 flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setMenuShop(shop)}
+                    disabled={loading}
+                    className="flex-1 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:bg-gray-200 flex items-center justify-center gap-2 text-sm"
+                  >
+                    <Scissors className="w-4 h-4" />
+                    Menu
+                  </button>
+                  {canManage && (
+                    <button
+                      onClick={() => setTeamShop(membership)}
+                      disabled={loading}
+                      className="flex-1 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:bg-gray-200 flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Users className="w-4 h-4" />
+                      Team
+                    </button>
+                  )}
+                  {canManage && (
+                    <button
+                      onClick={() => setDisplayShop(shop)}
+                      disabled={loading}
+                      className="flex-1 bg-gray-100 text-gray-800 py-2 rounded-md hover:bg-gray-200 transition-colors disabled:bg-gray-200 flex items-center justify-center gap-2 text-sm"
+                    >
+                      <Monitor className="w-4 h-4" />
+                      Displays
+                    </button>
+                  )}
+                  <button
+                    onClick={() => leaveShop(shop.id)}
+                    disabled={loading}
+                    className="flex-1 bg-red-600 text-white py-2 rounded-md hover:bg-red-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2 text-sm"
+                  >
+                    <LogOut className="w-4 h-4" />
+                    Leave
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Mail, Trash2, X, Send } from 'lucide-react';
+import { Shop, ShopRole, ShopInvitation } from '../lib/supabase';
+import { shopsRepo, TeamMember } from '../lib/repos/shopsRepo';
+import { useAuth } from '../contexts/useAuth';
+
+type Props = {
+  shop: Shop;
+  myRole: ShopRole;
+  onClose: () => void;
+};
+
+const roleLabels: Record<ShopRole, string> = {
+  owner: 'Owner',
+  manager: 'Manager',
+  staff: 'Staff',
+};
+
+export function ShopTeam({ shop, myRole, onClose }: Props) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [invitations, setInvitations] = useState<ShopInvitation[]>([]);
+  const [email, setEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<ShopInvitation['role']>('staff');
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const isOwner = myRole === 'owner';
+
+  const loadTeam = useCallback(async () => {
+    const { data } = await shopsRepo.listTeam(shop.id);
+    if (data) {
+      setMembers(data.members);
+      setInvitations(data.invitations);
+    }
+  }, [shop.id]);
+
+  useEffect(() => {
+    loadTeam();
+  }, [loadTeam]);
+
+  const sendInvitation = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setLoading(true);
+
+    const { error } = await shopsRepo.invite(shop.id, email, inviteRole, user!.id);
+
+    if (error) {
+      setError(error.message);
+    } else {
+      setEmail('');
+      setInviteRole('staff');
+      await loadTeam();
+    }
+    setLoading(false);
+  };
+
+  const revokeInvitation = async (id: string) => {
+    const { error } = await shopsRepo.revokeInvitation(id);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadTeam();
+    }
+  };
+
+  const changeRole = async (member: TeamMember, role: ShopRole) => {
+    const { error } = await shopsRepo.changeMemberRole(member.id, role);
+
+    if (error) {
+      alert(error.message);
+    }
+    await loadTeam();
+  };
+
+  const removeMember = async (member: TeamMember) => {
+    if (!confirm(`Remove ${member.barber.full_name} from ${shop.name}?`)) return;
+
+    const { error } = await shopsRepo.removeMember(member.id);
+
+    if (error) {
+      alert(error.message);
+    } else {
+      await loadTeam();
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="font-semibold text-gray-900">Team - {shop.name}</h3>
+        <button onClick={onClose} className="text-gray-500 hover:text-gray-700">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="space-y-2 mb-6">
+        {members.map((member) => (
+          <div key={member.id} className="flex items-center justify-between p-3 rounded-md border border-gray-300">
+            <div>
+              <div className="font-medium text-gray-900">{member.barber.full_name}</div>
+              <div className="text-sm text-gray-600">{member.barber.email}</div>
+            </div>
+            <div className="flex items-center gap-2">
+              {isOwner && member.barber.id !== user?.id ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => changeRole(member, e.target.value as ShopRole)}
+                  className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+                >
+                  <option value="owner">Owner</option>
+                  <option value="manager">Manager</option>
+                  <option value="staff">Staff</option>
+                </select>
+              ) : (
+                <span className="px-2 py-1 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                  {roleLabels[member.role]}
+                </span>
+              )}
+              {isOwner && member.barber.id !== user?.id && member.role !== 'owner' && (
+                <button onClick={() => removeMember(member)} className="text-red-600 hover:text-red-700">
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <h4 className="font-medium text-gray-900 mb-2">Pending Invitations</h4>
+      <div className="space-y-2 mb-6">
+        {invitations.length === 0 ? (
+          <div className="text-sm text-gray-400">No pending invitations</div>
+        ) : (
+          invitations.map((invitation) => (
+            <div key={invitation.id} className="flex items-center justify-between p-3 rounded-md border border-gray-200">
+              <div className="text-sm text-gray-700 flex items-center gap-2">
+                <Mail className="w-4 h-4 text-gray-500" />
+                {invitation.email}
+                <span className="text-gray-500">({roleLabels[invitation.role]})</span>
+                {invitation.emailed_at && <span className="text-gray-400">Emailed</span>}
+              </div>
+              <button
+                onClick={() => revokeInvitation(invitation.id)}
+                className="text-sm text-red-600 hover:underline"
+              >
+                Revoke
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+
+      <form onSubmit={sendInvitation} className="grid md:grid-cols-4 gap-4 items-end">
+        <div className="md:col-span-2">
+          <label htmlFor="inviteEmail" className="block text-sm font-medium text-gray-700 mb-1">
+            Barber's Email
+          </label>
+          <input
+            id="inviteEmail"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            required
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+        </div>
+        <div>
+          <label htmlFor="inviteRole" className="block text-sm font-medium text-gray-700 mb-1">
+            Role
+          </label>
+          <select
+            id="inviteRole"
+            value={inviteRole}
+            onChange={(e) => setInviteRole(e.target.value as ShopInvitation['role'])}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="staff">Staff</option>
+            {isOwner && <option value="manager">Manager</option>}
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={loading}
+          className="bg-blue-600 text-white py-2 rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400 flex items-center justify-center gap-2"
+        >
+          <Send className="w-4 h-4" />
+          Invite
+        </button>
+      </form>
+      {error && (
+        <div className="text-red-600 text-sm mt-2">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,28 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
-import { User } from '@supabase/supabase-js';
+import { useEffect, useRef, useState, ReactNode } from 'react';
+import { User, Provider } from '@supabase/supabase-js';
 import { supabase, Profile } from '../lib/supabase';
+import { profilesRepo } from '../lib/repos/profilesRepo';
+import { notificationsRepo } from '../lib/repos/notificationsRepo';
+import { isPushSupported, getPushSubscription } from '../lib/push';
+import { AuthContext } from './useAuth';
 
-type AuthContextType = {
-  user: User | null;
-  profile: Profile | null;
-  loading: boolean;
-  signUp: (email: string, password: string, fullName: string, role: 'barber' | 'customer') => Promise<void>;
-  signIn: (email: string, password: string) => Promise<void>;
-  signOut: () => Promise<void>;
-};
+export const SIGN_IN_PATH = '/login';
+export const RESET_PASSWORD_PATH = '/reset-password';
 
-const AuthContext = createContext<AuthContextType | undefined>(undefined);
+// OAuth providers enabled for this deployment, e.g. VITE_OAUTH_PROVIDERS=google,github.
+// Each one must also be enabled in the Supabase auth settings.
+const oauthProviders = (import.meta.env.VITE_OAUTH_PROVIDERS ?? '')
+  .split(',')
+  .map(provider => provider.trim())
+  .filter(Boolean) as Provider[];
 
 export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [profile, setProfile] = useState<Profile | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+  const loadedProfileFor = useRef<string | null>(null);
 
   useEffect(() => {
     supabase.auth.getSession().then(({ data: { session } }) => {
@@ -28,13 +34,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       }
     });
 
-    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'PASSWORD_RECOVERY') {
+        setPasswordRecovery(true);
+      }
+
       (async () => {
         setUser(session?.user ?? null);
         if (session?.user) {
+          // Keep showing the loading state until the profile of a newly signed-in user is
+          // known, so App does not flash the missing-profile screen.
+          if (loadedProfileFor.current !== session.user.id) {
+            setLoading(true);
+          }
           await loadProfile(session.user.id);
         } else {
           setProfile(null);
+          setProfileError(null);
           setLoading(false);
         }
       })();
@@ -43,37 +59,48 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => subscription.unsubscribe();
   }, []);
 
+  // A missing row leaves `profile` null, which App treats as a profile still to be set up.
+  // A failed load sets `profileError` instead and keeps the profile this user already had.
   const loadProfile = async (userId: string) => {
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('id', userId)
-      .maybeSingle();
+    const { data, error } = await profilesRepo.get(userId);
 
-    if (data) {
+    if (error) {
+      setProfileError(error.message);
+      if (loadedProfileFor.current !== userId) {
+        setProfile(null);
+      }
+    } else {
       setProfile(data);
+      setProfileError(null);
+      loadedProfileFor.current = userId;
     }
     setLoading(false);
   };
 
-  const signUp = async (email: string, password: string, fullName: string, role: 'barber' | 'customer') => {
+  const refreshProfile = async () => {
+    if (user) {
+      await loadProfile(user.id);
+    }
+  };
+
+  const signUp = async (email: string, password: string, fullName: string, role: 'barber' | 'customer', phone?: string) => {
+    // The profile is created by a database trigger from this metadata, so it exists even
+    // when email confirmation means there is no session yet.
     const { data, error } = await supabase.auth.signUp({
       email,
       password,
+      options: {
+        data: {
+          full_name: fullName,
+          role,
+          phone: phone || null,
+        },
+      },
     });
 
     if (error) throw error;
 
-    if (data.user) {
-      const { error: profileError } = await supabase.from('profiles').insert({
-        id: data.user.id,
-        email,
-        full_name: fullName,
-        role,
-      });
-
-      if (profileError) throw profileError;
-    }
+    return { confirmationSent: !data.session };
   };
 
   const signIn = async (email: string, password: string) => {
@@ -85,22 +112,79 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     if (error) throw error;
   };
 
+  const signInWithMagicLink = async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        shouldCreateUser: false,
+        emailRedirectTo: `${window.location.origin}${SIGN_IN_PATH}`,
+      },
+    });
+
+    if (error) throw error;
+  };
+
+  const signInWithOAuth = async (provider: Provider) => {
+    const { error } = await supabase.auth.signInWithOAuth({
+      provider,
+      options: {
+        redirectTo: `${window.location.origin}${SIGN_IN_PATH}`,
+      },
+    });
+
+    if (error) throw error;
+  };
+
+  const sendPasswordReset = async (email: string) => {
+    const { error } = await supabase.auth.resetPasswordForEmail(email, {
+      redirectTo: `${window.location.origin}${RESET_PASSWORD_PATH}`,
+    });
+
+    if (error) throw error;
+  };
+
+  const updatePassword = async (password: string) => {
+    const { error } = await supabase.auth.updateUser({ password });
+
+    if (error) throw error;
+    setPasswordRecovery(false);
+  };
+
   const signOut = async () => {
+    // Whoever uses this browser next should not get this profile's queue alerts. The
+    // subscription row can only be deleted while still signed in; failing to delete it
+    // does not stop the sign-out.
+    if (user && isPushSupported()) {
+      const subscription = await getPushSubscription().catch(() => null);
+      if (subscription) {
+        await notificationsRepo.deletePushSubscription(user.id, subscription.endpoint);
+      }
+    }
+
     const { error } = await supabase.auth.signOut();
     if (error) throw error;
   };
 
   return (
-    <AuthContext.Provider value={{ user, profile, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider
+      value={{
+        user,
+        profile,
+        profileError,
+        loading,
+        signUp,
+        signIn,
+        signInWithMagicLink,
+        signInWithOAuth,
+        sendPasswordReset,
+        updatePassword,
+        signOut,
+        refreshProfile,
+        oauthProviders,
+        passwordRecovery,
+      }}
+    >
       {children}
     </AuthContext.Provider>
   );
 }
-
-export function useAuth() {
-  const context = useContext(AuthContext);
-  if (context === undefined) {
-    throw new Error('useAuth must be used within an AuthProvider');
-  }
-  return context;
-}
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { createContext, useContext } from 'react';
+import { User, Provider } from '@supabase/supabase-js';
+import { Profile } from '../lib/supabase';
+
+export type AuthContextType = {
+  user: User | null;
+  profile: Profile | null;
+  // Why the profile could not be loaded; null when it loaded or does not exist.
+  profileError: string | null;
+  loading: boolean;
+  signUp: (email: string, password: string, fullName: string, role: 'barber' | 'customer', phone?: string) => Promise<{ confirmationSent: boolean }>;
+  signIn: (email: string, password: string) => Promise<void>;
+  signInWithMagicLink: (email: string) => Promise<void>;
+  signInWithOAuth: (provider: Provider) => Promise<void>;
+  sendPasswordReset: (email: string) => Promise<void>;
+  updatePassword: (password: string) => Promise<void>;
+  signOut: () => Promise<void>;
+  refreshProfile: () => Promise<void>;
+  oauthProviders: Provider[];
+  passwordRecovery: boolean;
+};
+
+export const AuthContext = createContext<AuthContextType | undefined>(undefined);
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (context === undefined) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+}
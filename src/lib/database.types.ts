@@ -0,0 +1,1304 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: "12.2.3 (519615d)"
+  }
+  public: {
+    Tables: {
+      appointment_events: {
+        Row: {
+          actor_id: string | null
+          appointment_id: string
+          created_at: string | null
+          customer_id: string | null
+          event_type: string
+          id: string
+          new_value: Json | null
+          old_value: Json | null
+          shop_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          appointment_id: string
+          created_at?: string | null
+          customer_id?: string | null
+          event_type: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          shop_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          appointment_id?: string
+          created_at?: string | null
+          customer_id?: string | null
+          event_type?: string
+          id?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_events_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointment_events_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      appointments: {
+        Row: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        Insert: {
+          barber_id?: string | null
+          booking_type?: string
+          completed_at?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          guest_name?: string | null
+          guest_phone?: string | null
+          id?: string
+          notes?: string | null
+          preferred_barber_id?: string | null
+          queue_position?: number
+          scheduled_at?: string | null
+          service_id?: string | null
+          service_type: string
+          shop_id: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Update: {
+          barber_id?: string | null
+          booking_type?: string
+          completed_at?: string | null
+          created_at?: string | null
+          customer_id?: string | null
+          guest_name?: string | null
+          guest_phone?: string | null
+          id?: string
+          notes?: string | null
+          preferred_barber_id?: string | null
+          queue_position?: number
+          scheduled_at?: string | null
+          service_id?: string | null
+          service_type?: string
+          shop_id?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_preferred_barber_id_fkey"
+            columns: ["preferred_barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_breaks: {
+        Row: {
+          barber_id: string
+          created_at: string | null
+          day_of_week: number
+          end_time: string
+          id: string
+          shop_id: string
+          start_time: string
+        }
+        Insert: {
+          barber_id: string
+          created_at?: string | null
+          day_of_week: number
+          end_time: string
+          id?: string
+          shop_id: string
+          start_time: string
+        }
+        Update: {
+          barber_id?: string
+          created_at?: string | null
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          shop_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_breaks_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_breaks_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_schedules: {
+        Row: {
+          barber_id: string
+          created_at: string | null
+          day_of_week: number
+          end_time: string
+          id: string
+          shop_id: string
+          start_time: string
+        }
+        Insert: {
+          barber_id: string
+          created_at?: string | null
+          day_of_week: number
+          end_time: string
+          id?: string
+          shop_id: string
+          start_time: string
+        }
+        Update: {
+          barber_id?: string
+          created_at?: string | null
+          day_of_week?: number
+          end_time?: string
+          id?: string
+          shop_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_schedules_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_schedules_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      barber_time_off: {
+        Row: {
+          barber_id: string
+          created_at: string | null
+          ends_at: string
+          id: string
+          reason: string | null
+          shop_id: string
+          starts_at: string
+        }
+        Insert: {
+          barber_id: string
+          created_at?: string | null
+          ends_at: string
+          id?: string
+          reason?: string | null
+          shop_id: string
+          starts_at: string
+        }
+        Update: {
+          barber_id?: string
+          created_at?: string | null
+          ends_at?: string
+          id?: string
+          reason?: string | null
+          shop_id?: string
+          starts_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "barber_time_off_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "barber_time_off_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          email_enabled: boolean
+          profile_id: string
+          sms_enabled: boolean
+          updated_at: string | null
+        }
+        Insert: {
+          email_enabled?: boolean
+          profile_id: string
+          sms_enabled?: boolean
+          updated_at?: string | null
+        }
+        Update: {
+          email_enabled?: boolean
+          profile_id?: string
+          sms_enabled?: boolean
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          email: string
+          full_name: string
+          id: string
+          phone: string | null
+          role: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          full_name: string
+          id: string
+          phone?: string | null
+          role: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          full_name?: string
+          id?: string
+          phone?: string | null
+          role?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string | null
+          endpoint: string
+          id: string
+          p256dh: string
+          profile_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string | null
+          endpoint: string
+          id?: string
+          p256dh: string
+          profile_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_subscriptions_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      queue_notifications: {
+        Row: {
+          appointment_id: string
+          channel: string
+          claimed_at: string | null
+          created_at: string | null
+          error: string | null
+          id: string
+          kind: string
+          profile_id: string
+          recipient: string
+          sent_at: string | null
+          status: string
+        }
+        Insert: {
+          appointment_id: string
+          channel: string
+          claimed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          kind: string
+          profile_id: string
+          recipient: string
+          sent_at?: string | null
+          status?: string
+        }
+        Update: {
+          appointment_id?: string
+          channel?: string
+          claimed_at?: string | null
+          created_at?: string | null
+          error?: string | null
+          id?: string
+          kind?: string
+          profile_id?: string
+          recipient?: string
+          sent_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "queue_notifications_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointment_facts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_notifications_appointment_id_fkey"
+            columns: ["appointment_id"]
+            isOneToOne: false
+            referencedRelation: "appointments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "queue_notifications_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      services: {
+        Row: {
+          created_at: string | null
+          duration_minutes: number
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          shop_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name: string
+          price?: number
+          shop_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          duration_minutes?: number
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          shop_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "services_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_barbers: {
+        Row: {
+          barber_id: string
+          created_at: string | null
+          id: string
+          role: string
+          shop_id: string
+        }
+        Insert: {
+          barber_id: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          shop_id: string
+        }
+        Update: {
+          barber_id?: string
+          created_at?: string | null
+          id?: string
+          role?: string
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_barbers_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_barbers_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_display_tokens: {
+        Row: {
+          created_at: string | null
+          created_by: string
+          id: string
+          label: string
+          revoked_at: string | null
+          shop_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by: string
+          id?: string
+          label?: string
+          revoked_at?: string | null
+          shop_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string
+          id?: string
+          label?: string
+          revoked_at?: string | null
+          shop_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_display_tokens_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_display_tokens_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_invitations: {
+        Row: {
+          created_at: string | null
+          email: string
+          emailed_at: string | null
+          id: string
+          invited_by: string
+          responded_at: string | null
+          role: string
+          shop_id: string
+          status: string
+        }
+        Insert: {
+          created_at?: string | null
+          email: string
+          emailed_at?: string | null
+          id?: string
+          invited_by: string
+          responded_at?: string | null
+          role?: string
+          shop_id: string
+          status?: string
+        }
+        Update: {
+          created_at?: string | null
+          email?: string
+          emailed_at?: string | null
+          id?: string
+          invited_by?: string
+          responded_at?: string | null
+          role?: string
+          shop_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "shop_invitations_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_queue_counters: {
+        Row: {
+          last_position: number
+          queue_date: string
+          shop_id: string
+        }
+        Insert: {
+          last_position?: number
+          queue_date: string
+          shop_id: string
+        }
+        Update: {
+          last_position?: number
+          queue_date?: string
+          shop_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_queue_counters_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shop_queue_status: {
+        Row: {
+          in_progress_count: number
+          shop_id: string
+          updated_at: string | null
+          waiting_count: number
+        }
+        Insert: {
+          in_progress_count?: number
+          shop_id: string
+          updated_at?: string | null
+          waiting_count?: number
+        }
+        Update: {
+          in_progress_count?: number
+          shop_id?: string
+          updated_at?: string | null
+          waiting_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "shop_queue_status_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: true
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      shops: {
+        Row: {
+          address: string
+          closing_time: string | null
+          created_at: string | null
+          id: string
+          latitude: number | null
+          longitude: number | null
+          name: string
+          opening_time: string | null
+          phone: string | null
+          timezone: string
+          updated_at: string | null
+        }
+        Insert: {
+          address: string
+          closing_time?: string | null
+          created_at?: string | null
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name: string
+          opening_time?: string | null
+          phone?: string | null
+          timezone?: string
+          updated_at?: string | null
+        }
+        Update: {
+          address?: string
+          closing_time?: string | null
+          created_at?: string | null
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          name?: string
+          opening_time?: string | null
+          phone?: string | null
+          timezone?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      appointment_facts: {
+        Row: {
+          barber_id: string | null
+          id: string | null
+          local_at: string | null
+          service_minutes: number | null
+          service_type: string | null
+          shop_id: string | null
+          status: string | null
+          wait_minutes: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointments_barber_id_fkey"
+            columns: ["barber_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "appointments_shop_id_fkey"
+            columns: ["shop_id"]
+            isOneToOne: false
+            referencedRelation: "shops"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Functions: {
+      accept_shop_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: {
+          barber_id: string
+          created_at: string | null
+          id: string
+          role: string
+          shop_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "shop_barbers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      barbers_on_shift: {
+        Args: { p_at?: string; p_shop_id: string }
+        Returns: number
+      }
+      book_appointment: {
+        Args: {
+          p_notes?: string
+          p_preferred_barber_id?: string
+          p_service_id: string
+          p_shop_id: string
+        }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      book_scheduled_appointment: {
+        Args: {
+          p_notes?: string
+          p_preferred_barber_id?: string
+          p_scheduled_at: string
+          p_service_id: string
+          p_shop_id: string
+        }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      cancel_appointment: {
+        Args: { p_appointment_id: string }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      check_in_guest: {
+        Args: {
+          p_guest_name: string
+          p_guest_phone?: string
+          p_service_id: string
+          p_shop_id: string
+        }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      complete_appointment: {
+        Args: { p_appointment_id: string }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      compute_queue_estimates: {
+        Args: { p_shop_id: string }
+        Returns: {
+          appointment_id: string
+          estimated_start: string
+        }[]
+      }
+      decline_shop_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: undefined
+      }
+      delete_my_account: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      display_name: { Args: { p_full_name: string }; Returns: string }
+      expected_service_minutes: {
+        Args: { p_service_id: string; p_shop_id: string }
+        Returns: number
+      }
+      get_analytics_summary: {
+        Args: {
+          p_barber_id?: string
+          p_from?: string
+          p_shop_id?: string
+          p_to?: string
+        }
+        Returns: {
+          avg_service_minutes: number
+          avg_wait_minutes: number
+          cancellation_rate: number
+          cancelled_count: number
+          completed_count: number
+          total_count: number
+        }[]
+      }
+      get_available_slots: {
+        Args: {
+          p_barber_id?: string
+          p_date: string
+          p_service_id: string
+          p_shop_id: string
+        }
+        Returns: string[]
+      }
+      get_busiest_hours: {
+        Args: {
+          p_barber_id?: string
+          p_from?: string
+          p_shop_id?: string
+          p_to?: string
+        }
+        Returns: {
+          day_of_week: number
+          hour: number
+          visit_count: number
+        }[]
+      }
+      get_daily_throughput: {
+        Args: {
+          p_barber_id?: string
+          p_from?: string
+          p_shop_id?: string
+          p_to?: string
+        }
+        Returns: {
+          cancelled_count: number
+          day: string
+          served_count: number
+        }[]
+      }
+      get_display_queue: {
+        Args: { p_limit?: number; p_token: string }
+        Returns: Json
+      }
+      get_my_wait_estimates: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          appointment_id: string
+          estimated_start: string
+          people_ahead: number
+          shop_id: string
+        }[]
+      }
+      get_service_time_stats: {
+        Args: {
+          p_barber_id?: string
+          p_from?: string
+          p_shop_id?: string
+          p_to?: string
+        }
+        Returns: {
+          avg_service_minutes: number
+          avg_wait_minutes: number
+          served_count: number
+          service_type: string
+        }[]
+      }
+      get_shop_wait_times: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          barbers_on_shift: number
+          estimated_wait_minutes: number
+          shop_id: string
+          waiting_count: number
+        }[]
+      }
+      is_barber_available: {
+        Args: {
+          p_barber_id: string
+          p_end: string
+          p_shop_id: string
+          p_start: string
+        }
+        Returns: boolean
+      }
+      is_shop_manager: { Args: { p_shop_id: string }; Returns: boolean }
+      is_shop_owner: { Args: { p_shop_id: string }; Returns: boolean }
+      is_shop_staff: { Args: { p_shop_id: string }; Returns: boolean }
+      is_slot_available: {
+        Args: {
+          p_barber_id?: string
+          p_minutes: number
+          p_shop_id: string
+          p_start: string
+        }
+        Returns: boolean
+      }
+      mark_appointment_no_show: {
+        Args: { p_appointment_id: string }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      move_appointment: {
+        Args: { p_appointment_id: string; p_before_appointment_id?: string }
+        Returns: undefined
+      }
+      next_queue_position: { Args: { p_shop_id: string }; Returns: number }
+      notification_recipients: {
+        Args: { p_profile_id: string }
+        Returns: {
+          channel: string
+          recipient: string
+        }[]
+      }
+      queue_positions: {
+        Args: { p_shop_id: string }
+        Returns: {
+          appointment_id: string
+          estimated_start: string
+          people_ahead: number
+        }[]
+      }
+      queued_walk_ins: {
+        Args: { p_shop_id: string }
+        Returns: {
+          appointment_id: string
+          ends_at: string
+          starts_at: string
+        }[]
+      }
+      shop_owner_count: { Args: { p_shop_id: string }; Returns: number }
+      skip_appointment: {
+        Args: { p_appointment_id: string; p_places?: number }
+        Returns: undefined
+      }
+      start_appointment: {
+        Args: { p_appointment_id: string }
+        Returns: {
+          barber_id: string | null
+          booking_type: string
+          completed_at: string | null
+          created_at: string | null
+          customer_id: string | null
+          guest_name: string | null
+          guest_phone: string | null
+          id: string
+          notes: string | null
+          preferred_barber_id: string | null
+          queue_position: number
+          scheduled_at: string | null
+          service_id: string | null
+          service_type: string
+          shop_id: string
+          started_at: string | null
+          status: string
+          updated_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "appointments"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema["Tables"] & DefaultSchema["Views"])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Views"])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])
+    ? (DefaultSchema["Tables"] &
+        DefaultSchema["Views"])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema["Tables"]
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends (DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"]
+    : never) = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions["schema"]]["Tables"][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema["Tables"]
+    ? DefaultSchema["Tables"][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema["Enums"]
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends (DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"]
+    : never) = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions["schema"]]["Enums"][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema["Enums"]
+    ? DefaultSchema["Enums"][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema["CompositeTypes"]
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends (PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"]
+    : never) = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions["schema"]]["CompositeTypes"][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema["CompositeTypes"]
+    ? DefaultSchema["CompositeTypes"][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {},
+  },
+} as const
+
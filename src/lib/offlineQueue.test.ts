@@ -0,0 +1,113 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { IDBFactory } from 'fake-indexeddb';
+import type { AppointmentTransition } from './supabase';
+
+const { statuses, transition } = vi.hoisted(() => ({
+  statuses: new Map<string, string>(),
+  transition: vi.fn(),
+}));
+
+// Only the two calls the replay makes: reading an appointment's status and moving it on.
+vi.mock('./repos/appointmentsRepo', () => ({
+  appointmentsRepo: {
+    getStatus: async (id: string) => ({ data: statuses.get(id) ?? null, error: null }),
+    transition,
+  },
+}));
+
+let queue: typeof import('./offlineQueue');
+
+function cancel(userId: string, appointmentId: string) {
+  return queue.queueMutation({
+    userId,
+    appointmentId,
+    transition: 'cancel',
+    expectedStatus: 'waiting',
+    label: `Cancel ${appointmentId}`,
+  });
+}
+
+beforeEach(async () => {
+  vi.resetModules();
+  vi.stubGlobal('indexedDB', new IDBFactory());
+  vi.stubGlobal('navigator', { onLine: true });
+  statuses.clear();
+  transition.mockReset();
+  transition.mockImplementation(async (id: string, change: AppointmentTransition) => {
+    statuses.set(id, queue.transitionStatuses[change]);
+    return { data: null, error: null };
+  });
+  queue = await import('./offlineQueue');
+});
+
+describe('replayMutations', () => {
+  it('replays a queued cancel once the connection is back', async () => {
+    statuses.set('a1', 'waiting');
+    await cancel('barber-1', 'a1');
+
+    const result = await queue.replayMutations('barber-1');
+
+    expect(result).toEqual({ replayed: 1, conflicts: [], completed: true });
+    expect(transition).toHaveBeenCalledWith('a1', 'cancel');
+    expect(statuses.get('a1')).toBe('cancelled');
+    expect(await queue.listPendingMutations('barber-1')).toEqual([]);
+  });
+
+  it('drops a cancel for an appointment someone else already moved on, and the changes after it', async () => {
+    statuses.set('a1', 'in_progress');
+    await cancel('barber-1', 'a1');
+    await queue.queueMutation({
+      userId: 'barber-1',
+      appointmentId: 'a1',
+      transition: 'complete',
+      expectedStatus: 'cancelled',
+      label: 'Complete a1',
+    });
+
+    const result = await queue.replayMutations('barber-1');
+
+    expect(transition).not.toHaveBeenCalled();
+    expect(result.replayed).toBe(0);
+    expect(result.conflicts.map(conflict => conflict.reason)).toEqual([
+      'Someone else already marked it in progress',
+      'An earlier change to this appointment could not be saved',
+    ]);
+    expect(await queue.listPendingMutations('barber-1')).toEqual([]);
+  });
+
+  it('reports an appointment that was removed as a conflict', async () => {
+    await cancel('barber-1', 'gone');
+
+    const result = await queue.replayMutations('barber-1');
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({ reason: 'The appointment was removed' }),
+    ]);
+  });
+
+  it('keeps the change queued when the connection drops again', async () => {
+    statuses.set('a1', 'waiting');
+    transition.mockResolvedValue({ data: null, error: { message: 'Failed to fetch' } });
+    await cancel('barber-1', 'a1');
+
+    const result = await queue.replayMutations('barber-1');
+
+    expect(result).toEqual({ replayed: 0, conflicts: [], completed: false });
+    expect(await queue.listPendingMutations('barber-1')).toHaveLength(1);
+  });
+
+  it('only replays the changes of the barber who is signed in', async () => {
+    statuses.set('a1', 'waiting');
+    statuses.set('a2', 'waiting');
+    await cancel('barber-1', 'a1');
+    await cancel('barber-2', 'a2');
+
+    await queue.replayMutations('barber-1');
+
+    expect(transition).toHaveBeenCalledTimes(1);
+    expect(transition).toHaveBeenCalledWith('a1', 'cancel');
+    expect(await queue.listPendingMutations('barber-2')).toEqual([
+      expect.objectContaining({ appointmentId: 'a2', userId: 'barber-2' }),
+    ]);
+  });
+});
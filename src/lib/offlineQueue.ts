@@ -0,0 +1,156 @@
+import { AppointmentStatus, AppointmentTransition } from './supabase';
+import { appointmentsRepo } from './repos/appointmentsRepo';
+import type { RepoError } from './repos/result';
+
+// Appointment status changes made while the shop's connection is down are kept in
+// IndexedDB so they survive a reload, and replayed in the order they were made. Each change
+// belongs to the barber who made it and is only replayed while they are signed in, so a
+// shared device never saves one barber's changes under another's account.
+
+const DB_NAME = 'barberEasy';
+const DB_VERSION = 1;
+const STORE = 'pendingMutations';
+
+export type PendingMutation = {
+  id: number;
+  userId: string;
+  appointmentId: string;
+  transition: AppointmentTransition;
+  // The status the barber saw when acting. If the appointment has moved on by the time
+  // the change is replayed, someone else got there first.
+  expectedStatus: AppointmentStatus;
+  label: string;
+  queuedAt: string;
+};
+
+export type MutationConflict = {
+  mutation: PendingMutation;
+  reason: string;
+};
+
+export type ReplayResult = {
+  replayed: number;
+  conflicts: MutationConflict[];
+  // False when the connection dropped again before the queue was empty.
+  completed: boolean;
+};
+
+// Status an appointment ends up in after each transition.
+export const transitionStatuses: Record<AppointmentTransition, AppointmentStatus> = {
+  start: 'in_progress',
+  complete: 'completed',
+  no_show: 'no_show',
+  cancel: 'cancelled',
+};
+
+let database: Promise<IDBDatabase> | null = null;
+const replaying = new Map<string, Promise<ReplayResult>>();
+
+function openDatabase() {
+  if (!database) {
+    database = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+        store.createIndex('userId', 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    });
+  }
+  return database;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Requests that never reached the database come back without a Postgres error code.
+export function isNetworkError(error: RepoError) {
+  return !navigator.onLine || !error.code;
+}
+
+export function listPendingMutations(userId: string) {
+  // Keys are auto-incremented and the index keeps them in key order for each user, so this
+  // is the order the changes were made in.
+  return withStore<PendingMutation[]>('readonly', store => store.index('userId').getAll(userId));
+}
+
+export async function queueMutation(mutation: Omit<PendingMutation, 'id' | 'queuedAt'>) {
+  await withStore('readwrite', store => store.add({ ...mutation, queuedAt: new Date().toISOString() }));
+}
+
+function removeMutation(id: number) {
+  return withStore('readwrite', store => store.delete(id));
+}
+
+async function replayPending(userId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { replayed: 0, conflicts: [], completed: true };
+  // Later changes to an appointment build on earlier ones, so once one conflicts the
+  // rest for that appointment are dropped with it.
+  const conflicted = new Set<string>();
+
+  const rejectMutation = async (mutation: PendingMutation, reason: string) => {
+    conflicted.add(mutation.appointmentId);
+    result.conflicts.push({ mutation, reason });
+    await removeMutation(mutation.id);
+  };
+
+  for (const mutation of await listPendingMutations(userId)) {
+    if (conflicted.has(mutation.appointmentId)) {
+      await rejectMutation(mutation, 'An earlier change to this appointment could not be saved');
+      continue;
+    }
+
+    const { data: status, error: readError } = await appointmentsRepo.getStatus(mutation.appointmentId);
+
+    if (readError && isNetworkError(readError)) {
+      result.completed = false;
+      break;
+    }
+    if (!status) {
+      await rejectMutation(mutation, 'The appointment was removed');
+      continue;
+    }
+    if (status !== mutation.expectedStatus) {
+      await rejectMutation(mutation, `Someone else already marked it ${status.replace(/_/g, ' ')}`);
+      continue;
+    }
+
+    const { error } = await appointmentsRepo.transition(mutation.appointmentId, mutation.transition);
+    if (error && isNetworkError(error)) {
+      result.completed = false;
+      break;
+    }
+    if (error) {
+      await rejectMutation(mutation, error.message);
+      continue;
+    }
+
+    await removeMutation(mutation.id);
+    result.replayed += 1;
+  }
+
+  return result;
+}
+
+// Replays a barber's queued changes in order. Concurrent calls share the replay already
+// running.
+export function replayMutations(userId: string) {
+  let replay = replaying.get(userId);
+  if (!replay) {
+    replay = replayPending(userId).finally(() => {
+      replaying.delete(userId);
+    });
+    replaying.set(userId, replay);
+  }
+  return replay;
+}
@@ -0,0 +1,8 @@
+const PHONE_PATTERN = /^\+?[0-9]{7,15}$/;
+
+// Strips spaces and punctuation and returns the number in the form the profiles table
+// accepts, or null when it is not a valid phone number.
+export function normalizePhone(input: string) {
+  const phone = input.replace(/[^0-9+]/g, '');
+  return PHONE_PATTERN.test(phone) ? phone : null;
+}
@@ -0,0 +1,38 @@
+// Browser notifications for queue updates. The service worker in `public/sw.js` shows what
+// the send-notifications Edge Function pushes; the subscription is stored per profile by
+// notificationsRepo.
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+const vapidPublicKey = import.meta.env.VITE_VAPID_PUBLIC_KEY;
+
+// False when the browser can't do Web Push or this deployment has no VAPID key.
+export function isPushSupported() {
+  return Boolean(vapidPublicKey)
+    && 'serviceWorker' in navigator
+    && 'PushManager' in window
+    && 'Notification' in window;
+}
+
+export function pushPermission() {
+  return Notification.permission;
+}
+
+export async function getPushSubscription() {
+  const registration = await navigator.serviceWorker.getRegistration(SERVICE_WORKER_URL);
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+// Asks for permission if needed and subscribes this browser. Resolves to null when the
+// user doesn't allow notifications.
+export async function subscribeToPush() {
+  if (await Notification.requestPermission() !== 'granted') return null;
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  const registration = await navigator.serviceWorker.ready;
+  const existing = await registration.pushManager.getSubscription();
+  return existing ?? registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: vapidPublicKey,
+  });
+}
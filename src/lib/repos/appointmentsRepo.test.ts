@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockSupabase } from '../../test/mockSupabase';
+import { appointmentsRepo } from './appointmentsRepo';
+
+vi.mock('../supabase', async () => {
+  const { mockSupabase } = await import('../../test/mockSupabase');
+  return { supabase: mockSupabase.client };
+});
+
+beforeEach(() => {
+  mockSupabase.reset();
+});
+
+describe('appointmentsRepo', () => {
+  it('loads the active queue for a shop in queue order', async () => {
+    mockSupabase.respond('appointments', { data: [{ id: 'a1', status: 'waiting' }] });
+
+    const result = await appointmentsRepo.listActiveForShop('s1');
+
+    expect(result).toEqual({ data: [{ id: 'a1', status: 'waiting' }], error: null });
+    expect(mockSupabase.callsFor('appointments')).toEqual(expect.arrayContaining([
+      ['eq', ['shop_id', 's1']],
+      ['in', ['status', ['waiting', 'in_progress']]],
+      ['order', ['queue_position']],
+    ]));
+  });
+
+  it('books a walk-in without a scheduled time', async () => {
+    mockSupabase.respond('book_appointment', { data: { id: 'a1', queue_position: 3 } });
+
+    const result = await appointmentsRepo.book({ shopId: 's1', serviceId: 'svc1', notes: '' });
+
+    expect(result.data).toEqual({ id: 'a1', queue_position: 3 });
+    expect(mockSupabase.callsFor('book_appointment')[0]).toEqual(['rpc', [{
+      p_shop_id: 's1',
+      p_service_id: 'svc1',
+      p_notes: undefined,
+      p_preferred_barber_id: undefined,
+    }]]);
+  });
+
+  it('books a scheduled appointment when a time is given', async () => {
+    await appointmentsRepo.book({
+      shopId: 's1',
+      serviceId: 'svc1',
+      scheduledAt: '2025-11-20T10:00:00Z',
+      preferredBarberId: 'b1',
+    });
+
+    expect(mockSupabase.callsFor('book_scheduled_appointment')[0]).toEqual(['rpc', [{
+      p_shop_id: 's1',
+      p_service_id: 'svc1',
+      p_scheduled_at: '2025-11-20T10:00:00Z',
+      p_notes: undefined,
+      p_preferred_barber_id: 'b1',
+    }]]);
+  });
+
+  it('passes the database message through when a booking is refused', async () => {
+    mockSupabase.respond('book_scheduled_appointment', {
+      error: { message: 'That time slot is not available', code: 'P0001' },
+    });
+
+    const result = await appointmentsRepo.book({ shopId: 's1', serviceId: 'svc1', scheduledAt: '2025-11-20T10:00:00Z' });
+
+    expect(result).toEqual({ data: null, error: { message: 'That time slot is not available', code: 'P0001' } });
+  });
+
+  it('calls the RPC for each status transition', async () => {
+    await appointmentsRepo.transition('a1', 'start');
+    await appointmentsRepo.transition('a2', 'no_show');
+
+    expect(mockSupabase.callsFor('start_appointment')[0]).toEqual(['rpc', [{ p_appointment_id: 'a1' }]]);
+    expect(mockSupabase.callsFor('mark_appointment_no_show')[0]).toEqual(['rpc', [{ p_appointment_id: 'a2' }]]);
+  });
+
+  it('reports a refused transition with the fallback message', async () => {
+    mockSupabase.respond('complete_appointment', { error: { message: '', code: 'P0001' } });
+
+    expect(await appointmentsRepo.transition('a1', 'complete')).toEqual({
+      data: null,
+      error: { message: 'Failed to update appointment', code: 'P0001' },
+    });
+  });
+
+  it('pages history and returns the total count', async () => {
+    mockSupabase.respond('appointments', { data: [{ id: 'a1' }], count: 41 });
+
+    const result = await appointmentsRepo.listHistory({
+      customerId: 'c1',
+      statuses: ['completed'],
+      shopId: 's1',
+      offset: 20,
+      limit: 20,
+    });
+
+    expect(result.data).toEqual({ appointments: [{ id: 'a1' }], total: 41 });
+    expect(mockSupabase.callsFor('appointments')).toEqual(expect.arrayContaining([
+      ['eq', ['shop_id', 's1']],
+      ['range', [20, 39]],
+    ]));
+    expect(mockSupabase.callsFor('appointments').map(([method]) => method)).not.toContain('gte');
+  });
+
+  it('returns the appointment status or null when it is gone', async () => {
+    mockSupabase.respond('appointments', { data: { status: 'in_progress' } });
+    expect(await appointmentsRepo.getStatus('a1')).toEqual({ data: 'in_progress', error: null });
+
+    mockSupabase.reset();
+    expect(await appointmentsRepo.getStatus('a1')).toEqual({ data: null, error: null });
+  });
+
+  it('reports the first failing analytics query', async () => {
+    mockSupabase.respond('get_daily_throughput', { error: { message: 'Not a member of this shop', code: 'P0001' } });
+
+    const result = await appointmentsRepo.getAnalytics({ shopId: 's1', from: '2025-11-01', to: '2025-11-30' });
+
+    expect(result).toEqual({ data: null, error: { message: 'Not a member of this shop', code: 'P0001' } });
+  });
+});
@@ -0,0 +1,333 @@
+import {
+  supabase,
+  Appointment,
+  AppointmentEvent,
+  AppointmentStatus,
+  AppointmentTransition,
+  Profile,
+  Shop,
+  WaitEstimate,
+  AnalyticsSummary,
+  DailyThroughput,
+  ServiceTimeStats,
+  BusyHour,
+} from '../supabase';
+import { toResult, RepoResult } from './result';
+
+export type QueueAppointment = Appointment & {
+  customer: Profile | null;
+  preferred_barber: Pick<Profile, 'full_name'> | null;
+};
+
+export type CustomerAppointment = Appointment & {
+  preferred_barber: Pick<Profile, 'full_name'> | null;
+};
+
+export type CalendarAppointment = Appointment & {
+  customer: Profile | null;
+};
+
+export type HistoryAppointment = Appointment & {
+  shop: Pick<Shop, 'id' | 'name'> | null;
+  barber: Pick<Profile, 'full_name'> | null;
+};
+
+export type DetailAppointment = Appointment & {
+  shop: Pick<Shop, 'name'> | null;
+  customer: Pick<Profile, 'full_name'> | null;
+  barber: Pick<Profile, 'full_name'> | null;
+};
+
+export type TimelineEvent = AppointmentEvent & {
+  actor: Pick<Profile, 'full_name'> | null;
+};
+
+export type HistoryFilter = {
+  customerId: string;
+  statuses: AppointmentStatus[];
+  shopId?: string;
+  from?: string;
+  to?: string;
+  offset: number;
+  limit: number;
+};
+
+export type BookingRequest = {
+  shopId: string;
+  serviceId: string;
+  notes?: string;
+  preferredBarberId?: string;
+  // Walk-in when empty.
+  scheduledAt?: string;
+};
+
+export type GuestCheckInRequest = {
+  shopId: string;
+  serviceId: string;
+  guestName: string;
+  guestPhone?: string;
+};
+
+export type AnalyticsFilter = {
+  shopId?: string;
+  barberId?: string;
+  from: string;
+  to: string;
+};
+
+export type Analytics = {
+  summary: AnalyticsSummary | null;
+  throughput: DailyThroughput[];
+  serviceStats: ServiceTimeStats[];
+  busyHours: BusyHour[];
+};
+
+const appointmentTransitionRpcs = {
+  start: 'start_appointment',
+  complete: 'complete_appointment',
+  no_show: 'mark_appointment_no_show',
+  cancel: 'cancel_appointment',
+} as const satisfies Record<AppointmentTransition, string>;
+
+// Calls `onChange` whenever an appointment matching the realtime filter changes, and
+// returns a function that stops listening.
+function subscribe(channelName: string, filter: string, onChange: () => void) {
+  const channel = supabase
+    .channel(channelName)
+    .on('postgres_changes', {
+      event: '*',
+      schema: 'public',
+      table: 'appointments',
+      filter,
+    }, onChange)
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
+
+export const appointmentsRepo = {
+  async listActiveForShop(shopId: string): Promise<RepoResult<QueueAppointment[]>> {
+    const response = await supabase
+      .from('appointments')
+      .select(`
+        *,
+        customer:profiles!appointments_customer_id_fkey(*),
+        preferred_barber:profiles!appointments_preferred_barber_id_fkey(full_name)
+      `)
+      .eq('shop_id', shopId)
+      .in('status', ['waiting', 'in_progress'])
+      .order('queue_position')
+      .overrideTypes<QueueAppointment[], { merge: false }>();
+    return toResult(response, 'Failed to load the queue');
+  },
+
+  async listActiveForCustomer(customerId: string): Promise<RepoResult<CustomerAppointment[]>> {
+    const response = await supabase
+      .from('appointments')
+      .select(`
+        *,
+        preferred_barber:profiles!appointments_preferred_barber_id_fkey(full_name)
+      `)
+      .eq('customer_id', customerId)
+      .in('status', ['waiting', 'in_progress'])
+      .order('created_at', { ascending: false })
+      .overrideTypes<CustomerAppointment[], { merge: false }>();
+    return toResult(response, 'Failed to load your appointments');
+  },
+
+  // Scheduled appointments on the day, plus walk-ins served that day.
+  async listForDay(shopId: string, start: string, end: string): Promise<RepoResult<CalendarAppointment[]>> {
+    const response = await supabase
+      .from('appointments')
+      .select(`
+        *,
+        customer:profiles!appointments_customer_id_fkey(*)
+      `)
+      .eq('shop_id', shopId)
+      .not('status', 'in', '(cancelled,no_show)')
+      .or(`and(scheduled_at.gte.${start},scheduled_at.lt.${end}),and(booking_type.eq.walk_in,started_at.gte.${start},started_at.lt.${end})`)
+      .overrideTypes<CalendarAppointment[], { merge: false }>();
+    return toResult(response, 'Failed to load the calendar');
+  },
+
+  async listHistory(filter: HistoryFilter): Promise<RepoResult<{ appointments: HistoryAppointment[]; total: number }>> {
+    let query = supabase
+      .from('appointments')
+      .select(`
+        *,
+        shop:shops(id, name),
+        barber:profiles!appointments_barber_id_fkey(full_name)
+      `, { count: 'exact' })
+      .eq('customer_id', filter.customerId)
+      .in('status', filter.statuses);
+
+    if (filter.shopId) query = query.eq('shop_id', filter.shopId);
+    if (filter.from) query = query.gte('created_at', filter.from);
+    if (filter.to) query = query.lte('created_at', filter.to);
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(filter.offset, filter.offset + filter.limit - 1)
+      .overrideTypes<HistoryAppointment[], { merge: false }>();
+
+    return toResult(
+      { data: data && { appointments: data, total: count ?? 0 }, error },
+      'Failed to load your visit history'
+    );
+  },
+
+  async getDetail(appointmentId: string): Promise<RepoResult<{ appointment: DetailAppointment | null; events: TimelineEvent[] }>> {
+    const [appointmentResponse, eventResponse] = await Promise.all([
+      supabase
+        .from('appointments')
+        .select(`
+          *,
+          shop:shops(name),
+          customer:profiles!appointments_customer_id_fkey(full_name),
+          barber:profiles!appointments_barber_id_fkey(full_name)
+        `)
+        .eq('id', appointmentId)
+        .maybeSingle()
+        .overrideTypes<DetailAppointment, { merge: false }>(),
+      supabase
+        .from('appointment_events')
+        .select('*, actor:profiles!appointment_events_actor_id_fkey(full_name)')
+        .eq('appointment_id', appointmentId)
+        .order('created_at')
+        .overrideTypes<TimelineEvent[], { merge: false }>(),
+    ]);
+
+    return toResult(
+      {
+        data: { appointment: appointmentResponse.data, events: eventResponse.data ?? [] },
+        error: appointmentResponse.error ?? eventResponse.error,
+      },
+      'Failed to load the appointment'
+    );
+  },
+
+  async getStatus(appointmentId: string): Promise<RepoResult<AppointmentStatus | null>> {
+    const response = await supabase
+      .from('appointments')
+      .select('status')
+      .eq('id', appointmentId)
+      .maybeSingle();
+    return toResult(
+      { data: (response.data?.status ?? null) as AppointmentStatus | null, error: response.error },
+      'Failed to load the appointment'
+    );
+  },
+
+  async book(request: BookingRequest): Promise<RepoResult<Appointment>> {
+    const response = request.scheduledAt
+      ? await supabase
+          .rpc('book_scheduled_appointment', {
+            p_shop_id: request.shopId,
+            p_service_id: request.serviceId,
+            p_scheduled_at: request.scheduledAt,
+            p_notes: request.notes || undefined,
+            p_preferred_barber_id: request.preferredBarberId || undefined,
+          })
+          .overrideTypes<Appointment, { merge: false }>()
+      : await supabase
+          .rpc('book_appointment', {
+            p_shop_id: request.shopId,
+            p_service_id: request.serviceId,
+            p_notes: request.notes || undefined,
+            p_preferred_barber_id: request.preferredBarberId || undefined,
+          })
+          .overrideTypes<Appointment, { merge: false }>();
+    return toResult(response, 'Failed to create appointment');
+  },
+
+  async checkInGuest(request: GuestCheckInRequest): Promise<RepoResult<Appointment>> {
+    const response = await supabase
+      .rpc('check_in_guest', {
+        p_shop_id: request.shopId,
+        p_service_id: request.serviceId,
+        p_guest_name: request.guestName,
+        p_guest_phone: request.guestPhone || undefined,
+      })
+      .overrideTypes<Appointment, { merge: false }>();
+    return toResult(response, 'Failed to check in');
+  },
+
+  // Status changes go through RPCs so the database can enforce allowed transitions and set
+  // the service timestamps.
+  async transition(appointmentId: string, transition: AppointmentTransition): Promise<RepoResult<Appointment>> {
+    const response = await supabase
+      .rpc(appointmentTransitionRpcs[transition], { p_appointment_id: appointmentId })
+      .overrideTypes<Appointment, { merge: false }>();
+    return toResult(response, 'Failed to update appointment');
+  },
+
+  async move(appointmentId: string, beforeAppointmentId: string | null): Promise<RepoResult<null>> {
+    const response = await supabase.rpc('move_appointment', {
+      p_appointment_id: appointmentId,
+      p_before_appointment_id: beforeAppointmentId ?? undefined,
+    });
+    return toResult({ data: null, error: response.error }, 'Failed to reorder queue');
+  },
+
+  async skip(appointmentId: string, places: number): Promise<RepoResult<null>> {
+    const response = await supabase.rpc('skip_appointment', {
+      p_appointment_id: appointmentId,
+      p_places: places,
+    });
+    return toResult({ data: null, error: response.error }, 'Failed to move customer back');
+  },
+
+  async getAvailableSlots(shopId: string, serviceId: string, date: string, barberId?: string): Promise<RepoResult<string[]>> {
+    const response = await supabase.rpc('get_available_slots', {
+      p_shop_id: shopId,
+      p_service_id: serviceId,
+      p_date: date,
+      p_barber_id: barberId || undefined,
+    });
+    return toResult(response, 'Failed to load available times');
+  },
+
+  async getMyWaitEstimates(): Promise<RepoResult<WaitEstimate[]>> {
+    const response = await supabase.rpc('get_my_wait_estimates');
+    return toResult(response, 'Failed to load wait estimates');
+  },
+
+  async getAnalytics(filter: AnalyticsFilter): Promise<RepoResult<Analytics>> {
+    const params = {
+      p_shop_id: filter.shopId || undefined,
+      p_barber_id: filter.barberId || undefined,
+      p_from: filter.from,
+      p_to: filter.to,
+    };
+
+    const [summaryResult, throughputResult, serviceResult, hoursResult] = await Promise.all([
+      supabase.rpc('get_analytics_summary', params).maybeSingle().overrideTypes<AnalyticsSummary, { merge: false }>(),
+      supabase.rpc('get_daily_throughput', params),
+      supabase.rpc('get_service_time_stats', params).overrideTypes<ServiceTimeStats[], { merge: false }>(),
+      supabase.rpc('get_busiest_hours', params),
+    ]);
+
+    return toResult(
+      {
+        data: {
+          summary: summaryResult.data,
+          throughput: throughputResult.data ?? [],
+          serviceStats: serviceResult.data ?? [],
+          busyHours: hoursResult.data ?? [],
+        },
+        error: summaryResult.error ?? throughputResult.error ?? serviceResult.error ?? hoursResult.error,
+      },
+      'Failed to load analytics'
+    );
+  },
+
+  subscribeToShop(shopId: string, onChange: () => void) {
+    return subscribe(`appointments_changes_${shopId}`, `shop_id=eq.${shopId}`, onChange);
+  },
+
+  subscribeToCustomer(customerId: string, onChange: () => void) {
+    return subscribe(`customer_appointments_${customerId}`, `customer_id=eq.${customerId}`, onChange);
+  },
+};
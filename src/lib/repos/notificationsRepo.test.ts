@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockSupabase } from '../../test/mockSupabase';
+import { notificationsRepo } from './notificationsRepo';
+
+vi.mock('../supabase', async () => {
+  const { mockSupabase } = await import('../../test/mockSupabase');
+  return { supabase: mockSupabase.client };
+});
+
+beforeEach(() => {
+  mockSupabase.reset();
+});
+
+describe('notificationsRepo', () => {
+  it('returns null preferences until they are first saved', async () => {
+    expect(await notificationsRepo.getPreferences('p1')).toEqual({ data: null, error: null });
+  });
+
+  it('saves preferences for the profile', async () => {
+    await notificationsRepo.savePreferences('p1', { email_enabled: true, sms_enabled: false });
+
+    const [, [values]] = mockSupabase.callsFor('notification_preferences').find(([method]) => method === 'upsert')!;
+    expect(values).toMatchObject({ profile_id: 'p1', email_enabled: true, sms_enabled: false });
+  });
+
+  it('stores a push subscription once per browser', async () => {
+    await notificationsRepo.savePushSubscription('p1', {
+      endpoint: 'https://push.example/abc',
+      keys: { p256dh: 'key', auth: 'secret' },
+    });
+
+    expect(mockSupabase.callsFor('push_subscriptions')).toContainEqual(['upsert', [
+      { profile_id: 'p1', endpoint: 'https://push.example/abc', p256dh: 'key', auth: 'secret' },
+      { onConflict: 'profile_id,endpoint' },
+    ]]);
+  });
+
+  it('tells whether this browser is subscribed for the profile', async () => {
+    mockSupabase.respond('push_subscriptions', { data: { id: 'sub1' } });
+    expect(await notificationsRepo.hasPushSubscription('p1', 'https://push.example/abc')).toEqual({ data: true, error: null });
+
+    expect(await notificationsRepo.hasPushSubscription('p1', 'https://push.example/abc')).toEqual({ data: false, error: null });
+  });
+
+  it('reports a failed opt-out', async () => {
+    mockSupabase.respond('push_subscriptions', { error: { message: '', code: '42501' } });
+
+    expect(await notificationsRepo.deletePushSubscription('p1', 'https://push.example/abc')).toEqual({
+      data: null,
+      error: { message: 'Failed to turn off notifications', code: '42501' },
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import { supabase, NotificationPreferences } from '../supabase';
+import { toResult, RepoResult } from './result';
+
+export type NotificationPreferencesInput = Pick<NotificationPreferences, 'email_enabled' | 'sms_enabled'>;
+
+export const notificationsRepo = {
+  // Null until the user saves their preferences for the first time; everything is off.
+  async getPreferences(profileId: string): Promise<RepoResult<NotificationPreferences | null>> {
+    const response = await supabase
+      .from('notification_preferences')
+      .select('*')
+      .eq('profile_id', profileId)
+      .maybeSingle();
+    return toResult(response, 'Failed to load notification settings');
+  },
+
+  async savePreferences(profileId: string, preferences: NotificationPreferencesInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('notification_preferences')
+      .upsert({ ...preferences, profile_id: profileId, updated_at: new Date().toISOString() });
+    return toResult({ data: null, error: response.error }, 'Failed to save notification settings');
+  },
+
+  // Keyed on the browser's endpoint, so subscribing again from the same browser refreshes
+  // its keys instead of adding a second subscription.
+  async savePushSubscription(profileId: string, subscription: PushSubscriptionJSON): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('push_subscriptions')
+      .upsert(
+        {
+          profile_id: profileId,
+          endpoint: subscription.endpoint!,
+          p256dh: subscription.keys!.p256dh,
+          auth: subscription.keys!.auth,
+        },
+        { onConflict: 'profile_id,endpoint' }
+      );
+    return toResult({ data: null, error: response.error }, 'Failed to turn on notifications');
+  },
+
+  async hasPushSubscription(profileId: string, endpoint: string): Promise<RepoResult<boolean>> {
+    const response = await supabase
+      .from('push_subscriptions')
+      .select('id')
+      .eq('profile_id', profileId)
+      .eq('endpoint', endpoint)
+      .maybeSingle();
+    return toResult({ data: response.data !== null, error: response.error }, 'Failed to load notification settings');
+  },
+
+  async deletePushSubscription(profileId: string, endpoint: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('push_subscriptions')
+      .delete()
+      .eq('profile_id', profileId)
+      .eq('endpoint', endpoint);
+    return toResult({ data: null, error: response.error }, 'Failed to turn off notifications');
+  },
+};
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockSupabase } from '../../test/mockSupabase';
+import { profilesRepo } from './profilesRepo';
+
+vi.mock('../supabase', async () => {
+  const { mockSupabase } = await import('../../test/mockSupabase');
+  return { supabase: mockSupabase.client };
+});
+
+beforeEach(() => {
+  mockSupabase.reset();
+});
+
+describe('profilesRepo', () => {
+  it('loads a profile by id', async () => {
+    const profile = { id: 'p1', full_name: 'Alice Anders', role: 'customer' };
+    mockSupabase.respond('profiles', { data: profile });
+
+    const result = await profilesRepo.get('p1');
+
+    expect(result).toEqual({ data: profile, error: null });
+    expect(mockSupabase.callsFor('profiles')).toContainEqual(['eq', ['id', 'p1']]);
+    expect(mockSupabase.callsFor('profiles').map(([method]) => method)).toContain('maybeSingle');
+  });
+
+  it('returns null without an error when there is no profile', async () => {
+    expect(await profilesRepo.get('p1')).toEqual({ data: null, error: null });
+  });
+
+  it('reports a failed profile load', async () => {
+    mockSupabase.respond('profiles', { error: { message: '', code: 'PGRST301' } });
+
+    expect(await profilesRepo.get('p1')).toEqual({
+      data: null,
+      error: { message: 'Failed to load your profile', code: 'PGRST301' },
+    });
+  });
+
+  it('keeps the unique violation code when the profile already exists', async () => {
+    mockSupabase.respond('profiles', { error: { message: 'duplicate key value', code: '23505' } });
+
+    const result = await profilesRepo.create({
+      id: 'p1',
+      email: 'alice@example.com',
+      full_name: 'Alice Anders',
+      role: 'customer',
+      phone: null,
+    });
+
+    expect(result.error?.code).toBe('23505');
+  });
+
+  it('stamps updated_at when saving a profile', async () => {
+    await profilesRepo.update('p1', { full_name: 'Alice A', phone: '+15551230000' });
+
+    const [, [values]] = mockSupabase.callsFor('profiles').find(([method]) => method === 'update')!;
+    expect(values).toMatchObject({ full_name: 'Alice A', phone: '+15551230000' });
+    expect(values).toHaveProperty('updated_at');
+    expect(mockSupabase.callsFor('profiles')).toContainEqual(['eq', ['id', 'p1']]);
+  });
+
+  it('keys names by profile id', async () => {
+    mockSupabase.respond('profiles', {
+      data: [
+        { id: 'p1', full_name: 'Alice Anders' },
+        { id: 'p2', full_name: 'Bob Brown' },
+      ],
+    });
+
+    const result = await profilesRepo.getNames(['p1', 'p2']);
+
+    expect(result.data).toEqual({ p1: 'Alice Anders', p2: 'Bob Brown' });
+    expect(mockSupabase.callsFor('profiles')).toContainEqual(['in', ['id', ['p1', 'p2']]]);
+  });
+
+  it('does not query for names of nobody', async () => {
+    expect(await profilesRepo.getNames([])).toEqual({ data: {}, error: null });
+    expect(mockSupabase.queries).toHaveLength(0);
+  });
+
+  it('reports the first failing part of a barber week', async () => {
+    mockSupabase.respond('barber_schedules', { data: [{ id: 's1' }] });
+    mockSupabase.respond('barber_breaks', { error: { message: 'permission denied', code: '42501' } });
+
+    const result = await profilesRepo.getWeek('shop1', 'p1');
+
+    expect(result).toEqual({ data: null, error: { message: 'permission denied', code: '42501' } });
+  });
+
+  it('deletes the account through the RPC', async () => {
+    expect(await profilesRepo.deleteMyAccount()).toEqual({ data: null, error: null });
+    expect(mockSupabase.callsFor('delete_my_account')).toEqual([['rpc', []]]);
+  });
+});
@@ -0,0 +1,131 @@
+import {
+  supabase,
+  BarberBreak,
+  BarberSchedule,
+  BarberTimeOff,
+  Profile,
+} from '../supabase';
+import type { TablesInsert } from '../database.types';
+import { toResult, RepoResult } from './result';
+
+export type ProfileInput = Pick<Profile, 'full_name' | 'phone'>;
+
+export type WeeklyTable = 'barber_schedules' | 'barber_breaks';
+
+export type WeeklyEntryInput = Pick<TablesInsert<'barber_schedules'>, 'shop_id' | 'barber_id' | 'day_of_week' | 'start_time' | 'end_time'>;
+
+export type TimeOffInput = Pick<TablesInsert<'barber_time_off'>, 'shop_id' | 'barber_id' | 'starts_at' | 'ends_at' | 'reason'>;
+
+export type BarberWeek = {
+  schedules: BarberSchedule[];
+  breaks: BarberBreak[];
+  // Only time off that has not ended yet.
+  timeOff: BarberTimeOff[];
+};
+
+export const profilesRepo = {
+  async get(profileId: string): Promise<RepoResult<Profile | null>> {
+    const response = await supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', profileId)
+      .maybeSingle()
+      .overrideTypes<Profile, { merge: false }>();
+    return toResult(response, 'Failed to load your profile');
+  },
+
+  // Fails with code '23505' when the profile already exists.
+  async create(profile: Pick<Profile, 'id' | 'email' | 'full_name' | 'role' | 'phone'>): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('profiles')
+      .insert(profile);
+    return toResult({ data: null, error: response.error }, 'Failed to create your profile');
+  },
+
+  async update(profileId: string, profile: ProfileInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('profiles')
+      .update({ ...profile, updated_at: new Date().toISOString() })
+      .eq('id', profileId);
+    return toResult({ data: null, error: response.error }, 'Failed to save your profile');
+  },
+
+  // Full names keyed by profile id.
+  async getNames(profileIds: string[]): Promise<RepoResult<Record<string, string>>> {
+    if (profileIds.length === 0) return { data: {}, error: null };
+
+    const { data, error } = await supabase
+      .from('profiles')
+      .select('id, full_name')
+      .in('id', profileIds);
+    return toResult(
+      { data: data && Object.fromEntries(data.map(profile => [profile.id, profile.full_name])), error },
+      'Failed to load names'
+    );
+  },
+
+  async deleteMyAccount(): Promise<RepoResult<null>> {
+    const response = await supabase.rpc('delete_my_account');
+    return toResult({ data: null, error: response.error }, 'Failed to delete account');
+  },
+
+  async getWeek(shopId: string, barberId: string): Promise<RepoResult<BarberWeek>> {
+    const [scheduleResponse, breakResponse, timeOffResponse] = await Promise.all([
+      supabase
+        .from('barber_schedules')
+        .select('*')
+        .eq('shop_id', shopId)
+        .eq('barber_id', barberId)
+        .order('day_of_week')
+        .order('start_time'),
+      supabase
+        .from('barber_breaks')
+        .select('*')
+        .eq('shop_id', shopId)
+        .eq('barber_id', barberId)
+        .order('day_of_week')
+        .order('start_time'),
+      supabase
+        .from('barber_time_off')
+        .select('*')
+        .eq('shop_id', shopId)
+        .eq('barber_id', barberId)
+        .gte('ends_at', new Date().toISOString())
+        .order('starts_at'),
+    ]);
+
+    return toResult(
+      {
+        data: {
+          schedules: scheduleResponse.data ?? [],
+          breaks: breakResponse.data ?? [],
+          timeOff: timeOffResponse.data ?? [],
+        },
+        error: scheduleResponse.error ?? breakResponse.error ?? timeOffResponse.error,
+      },
+      'Failed to load your schedule'
+    );
+  },
+
+  async addWeeklyEntry(table: WeeklyTable, entry: WeeklyEntryInput): Promise<RepoResult<null>> {
+    const response = table === 'barber_schedules'
+      ? await supabase.from('barber_schedules').insert(entry)
+      : await supabase.from('barber_breaks').insert(entry);
+    return toResult({ data: null, error: response.error }, 'Failed to add entry');
+  },
+
+  async addTimeOff(entry: TimeOffInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('barber_time_off')
+      .insert(entry);
+    return toResult({ data: null, error: response.error }, 'Failed to add time off');
+  },
+
+  async deleteScheduleEntry(table: WeeklyTable | 'barber_time_off', entryId: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from(table)
+      .delete()
+      .eq('id', entryId);
+    return toResult({ data: null, error: response.error }, 'Failed to delete entry');
+  },
+};
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import type { PostgrestError } from '@supabase/supabase-js';
+import { toResult } from './result';
+
+function postgrestError(fields: Partial<PostgrestError>) {
+  return { message: '', details: '', hint: '', code: '', ...fields } as PostgrestError;
+}
+
+describe('toResult', () => {
+  it('passes data through when there is no error', () => {
+    expect(toResult({ data: [1, 2], error: null }, 'Failed')).toEqual({ data: [1, 2], error: null });
+  });
+
+  it('keeps null data from a query that found nothing', () => {
+    expect(toResult({ data: null, error: null }, 'Failed')).toEqual({ data: null, error: null });
+  });
+
+  it('maps a Supabase error to its message and Postgres code', () => {
+    const error = postgrestError({ message: 'duplicate key value', code: '23505' });
+
+    expect(toResult({ data: null, error }, 'Failed to save')).toEqual({
+      data: null,
+      error: { message: 'duplicate key value', code: '23505' },
+    });
+  });
+
+  it('falls back to the given message when the error has none', () => {
+    const error = postgrestError({ message: '', code: '42501' });
+
+    expect(toResult({ data: null, error }, 'Failed to save')).toEqual({
+      data: null,
+      error: { message: 'Failed to save', code: '42501' },
+    });
+  });
+
+  it('drops data that came back alongside an error', () => {
+    const error = postgrestError({ message: 'Network error' });
+
+    expect(toResult({ data: ['stale'], error }, 'Failed')).toEqual({
+      data: null,
+      error: { message: 'Network error', code: '' },
+    });
+  });
+
+  it('uses an empty code when the request never reached the database', () => {
+    const error = { message: 'TypeError: Failed to fetch' } as PostgrestError;
+
+    expect(toResult({ data: null, error }, 'Failed').error?.code).toBe('');
+  });
+});
@@ -0,0 +1,26 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+export type RepoError = {
+  message: string;
+  // Postgres error code, e.g. '23505' for a unique violation. Empty when the request
+  // never reached the database.
+  code: string;
+};
+
+// Repository calls never throw for database errors; they hand back a message the UI can
+// show as is.
+export type RepoResult<T> =
+  | { data: T; error: null }
+  | { data: null; error: RepoError };
+
+type Response<T> = {
+  data: T | null;
+  error: PostgrestError | null;
+};
+
+export function toResult<T>({ data, error }: Response<T>, fallbackMessage: string): RepoResult<T> {
+  if (error) {
+    return { data: null, error: { message: error.message || fallbackMessage, code: error.code ?? '' } };
+  }
+  return { data: data as T, error: null };
+}
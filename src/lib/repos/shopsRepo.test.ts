@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockSupabase } from '../../test/mockSupabase';
+import { shopsRepo } from './shopsRepo';
+
+vi.mock('../supabase', async () => {
+  const { mockSupabase } = await import('../../test/mockSupabase');
+  return { supabase: mockSupabase.client };
+});
+
+beforeEach(() => {
+  mockSupabase.reset();
+});
+
+describe('shopsRepo', () => {
+  it('lists shops by name', async () => {
+    mockSupabase.respond('shops', { data: [{ id: 's1', name: 'Alpha Cuts' }] });
+
+    const result = await shopsRepo.list();
+
+    expect(result).toEqual({ data: [{ id: 's1', name: 'Alpha Cuts' }], error: null });
+    expect(mockSupabase.callsFor('shops')).toContainEqual(['order', ['name']]);
+  });
+
+  it('reports a failed shop list with the fallback message', async () => {
+    mockSupabase.respond('shops', { error: { message: '' } });
+
+    expect(await shopsRepo.list()).toEqual({
+      data: null,
+      error: { message: 'Failed to load shops', code: '' },
+    });
+  });
+
+  it('sorts memberships by shop name and skips shops the barber can no longer see', async () => {
+    mockSupabase.respond('shop_barbers', {
+      data: [
+        { role: 'staff', shop: { id: 's2', name: 'Zed Barbers' } },
+        { role: 'owner', shop: null },
+        { role: 'owner', shop: { id: 's1', name: 'Alpha Cuts' } },
+      ],
+    });
+
+    const result = await shopsRepo.listMemberships('b1');
+
+    expect(result.data?.map(membership => membership.shop.name)).toEqual(['Alpha Cuts', 'Zed Barbers']);
+    expect(mockSupabase.callsFor('shop_barbers')).toContainEqual(['eq', ['barber_id', 'b1']]);
+  });
+
+  it('tells the only owner they could not leave', async () => {
+    mockSupabase.respond('shop_barbers', { data: [] });
+
+    expect(await shopsRepo.leave('s1', 'b1')).toEqual({ data: false, error: null });
+  });
+
+  it('normalises the invited email', async () => {
+    await shopsRepo.invite('s1', '  Bea@Example.COM ', 'staff', 'owner1');
+
+    const [, [values]] = mockSupabase.callsFor('shop_invitations').find(([method]) => method === 'insert')!;
+    expect(values).toEqual({ shop_id: 's1', email: 'bea@example.com', role: 'staff', invited_by: 'owner1' });
+  });
+
+  it('explains a duplicate invitation', async () => {
+    mockSupabase.respond('shop_invitations', { error: { message: 'duplicate key value', code: '23505' } });
+
+    expect(await shopsRepo.invite('s1', 'bea@example.com', 'staff', 'owner1')).toEqual({
+      data: null,
+      error: { message: 'This email already has a pending invitation', code: '23505' },
+    });
+  });
+
+  it('accepts and declines invitations through RPCs', async () => {
+    await shopsRepo.respondToInvitation('i1', true);
+    await shopsRepo.respondToInvitation('i2', false);
+
+    expect(mockSupabase.callsFor('accept_shop_invitation')).toEqual([['rpc', [{ p_invitation_id: 'i1' }]]]);
+    expect(mockSupabase.callsFor('decline_shop_invitation')).toEqual([['rpc', [{ p_invitation_id: 'i2' }]]]);
+  });
+
+  it('only filters services by active when asked', async () => {
+    await shopsRepo.listServices('s1');
+    expect(mockSupabase.callsFor('services')).not.toContainEqual(['eq', ['is_active', true]]);
+
+    mockSupabase.reset();
+    await shopsRepo.listServices('s1', { activeOnly: true });
+    expect(mockSupabase.callsFor('services')).toContainEqual(['eq', ['is_active', true]]);
+  });
+
+  it('flags a revoked display token', async () => {
+    mockSupabase.respond('get_display_queue', { error: { message: 'Invalid display link', code: 'P0001' } });
+
+    const result = await shopsRepo.getDisplayQueue('token');
+
+    expect(result.invalidToken).toBe(true);
+    expect(result.error).toEqual({ message: 'Invalid display link', code: 'P0001' });
+  });
+
+  it('does not mistake a dropped connection for a revoked display token', async () => {
+    mockSupabase.respond('get_display_queue', { error: { message: 'Failed to fetch' } });
+
+    expect((await shopsRepo.getDisplayQueue('token')).invalidToken).toBe(false);
+  });
+});
@@ -0,0 +1,294 @@
+import {
+  supabase,
+  DisplayQueue,
+  Profile,
+  Service,
+  Shop,
+  ShopDisplayToken,
+  ShopInvitation,
+  ShopRole,
+  ShopWaitTime,
+} from '../supabase';
+import type { TablesInsert, TablesUpdate } from '../database.types';
+import { toResult, RepoResult } from './result';
+
+export type Membership = {
+  role: ShopRole;
+  shop: Shop;
+};
+
+export type InvitationWithShop = ShopInvitation & {
+  shop: Pick<Shop, 'name' | 'address'> | null;
+};
+
+export type TeamMember = {
+  id: string;
+  role: ShopRole;
+  barber: Pick<Profile, 'id' | 'full_name' | 'email'>;
+};
+
+export type RosterBarber = Pick<Profile, 'id' | 'full_name'>;
+
+export type ShopInput = Pick<TablesInsert<'shops'>, 'name' | 'address' | 'phone' | 'opening_time' | 'closing_time' | 'timezone'>;
+
+export type ServiceInput = Pick<TablesInsert<'services'>, 'name' | 'price' | 'duration_minutes' | 'is_active'>;
+
+// Raised by get_display_queue when the token is unknown or revoked.
+const INVALID_DISPLAY_TOKEN_CODE = 'P0001';
+
+export const shopsRepo = {
+  async list(): Promise<RepoResult<Shop[]>> {
+    const response = await supabase
+      .from('shops')
+      .select('*')
+      .order('name')
+      .overrideTypes<Shop[], { merge: false }>();
+    return toResult(response, 'Failed to load shops');
+  },
+
+  async get(shopId: string): Promise<RepoResult<Shop | null>> {
+    const response = await supabase
+      .from('shops')
+      .select('*')
+      .eq('id', shopId)
+      .maybeSingle()
+      .overrideTypes<Shop, { merge: false }>();
+    return toResult(response, 'Failed to load the shop');
+  },
+
+  async create(shop: ShopInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shops')
+      .insert(shop);
+    return toResult({ data: null, error: response.error }, 'Failed to save shop');
+  },
+
+  async update(shopId: string, shop: ShopInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shops')
+      .update({ ...shop, updated_at: new Date().toISOString() })
+      .eq('id', shopId);
+    return toResult({ data: null, error: response.error }, 'Failed to save shop');
+  },
+
+  // Shops the barber works at, sorted by name.
+  async listMemberships(barberId: string): Promise<RepoResult<Membership[]>> {
+    const { data, error } = await supabase
+      .from('shop_barbers')
+      .select('role, shop:shops(*)')
+      .eq('barber_id', barberId)
+      .overrideTypes<{ role: ShopRole; shop: Shop | null }[], { merge: false }>();
+
+    const memberships = data && data
+      .filter((membership): membership is Membership => membership.shop !== null)
+      .sort((a, b) => a.shop.name.localeCompare(b.shop.name));
+    return toResult({ data: memberships, error }, 'Failed to load your shops');
+  },
+
+  // Returns false when the barber could not leave because they are the shop's only owner.
+  async leave(shopId: string, barberId: string): Promise<RepoResult<boolean>> {
+    const { data, error } = await supabase
+      .from('shop_barbers')
+      .delete()
+      .eq('shop_id', shopId)
+      .eq('barber_id', barberId)
+      .select();
+    return toResult({ data: data && data.length > 0, error }, 'Failed to leave shop');
+  },
+
+  async listRoster(shopId: string): Promise<RepoResult<RosterBarber[]>> {
+    const { data, error } = await supabase
+      .from('shop_barbers')
+      .select('barber:profiles!shop_barbers_barber_id_fkey(id, full_name)')
+      .eq('shop_id', shopId);
+
+    const roster = data && data
+      .map(item => item.barber)
+      .filter((barber): barber is RosterBarber => barber !== null)
+      .sort((a, b) => a.full_name.localeCompare(b.full_name));
+    return toResult({ data: roster, error }, 'Failed to load barbers');
+  },
+
+  async listTeam(shopId: string): Promise<RepoResult<{ members: TeamMember[]; invitations: ShopInvitation[] }>> {
+    const [memberResponse, invitationResponse] = await Promise.all([
+      supabase
+        .from('shop_barbers')
+        .select('id, role, barber:profiles!shop_barbers_barber_id_fkey(id, full_name, email)')
+        .eq('shop_id', shopId)
+        .order('created_at')
+        .overrideTypes<TeamMember[], { merge: false }>(),
+      supabase
+        .from('shop_invitations')
+        .select('*')
+        .eq('shop_id', shopId)
+        .eq('status', 'pending')
+        .order('created_at', { ascending: false })
+        .overrideTypes<ShopInvitation[], { merge: false }>(),
+    ]);
+
+    return toResult(
+      {
+        data: { members: memberResponse.data ?? [], invitations: invitationResponse.data ?? [] },
+        error: memberResponse.error ?? invitationResponse.error,
+      },
+      'Failed to load the team'
+    );
+  },
+
+  async changeMemberRole(membershipId: string, role: ShopRole): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shop_barbers')
+      .update({ role })
+      .eq('id', membershipId);
+    return toResult({ data: null, error: response.error }, 'Failed to change role');
+  },
+
+  async removeMember(membershipId: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shop_barbers')
+      .delete()
+      .eq('id', membershipId);
+    return toResult({ data: null, error: response.error }, 'Failed to remove barber');
+  },
+
+  async listInvitationsFor(email: string): Promise<RepoResult<InvitationWithShop[]>> {
+    const response = await supabase
+      .from('shop_invitations')
+      .select('*, shop:shops(name, address)')
+      .eq('email', email.toLowerCase())
+      .eq('status', 'pending')
+      .order('created_at', { ascending: false })
+      .overrideTypes<InvitationWithShop[], { merge: false }>();
+    return toResult(response, 'Failed to load invitations');
+  },
+
+  async invite(shopId: string, email: string, role: ShopInvitation['role'], invitedBy: string): Promise<RepoResult<null>> {
+    const { error } = await supabase
+      .from('shop_invitations')
+      .insert({
+        shop_id: shopId,
+        email: email.trim().toLowerCase(),
+        role,
+        invited_by: invitedBy,
+      });
+
+    if (error?.code === '23505') {
+      return { data: null, error: { message: 'This email already has a pending invitation', code: error.code } };
+    }
+    return toResult({ data: null, error }, 'Failed to send invitation');
+  },
+
+  async revokeInvitation(invitationId: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shop_invitations')
+      .update({ status: 'revoked', responded_at: new Date().toISOString() })
+      .eq('id', invitationId);
+    return toResult({ data: null, error: response.error }, 'Failed to revoke invitation');
+  },
+
+  async respondToInvitation(invitationId: string, accept: boolean): Promise<RepoResult<null>> {
+    const response = accept
+      ? await supabase.rpc('accept_shop_invitation', { p_invitation_id: invitationId })
+      : await supabase.rpc('decline_shop_invitation', { p_invitation_id: invitationId });
+    return toResult(
+      { data: null, error: response.error },
+      accept ? 'Failed to accept invitation' : 'Failed to decline invitation'
+    );
+  },
+
+  async listServices(shopId: string, { activeOnly = false } = {}): Promise<RepoResult<Service[]>> {
+    let query = supabase
+      .from('services')
+      .select('*')
+      .eq('shop_id', shopId);
+    if (activeOnly) query = query.eq('is_active', true);
+
+    const response = await query.order('name');
+    return toResult(response, 'Failed to load services');
+  },
+
+  async createService(shopId: string, service: ServiceInput): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('services')
+      .insert({ ...service, shop_id: shopId });
+    return toResult({ data: null, error: response.error }, 'Failed to save service');
+  },
+
+  async updateService(serviceId: string, service: TablesUpdate<'services'>): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('services')
+      .update({ ...service, updated_at: new Date().toISOString() })
+      .eq('id', serviceId);
+    return toResult({ data: null, error: response.error }, 'Failed to update service');
+  },
+
+  async deleteService(serviceId: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('services')
+      .delete()
+      .eq('id', serviceId);
+    return toResult({ data: null, error: response.error }, 'Failed to delete service');
+  },
+
+  async getWaitTimes(): Promise<RepoResult<ShopWaitTime[]>> {
+    const response = await supabase.rpc('get_shop_wait_times');
+    return toResult(response, 'Failed to load wait times');
+  },
+
+  async listDisplays(shopId: string): Promise<RepoResult<ShopDisplayToken[]>> {
+    const response = await supabase
+      .from('shop_display_tokens')
+      .select('*')
+      .eq('shop_id', shopId)
+      .is('revoked_at', null)
+      .order('created_at');
+    return toResult(response, 'Failed to load display links');
+  },
+
+  async createDisplay(shopId: string, label: string, createdBy: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shop_display_tokens')
+      .insert({ shop_id: shopId, label: label.trim(), created_by: createdBy });
+    return toResult({ data: null, error: response.error }, 'Failed to create display link');
+  },
+
+  async revokeDisplay(displayId: string): Promise<RepoResult<null>> {
+    const response = await supabase
+      .from('shop_display_tokens')
+      .update({ revoked_at: new Date().toISOString() })
+      .eq('id', displayId);
+    return toResult({ data: null, error: response.error }, 'Failed to revoke display link');
+  },
+
+  // `invalidToken` tells a revoked link apart from a dropped connection.
+  async getDisplayQueue(token: string): Promise<RepoResult<DisplayQueue> & { invalidToken: boolean }> {
+    const { data, error } = await supabase.rpc('get_display_queue', { p_token: token });
+    return {
+      ...toResult({ data: data as DisplayQueue | null, error }, 'Failed to load the queue'),
+      invalidToken: error?.code === INVALID_DISPLAY_TOKEN_CODE,
+    };
+  },
+
+  // Calls `onChange` when the queue counts of any of the shops change. `onStatus` receives
+  // the realtime channel status. Returns a function that stops listening.
+  subscribeToQueueStatus(
+    channelName: string,
+    shopIds: string[],
+    onChange: () => void,
+    onStatus?: (status: string) => void
+  ) {
+    const channel = supabase
+      .channel(channelName)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'shop_queue_status',
+        filter: shopIds.length === 1 ? `shop_id=eq.${shopIds[0]}` : `shop_id=in.(${shopIds.join(',')})`,
+      }, onChange)
+      .subscribe(onStatus);
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  },
+};
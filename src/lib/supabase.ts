@@ -1,4 +1,5 @@
 import { createClient } from '@supabase/supabase-js';
+import type { Database, Tables } from './database.types';
 
 const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
@@ -7,42 +8,112 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey);
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
 
-export type Profile = {
-  id: string;
-  email: string;
-  full_name: string;
+// Row types come from the generated `database.types.ts`. Check constraints are not part of
+// the generated types, so columns limited to a fixed set of values are narrowed here, as are
+// nullable columns that always get a default and are never cleared.
+export type Profile = Tables<'profiles'> & {
   role: 'barber' | 'customer';
-  phone?: string;
-  created_at: string;
-  updated_at: string;
 };
 
-export type Shop = {
-  id: string;
-  name: string;
-  address: string;
-  latitude?: number;
-  longitude?: number;
-  phone?: string;
+export type Shop = Tables<'shops'> & {
   opening_time: string;
   closing_time: string;
+};
+
+export type NotificationPreferences = Tables<'notification_preferences'>;
+
+export type ShopRole = 'owner' | 'manager' | 'staff';
+
+export type ShopBarber = Tables<'shop_barbers'> & {
+  role: ShopRole;
+};
+
+export type ShopInvitation = Tables<'shop_invitations'> & {
+  role: 'manager' | 'staff';
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+};
+
+export type ShopDisplayToken = Tables<'shop_display_tokens'>;
+
+export type Service = Tables<'services'>;
+
+export type BarberSchedule = Tables<'barber_schedules'>;
+
+export type BarberBreak = Tables<'barber_breaks'>;
+
+export type BarberTimeOff = Tables<'barber_time_off'>;
+
+export type AppointmentStatus = 'waiting' | 'in_progress' | 'completed' | 'cancelled' | 'no_show';
+
+export type Appointment = Tables<'appointments'> & {
   created_at: string;
-  updated_at: string;
+  status: AppointmentStatus;
+  booking_type: 'walk_in' | 'scheduled';
 };
 
-export type Appointment = {
-  id: string;
+export type AppointmentTransition = 'start' | 'complete' | 'no_show' | 'cancel';
+
+// Guests checked in at the front desk have a name but no profile.
+export function customerName(
+  appointment: Pick<Appointment, 'guest_name'> & { customer?: Pick<Profile, 'full_name'> | null }
+) {
+  return appointment.customer?.full_name ?? appointment.guest_name ?? 'Guest';
+}
+
+export type ShopWaitTime = {
   shop_id: string;
-  customer_id: string;
-  barber_id?: string;
-  status: 'waiting' | 'in_progress' | 'completed' | 'cancelled';
-  queue_position: number;
+  waiting_count: number;
+  estimated_wait_minutes: number;
+  barbers_on_shift: number;
+};
+
+export type WaitEstimate = {
+  appointment_id: string;
+  shop_id: string;
+  estimated_start: string;
+  people_ahead: number;
+};
+
+export type AnalyticsSummary = {
+  total_count: number;
+  completed_count: number;
+  cancelled_count: number;
+  cancellation_rate: number | null;
+  avg_wait_minutes: number | null;
+  avg_service_minutes: number | null;
+};
+
+export type DailyThroughput = {
+  day: string;
+  served_count: number;
+  cancelled_count: number;
+};
+
+export type ServiceTimeStats = {
   service_type: string;
-  notes?: string;
+  served_count: number;
+  avg_wait_minutes: number | null;
+  avg_service_minutes: number | null;
+};
+
+export type BusyHour = {
+  day_of_week: number;
+  hour: number;
+  visit_count: number;
+};
+
+export type AppointmentEvent = Omit<Tables<'appointment_events'>, 'old_value' | 'new_value'> & {
   created_at: string;
-  started_at?: string;
-  completed_at?: string;
-  updated_at: string;
-};
\ No newline at end of file
+  event_type: 'created' | 'status_changed' | 'reordered' | 'reassigned' | 'deleted';
+  old_value: Record<string, string | number | null> | null;
+  new_value: Record<string, string | number | null> | null;
+};
+
+export type DisplayQueue = {
+  shop_id: string;
+  shop_name: string;
+  serving: { id: string; name: string; barber: string | null }[];
+  waiting: { id: string; name: string; scheduled_at: string | null }[];
+};
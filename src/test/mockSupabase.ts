@@ -0,0 +1,75 @@
+// A stand-in for the Supabase client in repository tests. Every `from(table)` or `rpc(name)`
+// call records the builder methods chained onto it and resolves to the next response queued
+// for that table or function with `respond`, or to empty data when none is queued.
+
+export type MockError = {
+  message: string;
+  code?: string;
+};
+
+export type MockResponse = {
+  data?: unknown;
+  error?: MockError | null;
+  count?: number | null;
+};
+
+export type RecordedQuery = {
+  target: string;
+  calls: [method: string, args: unknown[]][];
+};
+
+const queries: RecordedQuery[] = [];
+const responses = new Map<string, MockResponse[]>();
+
+function query(target: string, firstCall?: [string, unknown[]]) {
+  const recorded: RecordedQuery = { target, calls: firstCall ? [firstCall] : [] };
+  queries.push(recorded);
+
+  const response = responses.get(target)?.shift() ?? {};
+  const result = {
+    data: response.data ?? null,
+    error: response.error ?? null,
+    count: response.count ?? null,
+  };
+
+  const builder: object = new Proxy({}, {
+    get(_, method) {
+      if (method === 'then') {
+        return (resolve: (value: typeof result) => unknown, reject: (reason: unknown) => unknown) =>
+          Promise.resolve(result).then(resolve, reject);
+      }
+      return (...args: unknown[]) => {
+        recorded.calls.push([String(method), args]);
+        return builder;
+      };
+    },
+  });
+  return builder;
+}
+
+export const mockSupabase = {
+  queries,
+
+  client: {
+    from: (table: string) => query(table),
+    rpc: (name: string, args?: unknown) => query(name, ['rpc', args === undefined ? [] : [args]]),
+  },
+
+  respond(target: string, response: MockResponse) {
+    responses.set(target, [...(responses.get(target) ?? []), response]);
+  },
+
+  // The methods chained onto the only query made against `target`.
+  callsFor(target: string) {
+    const matching = queries.filter(recorded => recorded.target === target);
+    if (matching.length !== 1) {
+      throw new Error(`Expected one query against ${target}, got ${matching.length}`);
+    }
+    return matching[0].calls;
+  },
+
+  reset() {
+    queries.length = 0;
+    responses.clear();
+  },
+};
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_SUPABASE_URL: string;
+  readonly VITE_SUPABASE_ANON_KEY: string;
+  readonly VITE_OAUTH_PROVIDERS?: string;
+  readonly VITE_VAPID_PUBLIC_KEY?: string;
+}
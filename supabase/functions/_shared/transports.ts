@@ -0,0 +1,141 @@
+import webpush from 'npm:web-push@3.6.7';
+
+export type Channel = 'email' | 'sms' | 'push';
+
+export type OutgoingMessage = {
+  channel: Channel;
+  to: string;
+  subject: string;
+  body: string;
+  // Page a push notification opens when clicked.
+  url?: string;
+};
+
+// Delivers a message or throws with a reason that is stored on the outbox row.
+export type Transport = {
+  send(message: OutgoingMessage): Promise<void>;
+};
+
+// Prints messages instead of sending them and keeps them in `sent`, for local development
+// and tests.
+export function createFakeTransport() {
+  const sent: OutgoingMessage[] = [];
+  return {
+    sent,
+    async send(message: OutgoingMessage) {
+      sent.push(message);
+      console.log(`[fake ${message.channel}] to ${message.to}: ${message.subject} - ${message.body}`);
+    },
+  };
+}
+
+export function createResendTransport(apiKey: string, from: string): Transport {
+  return {
+    async send(message) {
+      const response = await fetch('https://api.resend.com/emails', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ from, to: message.to, subject: message.subject, text: message.body }),
+      });
+      if (!response.ok) {
+        throw new Error(`Resend responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+export function createTwilioTransport(accountSid: string, authToken: string, from: string): Transport {
+  return {
+    async send(message) {
+      const response = await fetch(`https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`, {
+        method: 'POST',
+        headers: {
+          Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: new URLSearchParams({ From: from, To: message.to, Body: message.body }),
+      });
+      if (!response.ok) {
+        throw new Error(`Twilio responded ${response.status}: ${await response.text()}`);
+      }
+    },
+  };
+}
+
+// Looks up the browser keys for a push endpoint, and forgets endpoints the push service
+// no longer accepts.
+export type PushSubscriptionStore = {
+  find(endpoint: string): Promise<{ p256dh: string; auth: string } | null>;
+  remove(endpoint: string): Promise<void>;
+};
+
+export function createWebPushTransport(
+  subscriptions: PushSubscriptionStore,
+  vapid: { subject: string; publicKey: string; privateKey: string }
+): Transport {
+  return {
+    async send(message) {
+      const keys = await subscriptions.find(message.to);
+      if (!keys) throw new Error('Push subscription was removed');
+
+      try {
+        await webpush.sendNotification(
+          { endpoint: message.to, keys },
+          JSON.stringify({ title: message.subject, body: message.body, url: message.url }),
+          { vapidDetails: vapid }
+        );
+      } catch (error) {
+        const status = (error as { statusCode?: number }).statusCode;
+        if (status === 404 || status === 410) {
+          await subscriptions.remove(message.to);
+          throw new Error(`Push subscription expired (${status})`);
+        }
+        throw error;
+      }
+    },
+  };
+}
+
+function requireEnv(name: string) {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`Missing ${name}`);
+  return value;
+}
+
+function isLive() {
+  return Deno.env.get('NOTIFICATION_TRANSPORT') === 'live';
+}
+
+// `NOTIFICATION_TRANSPORT=live` sends email through Resend, texts through Twilio and browser
+// notifications through Web Push. Anything else uses the fake transport, so a local stack
+// never sends real messages.
+export function transportsFromEnv(subscriptions: PushSubscriptionStore): Record<Channel, Transport> {
+  if (!isLive()) {
+    const fake = createFakeTransport();
+    return { email: fake, sms: fake, push: fake };
+  }
+
+  return {
+    email: emailTransportFromEnv(),
+    sms: createTwilioTransport(
+      requireEnv('TWILIO_ACCOUNT_SID'),
+      requireEnv('TWILIO_AUTH_TOKEN'),
+      requireEnv('TWILIO_FROM_NUMBER')
+    ),
+    push: createWebPushTransport(subscriptions, {
+      subject: requireEnv('VAPID_SUBJECT'),
+      publicKey: requireEnv('VAPID_PUBLIC_KEY'),
+      privateKey: requireEnv('VAPID_PRIVATE_KEY'),
+    }),
+  };
+}
+
+// The email half of `transportsFromEnv`, for functions that only send email.
+export function emailTransportFromEnv(): Transport {
+  return isLive()
+    ? createResendTransport(requireEnv('RESEND_API_KEY'), requireEnv('NOTIFICATION_EMAIL_FROM'))
+    : createFakeTransport();
+}
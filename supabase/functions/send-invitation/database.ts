@@ -0,0 +1,40 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { ClaimedInvitation, InvitationStore } from './handler.ts';
+
+export function createInvitationStore(supabase: SupabaseClient): InvitationStore {
+  return {
+    async claim(id) {
+      const { data, error } = await supabase
+        .from('shop_invitations')
+        .update({ emailed_at: new Date().toISOString() })
+        .eq('id', id)
+        .eq('status', 'pending')
+        .is('emailed_at', null)
+        .select(`
+          id, email, role,
+          shop:shops(name),
+          inviter:profiles!shop_invitations_invited_by_fkey(full_name)
+        `)
+        .overrideTypes<ClaimedInvitation[], { merge: false }>();
+
+      if (error) throw error;
+      return data[0] ?? null;
+    },
+
+    async release(id) {
+      await supabase.from('shop_invitations').update({ emailed_at: null }).eq('id', id);
+    },
+
+    async hasAccount(email) {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('id')
+        .eq('email', email)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data !== null;
+    },
+  };
+}
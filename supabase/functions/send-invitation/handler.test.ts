@@ -0,0 +1,107 @@
+import { assertEquals } from 'jsr:@std/assert@1';
+import { ClaimedInvitation, createHandler, InvitationStore } from './handler.ts';
+import { createFakeTransport, Transport } from '../_shared/transports.ts';
+
+type Row = Omit<ClaimedInvitation, 'shop' | 'inviter'> & {
+  status: 'pending' | 'accepted' | 'declined' | 'revoked';
+  emailed: boolean;
+};
+
+function row(id: string, fields: Partial<Row> = {}): Row {
+  return { id, email: `${id}@example.com`, role: 'staff', status: 'pending', emailed: false, ...fields };
+}
+
+// The queries from database.ts, over rows kept in memory.
+function createMemoryStore(rows: Row[], accounts: string[] = []): InvitationStore {
+  return {
+    async claim(id) {
+      const r = rows.find(r => r.id === id && r.status === 'pending' && !r.emailed);
+      if (!r) return null;
+      r.emailed = true;
+      return {
+        id: r.id,
+        email: r.email,
+        role: r.role,
+        shop: { name: 'Fade Factory' },
+        inviter: { full_name: 'Olga Owner' },
+      };
+    },
+    async release(id) {
+      rows.find(r => r.id === id)!.emailed = false;
+    },
+    async hasAccount(email) {
+      return accounts.includes(email);
+    },
+  };
+}
+
+function post(body?: unknown) {
+  return new Request('http://localhost/send-invitation', {
+    method: 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const APP_URL = 'https://app.example.com';
+
+Deno.test('emails a new barber a link to sign up', async () => {
+  const rows = [row('i1')];
+  const email = createFakeTransport();
+  const handler = createHandler(createMemoryStore(rows), email, APP_URL);
+
+  const response = await handler(post({ type: 'INSERT', table: 'shop_invitations', record: { id: 'i1' } }));
+
+  assertEquals(await response.json(), { sent: 1 });
+  assertEquals(email.sent, [{
+    channel: 'email',
+    to: 'i1@example.com',
+    subject: 'Olga Owner invited you to join Fade Factory',
+    body: 'Olga Owner invited you to join Fade Factory on barberEasy as a barber. ' +
+      'Create a barber account with this email address to accept it: https://app.example.com/register',
+  }]);
+});
+
+Deno.test('sends barbers who already have an account to sign in', async () => {
+  const rows = [row('i1', { role: 'manager' })];
+  const email = createFakeTransport();
+  const handler = createHandler(createMemoryStore(rows, ['i1@example.com']), email, APP_URL);
+
+  await handler(post({ record: { id: 'i1' } }));
+
+  assertEquals(email.sent[0].body,
+    'Olga Owner invited you to join Fade Factory on barberEasy as a manager. ' +
+    'Sign in with this email address to accept it: https://app.example.com/login');
+});
+
+Deno.test('emails each invitation once', async () => {
+  const rows = [row('i1'), row('revoked', { status: 'revoked' })];
+  const email = createFakeTransport();
+  const handler = createHandler(createMemoryStore(rows), email, APP_URL);
+
+  await handler(post({ record: { id: 'i1' } }));
+  const retried = await handler(post({ record: { id: 'i1' } }));
+  const revoked = await handler(post({ record: { id: 'revoked' } }));
+
+  assertEquals(await retried.json(), { sent: 0 });
+  assertEquals(await revoked.json(), { sent: 0 });
+  assertEquals(email.sent.length, 1);
+});
+
+Deno.test('lets a failed email be sent again', async () => {
+  const rows = [row('i1')];
+  const failing: Transport = { send: () => Promise.reject(new Error('Resend responded 503')) };
+  const email = createFakeTransport();
+
+  const response = await createHandler(createMemoryStore(rows), failing, APP_URL)(post({ record: { id: 'i1' } }));
+  await createHandler(createMemoryStore(rows), email, APP_URL)(post({ record: { id: 'i1' } }));
+
+  assertEquals(response.status, 500);
+  assertEquals(email.sent.length, 1);
+});
+
+Deno.test('rejects requests without an invitation', async () => {
+  const handler = createHandler(createMemoryStore([]), createFakeTransport(), APP_URL);
+
+  assertEquals((await handler(post())).status, 400);
+  assertEquals((await handler(new Request('http://localhost/send-invitation'))).status, 405);
+});
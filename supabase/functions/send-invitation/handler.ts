@@ -0,0 +1,65 @@
+import { renderInvitation } from './messages.ts';
+import type { Transport } from '../_shared/transports.ts';
+
+export type WebhookPayload = {
+  type?: string;
+  table?: string;
+  record?: { id: string } | null;
+};
+
+export type ClaimedInvitation = {
+  id: string;
+  email: string;
+  role: 'manager' | 'staff';
+  shop: { name: string } | null;
+  inviter: { full_name: string } | null;
+};
+
+export type InvitationStore = {
+  // Marks a pending invitation as emailed and returns it, or null when it was already
+  // emailed or is no longer pending, so a repeated call never sends a second email.
+  claim(id: string): Promise<ClaimedInvitation | null>;
+  // Undoes a claim whose email could not be sent, so a later call can try again.
+  release(id: string): Promise<void>;
+  hasAccount(email: string): Promise<boolean>;
+};
+
+// The database webhook posts each new invitation.
+export function createHandler(invitations: InvitationStore, email: Transport, appUrl: string) {
+  return async (request: Request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const payload: WebhookPayload = await request.json().catch(() => ({}));
+    if (!payload.record) {
+      return Response.json({ error: 'Missing invitation' }, { status: 400 });
+    }
+
+    try {
+      const invitation = await invitations.claim(payload.record.id);
+      if (!invitation) return Response.json({ sent: 0 });
+
+      const hasAccount = await invitations.hasAccount(invitation.email);
+      const message = renderInvitation({
+        shopName: invitation.shop?.name ?? 'a shop',
+        inviterName: invitation.inviter?.full_name ?? null,
+        role: invitation.role,
+        acceptUrl: `${appUrl}${hasAccount ? '/login' : '/register'}`,
+        hasAccount,
+      });
+
+      try {
+        await email.send({ channel: 'email', to: invitation.email, ...message });
+      } catch (error) {
+        await invitations.release(invitation.id);
+        throw error;
+      }
+
+      return Response.json({ sent: 1 });
+    } catch (error) {
+      console.error(error);
+      return Response.json({ error: 'Failed to send invitation' }, { status: 500 });
+    }
+  };
+}
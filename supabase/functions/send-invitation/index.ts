@@ -0,0 +1,18 @@
+// Emails barbers the shop invitations written to `shop_invitations`. See handler.ts for how
+// each invitation is emailed at most once.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createHandler } from './handler.ts';
+import { createInvitationStore } from './database.ts';
+import { emailTransportFromEnv } from '../_shared/transports.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+Deno.serve(createHandler(
+  createInvitationStore(supabase),
+  emailTransportFromEnv(),
+  Deno.env.get('APP_URL') ?? 'http://localhost:5173'
+));
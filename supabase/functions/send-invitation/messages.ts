@@ -0,0 +1,21 @@
+export type InvitationContext = {
+  shopName: string;
+  inviterName: string | null;
+  role: 'manager' | 'staff';
+  // Where the invitee goes to accept: the sign-in page, or sign-up if they have no account.
+  acceptUrl: string;
+  hasAccount: boolean;
+};
+
+export function renderInvitation({ shopName, inviterName, role, acceptUrl, hasAccount }: InvitationContext) {
+  const inviter = inviterName ?? 'A barber';
+  const position = role === 'manager' ? 'a manager' : 'a barber';
+  const action = hasAccount
+    ? 'Sign in with this email address to accept it'
+    : 'Create a barber account with this email address to accept it';
+
+  return {
+    subject: `${inviter} invited you to join ${shopName}`,
+    body: `${inviter} invited you to join ${shopName} on barberEasy as ${position}. ${action}: ${acceptUrl}`,
+  };
+}
@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'jsr:@supabase/supabase-js@2';
+import type { ClaimedNotification, Outbox } from './handler.ts';
+import type { PushSubscriptionStore } from '../_shared/transports.ts';
+
+const CLAIMABLE_BATCH_SIZE = 50;
+
+function claimable(staleBefore: Date) {
+  return `status.eq.pending,and(status.eq.sending,claimed_at.lt.${staleBefore.toISOString()})`;
+}
+
+export function createOutbox(supabase: SupabaseClient): Outbox {
+  return {
+    async claimableIds(staleBefore) {
+      const { data, error } = await supabase
+        .from('queue_notifications')
+        .select('id')
+        .or(claimable(staleBefore))
+        .order('created_at')
+        .limit(CLAIMABLE_BATCH_SIZE);
+
+      if (error) throw error;
+      return data.map(row => row.id);
+    },
+
+    async claim(ids, staleBefore) {
+      const { data, error } = await supabase
+        .from('queue_notifications')
+        .update({ status: 'sending', claimed_at: new Date().toISOString() })
+        .in('id', ids)
+        .or(claimable(staleBefore))
+        .select(`
+          id, appointment_id, kind, channel, recipient,
+          appointment:appointments(
+            shop:shops(name),
+            barber:profiles!appointments_barber_id_fkey(full_name)
+          )
+        `)
+        .overrideTypes<ClaimedNotification[], { merge: false }>();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async markSent(id) {
+      await supabase
+        .from('queue_notifications')
+        .update({ status: 'sent', sent_at: new Date().toISOString(), error: null })
+        .eq('id', id);
+    },
+
+    async markFailed(id, reason) {
+      await supabase
+        .from('queue_notifications')
+        .update({ status: 'failed', error: reason })
+        .eq('id', id);
+    },
+  };
+}
+
+export function createPushSubscriptionStore(supabase: SupabaseClient): PushSubscriptionStore {
+  return {
+    async find(endpoint) {
+      const { data, error } = await supabase
+        .from('push_subscriptions')
+        .select('p256dh, auth')
+        .eq('endpoint', endpoint)
+        .limit(1)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data;
+    },
+
+    async remove(endpoint) {
+      const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', endpoint);
+      if (error) throw error;
+    },
+  };
+}
@@ -0,0 +1,156 @@
+import { assertEquals } from 'jsr:@std/assert@1';
+import { CLAIM_TIMEOUT_MS, ClaimedNotification, createHandler, Outbox } from './handler.ts';
+import { createFakeTransport, Transport } from '../_shared/transports.ts';
+
+type Row = Omit<ClaimedNotification, 'appointment'> & {
+  status: 'pending' | 'sending' | 'sent' | 'failed';
+  claimedAt: Date | null;
+  error: string | null;
+};
+
+const NOW = new Date('2025-12-22T12:00:00Z');
+
+function row(id: string, fields: Partial<Row> = {}): Row {
+  return {
+    id,
+    appointment_id: `appointment-${id}`,
+    kind: 'next',
+    channel: 'email',
+    recipient: `${id}@example.com`,
+    status: 'pending',
+    claimedAt: null,
+    error: null,
+    ...fields,
+  };
+}
+
+// The outbox queries from database.ts, over rows kept in memory.
+function createMemoryOutbox(rows: Row[]): Outbox {
+  const isClaimable = (r: Row, staleBefore: Date) =>
+    r.status === 'pending' || (r.status === 'sending' && r.claimedAt !== null && r.claimedAt < staleBefore);
+
+  return {
+    async claimableIds(staleBefore) {
+      return rows.filter(r => isClaimable(r, staleBefore)).map(r => r.id);
+    },
+    async claim(ids, staleBefore) {
+      const claimed = rows.filter(r => ids.includes(r.id) && isClaimable(r, staleBefore));
+      for (const r of claimed) {
+        r.status = 'sending';
+        r.claimedAt = NOW;
+      }
+      return claimed.map(({ id, appointment_id, kind, channel, recipient }) => ({
+        id,
+        appointment_id,
+        kind,
+        channel,
+        recipient,
+        appointment: { shop: { name: 'Fade Factory' }, barber: { full_name: 'Bea Owner' } },
+      }));
+    },
+    async markSent(id) {
+      rows.find(r => r.id === id)!.status = 'sent';
+    },
+    async markFailed(id, reason) {
+      const r = rows.find(r => r.id === id)!;
+      r.status = 'failed';
+      r.error = reason;
+    },
+  };
+}
+
+function setup(rows: Row[], email: Transport = createFakeTransport()) {
+  const fake = createFakeTransport();
+  const handler = createHandler(createMemoryOutbox(rows), { email, sms: fake, push: fake }, () => NOW);
+  return { fake, handler };
+}
+
+function post(body?: unknown) {
+  return new Request('http://localhost/send-notifications', {
+    method: 'POST',
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+Deno.test('sends the row posted by the webhook', async () => {
+  const rows = [row('n1', { channel: 'sms', recipient: '+15551230000', kind: 'barber_ready' }), row('n2')];
+  const { fake, handler } = setup(rows);
+
+  const response = await handler(post({ type: 'INSERT', table: 'queue_notifications', record: { id: 'n1' } }));
+
+  assertEquals(await response.json(), { sent: 1, failed: 0 });
+  assertEquals(fake.sent, [{
+    channel: 'sms',
+    to: '+15551230000',
+    url: '/appointments/appointment-n1',
+    subject: 'Your barber is ready at Fade Factory',
+    body: 'Bea is ready for you at Fade Factory.',
+  }]);
+  assertEquals(rows.map(r => r.status), ['sent', 'pending']);
+});
+
+Deno.test('does not send a row twice when the webhook is retried', async () => {
+  const rows = [row('n1')];
+  const { handler } = setup(rows);
+  const email = createFakeTransport();
+  const retried = createHandler(createMemoryOutbox(rows), { email, sms: email, push: email }, () => NOW);
+
+  await handler(post({ record: { id: 'n1' } }));
+  const response = await retried(post({ record: { id: 'n1' } }));
+
+  assertEquals(await response.json(), { sent: 0, failed: 0 });
+  assertEquals(email.sent.length, 0);
+});
+
+Deno.test('without a row, sends everything pending and reclaims stuck rows', async () => {
+  const rows = [
+    row('pending'),
+    row('stuck', { status: 'sending', claimedAt: new Date(NOW.getTime() - CLAIM_TIMEOUT_MS - 1000) }),
+    row('in-flight', { status: 'sending', claimedAt: new Date(NOW.getTime() - 1000) }),
+    row('done', { status: 'sent' }),
+  ];
+  const { handler } = setup(rows);
+
+  const response = await handler(post());
+
+  assertEquals(await response.json(), { sent: 2, failed: 0 });
+  assertEquals(rows.map(r => r.status), ['sent', 'sent', 'sending', 'sent']);
+});
+
+Deno.test('records why a message could not be sent', async () => {
+  const rows = [row('n1')];
+  const broken: Transport = {
+    async send() {
+      throw new Error('Resend responded 422: invalid address');
+    },
+  };
+  const { handler } = setup(rows, broken);
+
+  const response = await handler(post({ record: { id: 'n1' } }));
+
+  assertEquals(await response.json(), { sent: 0, failed: 1 });
+  assertEquals(rows[0].status, 'failed');
+  assertEquals(rows[0].error, 'Resend responded 422: invalid address');
+});
+
+Deno.test('reports a failure to read the outbox', async () => {
+  const fake = createFakeTransport();
+  const outbox = createMemoryOutbox([]);
+  const handler = createHandler(
+    { ...outbox, claimableIds: () => Promise.reject(new Error('connection refused')) },
+    { email: fake, sms: fake, push: fake }
+  );
+
+  const response = await handler(post());
+
+  assertEquals(response.status, 500);
+  assertEquals(await response.json(), { error: 'Failed to send notifications' });
+});
+
+Deno.test('only accepts POST', async () => {
+  const { handler } = setup([]);
+
+  const response = await handler(new Request('http://localhost/send-notifications'));
+
+  assertEquals(response.status, 405);
+});
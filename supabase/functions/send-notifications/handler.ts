@@ -0,0 +1,89 @@
+import { renderMessage, NotificationKind } from './messages.ts';
+import type { Channel, Transport } from '../_shared/transports.ts';
+
+export type WebhookPayload = {
+  type?: string;
+  table?: string;
+  record?: { id: string } | null;
+};
+
+export type ClaimedNotification = {
+  id: string;
+  appointment_id: string;
+  kind: NotificationKind;
+  channel: Channel;
+  recipient: string;
+  appointment: {
+    shop: { name: string } | null;
+    barber: { full_name: string } | null;
+  } | null;
+};
+
+// The `queue_notifications` rows the function works through. A row can be claimed when it
+// is pending, or when it has been 'sending' since before `staleBefore`.
+export type Outbox = {
+  claimableIds(staleBefore: Date): Promise<string[]>;
+  // Marks the rows as sending and returns the ones that were still claimable, so a retried
+  // webhook or an overlapping run never sends the same message twice.
+  claim(ids: string[], staleBefore: Date): Promise<ClaimedNotification[]>;
+  markSent(id: string): Promise<void>;
+  markFailed(id: string, reason: string): Promise<void>;
+};
+
+// Longer than an Edge Function may run, so only rows left behind by a run that crashed or
+// timed out are claimed again. Such a row may have been delivered just before the crash;
+// sending it twice is better than never.
+export const CLAIM_TIMEOUT_MS = 10 * 60 * 1000;
+
+async function deliver(outbox: Outbox, transports: Record<Channel, Transport>, notification: ClaimedNotification) {
+  const message = renderMessage(notification.kind, {
+    shopName: notification.appointment?.shop?.name ?? 'the shop',
+    barberName: notification.appointment?.barber?.full_name.split(' ')[0] ?? null,
+  });
+
+  try {
+    await transports[notification.channel].send({
+      channel: notification.channel,
+      to: notification.recipient,
+      url: `/appointments/${notification.appointment_id}`,
+      ...message,
+    });
+    await outbox.markSent(notification.id);
+    return true;
+  } catch (error) {
+    await outbox.markFailed(notification.id, error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+// The database webhook posts each new outbox row; a request without a row sends everything
+// still claimable, which also picks up rows whose webhook call was lost.
+export function createHandler(
+  outbox: Outbox,
+  transports: Record<Channel, Transport>,
+  now: () => Date = () => new Date()
+) {
+  return async (request: Request) => {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405 });
+    }
+
+    const payload: WebhookPayload = await request.json().catch(() => ({}));
+    const staleBefore = new Date(now().getTime() - CLAIM_TIMEOUT_MS);
+
+    try {
+      const ids = payload.record ? [payload.record.id] : await outbox.claimableIds(staleBefore);
+      const notifications = ids.length > 0 ? await outbox.claim(ids, staleBefore) : [];
+
+      let sent = 0;
+      for (const notification of notifications) {
+        if (await deliver(outbox, transports, notification)) sent += 1;
+      }
+
+      return Response.json({ sent, failed: notifications.length - sent });
+    } catch (error) {
+      console.error(error);
+      return Response.json({ error: 'Failed to send notifications' }, { status: 500 });
+    }
+  };
+}
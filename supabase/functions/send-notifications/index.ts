@@ -0,0 +1,17 @@
+// Delivers queue notifications from the `queue_notifications` outbox. See handler.ts for
+// how rows are claimed and retried.
+
+import { createClient } from 'jsr:@supabase/supabase-js@2';
+import { createHandler } from './handler.ts';
+import { createOutbox, createPushSubscriptionStore } from './database.ts';
+import { transportsFromEnv } from '../_shared/transports.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+Deno.serve(createHandler(
+  createOutbox(supabase),
+  transportsFromEnv(createPushSubscriptionStore(supabase))
+));
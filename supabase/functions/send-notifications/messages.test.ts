@@ -0,0 +1,28 @@
+import { assertEquals, assertStringIncludes } from 'jsr:@std/assert@1';
+import { renderMessage } from './messages.ts';
+
+const context = { shopName: 'Fade Factory', barberName: 'Bea' };
+
+Deno.test('two away tells the customer to head back', () => {
+  const message = renderMessage('two_away', context);
+
+  assertEquals(message.subject, "You're 2 away at Fade Factory");
+  assertStringIncludes(message.body, '2 people ahead of you');
+});
+
+Deno.test('next tells the customer to be ready', () => {
+  assertEquals(renderMessage('next', context).subject, "You're next at Fade Factory");
+});
+
+Deno.test('barber ready names the barber', () => {
+  const message = renderMessage('barber_ready', context);
+
+  assertEquals(message.subject, 'Your barber is ready at Fade Factory');
+  assertEquals(message.body, 'Bea is ready for you at Fade Factory.');
+});
+
+Deno.test('barber ready works before a barber is assigned', () => {
+  const message = renderMessage('barber_ready', { shopName: 'Fade Factory', barberName: null });
+
+  assertEquals(message.body, 'Your barber is ready for you at Fade Factory.');
+});
@@ -0,0 +1,26 @@
+export type NotificationKind = 'two_away' | 'next' | 'barber_ready';
+
+export type MessageContext = {
+  shopName: string;
+  barberName: string | null;
+};
+
+export function renderMessage(kind: NotificationKind, { shopName, barberName }: MessageContext) {
+  switch (kind) {
+    case 'two_away':
+      return {
+        subject: `You're 2 away at ${shopName}`,
+        body: `There are 2 people ahead of you at ${shopName}. Time to head back.`,
+      };
+    case 'next':
+      return {
+        subject: `You're next at ${shopName}`,
+        body: `You're next in line at ${shopName}. Please be ready when your name is called.`,
+      };
+    case 'barber_ready':
+      return {
+        subject: `Your barber is ready at ${shopName}`,
+        body: `${barberName ?? 'Your barber'} is ready for you at ${shopName}.`,
+      };
+  }
+}
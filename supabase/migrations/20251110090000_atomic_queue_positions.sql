@@ -0,0 +1,101 @@
+/*
+  # Atomic Queue Position Assignment
+
+  ## Overview
+  Queue positions were computed in the browser by reading the highest waiting position and
+  inserting `max + 1`. Concurrent bookings could receive the same number, and numbers were
+  reused once the head of the queue moved to `in_progress`. Positions are now handed out by
+  the database from a per-shop, per-day counter.
+
+  ## New Tables
+
+  ### 1. `shop_queue_counters`
+  Last queue position issued for a shop on a given day
+  - `shop_id` (uuid) - References shops
+  - `queue_date` (date) - Day the counter applies to
+  - `last_position` (integer) - Highest position issued so far
+  - Primary key on (`shop_id`, `queue_date`)
+
+  ## Functions
+  - `next_queue_position(shop_id)` - Increments and returns the shop's counter for today.
+    The upsert takes a row lock, so concurrent callers are serialized per shop and day.
+  - `assign_queue_position()` - BEFORE INSERT trigger on `appointments` that always
+    overwrites `queue_position`, so clients cannot choose their own place.
+  - `book_appointment(shop_id, service_type, notes)` - RPC used by the customer dashboard.
+    Runs with the caller's rights, so the existing appointment RLS policies still apply.
+
+  ## Security
+  - `shop_queue_counters` has RLS enabled with no policies; it is only written by the
+    SECURITY DEFINER trigger function.
+*/
+
+CREATE TABLE IF NOT EXISTS shop_queue_counters (
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  queue_date date NOT NULL,
+  last_position integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (shop_id, queue_date)
+);
+
+ALTER TABLE shop_queue_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION next_queue_position(p_shop_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_position integer;
+BEGIN
+  INSERT INTO shop_queue_counters AS c (shop_id, queue_date, last_position)
+  VALUES (p_shop_id, current_date, 1)
+  ON CONFLICT (shop_id, queue_date)
+  DO UPDATE SET last_position = c.last_position + 1
+  RETURNING c.last_position INTO v_position;
+
+  RETURN v_position;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION next_queue_position(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION assign_queue_position()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.queue_position := next_queue_position(NEW.shop_id);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_assign_queue_position ON appointments;
+CREATE TRIGGER appointments_assign_queue_position
+  BEFORE INSERT ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION assign_queue_position();
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  p_shop_id uuid,
+  p_service_type text,
+  p_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  INSERT INTO appointments (shop_id, customer_id, service_type, notes, status)
+  VALUES (p_shop_id, auth.uid(), p_service_type, NULLIF(btrim(p_notes), ''), 'waiting')
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_appointment(uuid, text, text) TO authenticated;
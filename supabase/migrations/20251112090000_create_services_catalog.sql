@@ -0,0 +1,134 @@
+/*
+  # Per-Shop Service Catalog
+
+  ## Overview
+  Service types were hard-coded in the customer dashboard. Each shop now maintains its own
+  menu of services with a price and an estimated duration.
+
+  ## New Tables
+
+  ### 1. `services`
+  Services offered by a shop
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid) - References shops
+  - `name` (text) - Display name, unique per shop
+  - `price` (numeric) - Price of the service
+  - `duration_minutes` (integer) - Estimated duration
+  - `is_active` (boolean) - Inactive services are hidden from customers
+  - `created_at` (timestamptz)
+  - `updated_at` (timestamptz)
+
+  ## Modified Tables
+
+  ### `appointments`
+  - `service_id` (uuid, optional) - References services. `service_type` keeps the service
+    name at booking time so history survives menu edits.
+
+  ## Functions
+  - `book_appointment(shop_id, service_id, notes)` replaces the text-based version. It
+    rejects services that are inactive or belong to another shop.
+
+  ## Security
+  - Services: Authenticated users can read, barbers of the shop can manage its menu
+*/
+
+CREATE TABLE IF NOT EXISTS services (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  price numeric(10, 2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  duration_minutes integer NOT NULL DEFAULT 30 CHECK (duration_minutes > 0),
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(shop_id, name)
+);
+
+ALTER TABLE services ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view services"
+  ON services FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Barbers can create services for their shops"
+  ON services FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = services.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can update services for their shops"
+  ON services FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = services.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = services.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Barbers can delete services for their shops"
+  ON services FOR DELETE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = services.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS service_id uuid REFERENCES services(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_services_shop_id ON services(shop_id);
+CREATE INDEX IF NOT EXISTS idx_appointments_service_id ON appointments(service_id);
+
+DROP FUNCTION IF EXISTS book_appointment(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  INSERT INTO appointments (shop_id, customer_id, service_id, service_type, notes, status)
+  VALUES (p_shop_id, auth.uid(), v_service.id, v_service.name, NULLIF(btrim(p_notes), ''), 'waiting')
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_appointment(uuid, uuid, text) TO authenticated;
@@ -0,0 +1,169 @@
+/*
+  # Queue Wait Time Estimates
+
+  ## Overview
+  Customers could see their queue position but not how long they would wait. The functions
+  below simulate each shop's queue: every barber attached to the shop is a chair, customers
+  in progress occupy a chair until their expected finish, and waiting customers take the
+  next free chair in queue order.
+
+  ## Functions
+  - `expected_service_minutes(shop_id, service_id)` - Expected duration of one service.
+    Uses the average completed duration for that service over the last 30 days when there
+    are at least 3 samples, then the menu duration, then the shop's recent average, then
+    30 minutes.
+  - `compute_queue_estimates(shop_id)` - Estimated start time of every waiting appointment.
+    Emits one extra row with a NULL `appointment_id` holding the time a customer joining
+    now would start. Internal only, because it reads other customers' appointments.
+  - `get_shop_wait_times()` - RPC returning the waiting count and current wait in minutes
+    for every shop, for the shop picker.
+  - `get_my_wait_estimates()` - RPC returning estimated start times for the caller's own
+    waiting appointments.
+*/
+
+CREATE OR REPLACE FUNCTION expected_service_minutes(p_shop_id uuid, p_service_id uuid)
+RETURNS numeric
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT coalesce(
+    (
+      SELECT avg(extract(epoch FROM completed_at - started_at)) / 60
+      FROM appointments
+      WHERE service_id = p_service_id
+      AND status = 'completed'
+      AND started_at IS NOT NULL
+      AND completed_at > now() - interval '30 days'
+      HAVING count(*) >= 3
+    ),
+    (SELECT duration_minutes FROM services WHERE id = p_service_id),
+    (
+      SELECT avg(extract(epoch FROM completed_at - started_at)) / 60
+      FROM appointments
+      WHERE shop_id = p_shop_id
+      AND status = 'completed'
+      AND started_at IS NOT NULL
+      AND completed_at > now() - interval '30 days'
+      HAVING count(*) >= 3
+    ),
+    30
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION compute_queue_estimates(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, estimated_start timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chairs integer;
+  v_free_at timestamptz[];
+  v_row record;
+  v_next integer;
+  v_i integer;
+BEGIN
+  SELECT greatest(count(*), 1) INTO v_chairs
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id;
+
+  v_free_at := array_fill(now(), ARRAY[v_chairs]);
+
+  FOR v_row IN
+    SELECT a.started_at, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'in_progress'
+    ORDER BY a.started_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    v_free_at[v_next] := greatest(
+      v_free_at[v_next],
+      coalesce(v_row.started_at, now()) + v_row.minutes * interval '1 minute'
+    );
+  END LOOP;
+
+  FOR v_row IN
+    SELECT a.id, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'waiting'
+    ORDER BY a.queue_position, a.created_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    appointment_id := v_row.id;
+    estimated_start := v_free_at[v_next];
+    RETURN NEXT;
+
+    v_free_at[v_next] := v_free_at[v_next] + v_row.minutes * interval '1 minute';
+  END LOOP;
+
+  appointment_id := NULL;
+  estimated_start := (SELECT min(t) FROM unnest(v_free_at) AS t);
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION expected_service_minutes(uuid, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION compute_queue_estimates(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_shop_wait_times()
+RETURNS TABLE (shop_id uuid, waiting_count integer, estimated_wait_minutes integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    (
+      SELECT count(*)::integer
+      FROM appointments a
+      WHERE a.shop_id = s.id
+      AND a.status = 'waiting'
+    ),
+    (
+      SELECT ceil(extract(epoch FROM e.estimated_start - now()) / 60)::integer
+      FROM compute_queue_estimates(s.id) e
+      WHERE e.appointment_id IS NULL
+    )
+  FROM shops s
+  WHERE auth.uid() IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION get_my_wait_estimates()
+RETURNS TABLE (appointment_id uuid, shop_id uuid, estimated_start timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT e.appointment_id, shop_ids.shop_id, e.estimated_start
+  FROM (
+    SELECT DISTINCT a.shop_id
+    FROM appointments a
+    WHERE a.customer_id = auth.uid()
+    AND a.status = 'waiting'
+  ) shop_ids
+  CROSS JOIN LATERAL compute_queue_estimates(shop_ids.shop_id) e
+  JOIN appointments mine ON mine.id = e.appointment_id
+  WHERE mine.customer_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shop_wait_times() TO authenticated;
+GRANT EXECUTE ON FUNCTION get_my_wait_estimates() TO authenticated;
@@ -0,0 +1,147 @@
+/*
+  # Realtime Queue Updates for Customers
+
+  ## Overview
+  Realtime `postgres_changes` respect RLS, so a customer only receives events for their own
+  appointments and never sees the queue ahead of them move. A small per-shop summary row is
+  now kept up to date by trigger and broadcast to every authenticated user, which tells the
+  customer dashboard when to refresh its estimates.
+
+  ## New Tables
+
+  ### 1. `shop_queue_status`
+  Live queue summary per shop, holds no customer data
+  - `shop_id` (uuid, primary key) - References shops
+  - `waiting_count` (integer) - Appointments currently waiting
+  - `in_progress_count` (integer) - Appointments currently being served
+  - `updated_at` (timestamptz) - Last change to the shop's queue
+
+  ## Functions
+  - `refresh_shop_queue_status()` - AFTER trigger on `appointments` that recounts the
+    affected shop(s). Shops that are being deleted are skipped, since their appointments
+    are removed by the cascade and the status row goes with the shop
+  - `get_my_wait_estimates()` - Now also returns `people_ahead`, the number of customers
+    waiting in front of the caller
+
+  ## Realtime
+  - `appointments` and `shop_queue_status` are added to the `supabase_realtime` publication
+
+  ## Security
+  - Shop queue status: Read access for authenticated users, written only by the trigger
+*/
+
+CREATE TABLE IF NOT EXISTS shop_queue_status (
+  shop_id uuid PRIMARY KEY REFERENCES shops(id) ON DELETE CASCADE,
+  waiting_count integer NOT NULL DEFAULT 0,
+  in_progress_count integer NOT NULL DEFAULT 0,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE shop_queue_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view shop queue status"
+  ON shop_queue_status FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION refresh_shop_queue_status()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_id uuid;
+BEGIN
+  FOR v_shop_id IN
+    SELECT DISTINCT s FROM unnest(ARRAY[
+      CASE WHEN TG_OP <> 'INSERT' THEN OLD.shop_id END,
+      CASE WHEN TG_OP <> 'DELETE' THEN NEW.shop_id END
+    ]) AS s
+    WHERE s IS NOT NULL
+    AND EXISTS (SELECT 1 FROM shops WHERE id = s)
+  LOOP
+    INSERT INTO shop_queue_status AS q (shop_id, waiting_count, in_progress_count, updated_at)
+    SELECT
+      v_shop_id,
+      count(*) FILTER (WHERE status = 'waiting'),
+      count(*) FILTER (WHERE status = 'in_progress'),
+      now()
+    FROM appointments
+    WHERE shop_id = v_shop_id
+    ON CONFLICT (shop_id) DO UPDATE SET
+      waiting_count = EXCLUDED.waiting_count,
+      in_progress_count = EXCLUDED.in_progress_count,
+      updated_at = EXCLUDED.updated_at;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_refresh_shop_queue_status ON appointments;
+CREATE TRIGGER appointments_refresh_shop_queue_status
+  AFTER INSERT OR UPDATE OR DELETE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_shop_queue_status();
+
+INSERT INTO shop_queue_status (shop_id, waiting_count, in_progress_count)
+SELECT
+  s.id,
+  count(a.id) FILTER (WHERE a.status = 'waiting'),
+  count(a.id) FILTER (WHERE a.status = 'in_progress')
+FROM shops s
+LEFT JOIN appointments a ON a.shop_id = s.id
+GROUP BY s.id
+ON CONFLICT (shop_id) DO NOTHING;
+
+DROP FUNCTION IF EXISTS get_my_wait_estimates();
+
+CREATE OR REPLACE FUNCTION get_my_wait_estimates()
+RETURNS TABLE (appointment_id uuid, shop_id uuid, estimated_start timestamptz, people_ahead integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.appointment_id,
+    shop_ids.shop_id,
+    e.estimated_start,
+    (
+      SELECT count(*)::integer
+      FROM appointments ahead
+      WHERE ahead.shop_id = mine.shop_id
+      AND ahead.status = 'waiting'
+      AND (ahead.queue_position, ahead.created_at) < (mine.queue_position, mine.created_at)
+    )
+  FROM (
+    SELECT DISTINCT a.shop_id
+    FROM appointments a
+    WHERE a.customer_id = auth.uid()
+    AND a.status = 'waiting'
+  ) shop_ids
+  CROSS JOIN LATERAL compute_queue_estimates(shop_ids.shop_id) e
+  JOIN appointments mine ON mine.id = e.appointment_id
+  WHERE mine.customer_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION get_my_wait_estimates() TO authenticated;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'appointments'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE appointments;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime' AND tablename = 'shop_queue_status'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE shop_queue_status;
+  END IF;
+END;
+$$;
@@ -0,0 +1,354 @@
+/*
+  # Scheduled Time-Slot Bookings
+
+  ## Overview
+  Appointments were walk-in only. Customers can now also book a fixed start time. Scheduled
+  bookings are validated against the shop's opening hours, the service duration and the
+  number of barbers attached to the shop, and join the walk-in queue once they are due.
+
+  ## Modified Tables
+
+  ### `shops`
+  - `timezone` (text) - IANA time zone that `opening_time`/`closing_time` are expressed in
+
+  ### `appointments`
+  - `booking_type` (text) - 'walk_in' or 'scheduled'
+  - `scheduled_at` (timestamptz, optional) - Booked start time, required for scheduled rows
+
+  ## Functions
+  - `next_queue_position(shop_id)` - The daily counter now starts over at midnight in the
+    shop's time zone rather than at midnight UTC
+  - `queued_walk_ins(shop_id)` - When each walk-in being served or waiting is expected to
+    occupy a chair, from the wait estimate. Internal.
+  - `is_slot_available(shop_id, start, minutes)` - True when the slot lies within opening
+    hours and fewer appointments overlap it than there are barbers. Both scheduled bookings
+    and queued walk-ins count, so a slot is not offered while walk-ins fill every chair.
+  - `get_available_slots(shop_id, service_id, date)` - RPC listing free 15-minute start
+    times for a service on a day, in the shop's time zone
+  - `book_scheduled_appointment(shop_id, service_id, scheduled_at, notes)` - RPC that
+    validates and books a slot. A per-shop advisory lock prevents double booking. It runs
+    with the owner's rights so it can call `is_slot_available`, which stays internal, and
+    applies the appointment insert policy itself: only customers can book, for themselves.
+  - `compute_queue_estimates(shop_id)` - Scheduled bookings only count towards the walk-in
+    queue from 15 minutes before their start time, and go ahead of walk-ins once due
+  - `queue_positions(shop_id)` - Estimated start and people ahead of every appointment the
+    wait estimate seats, with people ahead counted in the order it serves them. Internal.
+  - `get_my_wait_estimates()` - People ahead now come from `queue_positions`. Counting by
+    `queue_position` put a walk-in behind a booking that is not due yet, and said "You're
+    next" when a due booking would be served first.
+*/
+
+ALTER TABLE shops
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'UTC';
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS booking_type text NOT NULL DEFAULT 'walk_in'
+    CHECK (booking_type IN ('walk_in', 'scheduled')),
+  ADD COLUMN IF NOT EXISTS scheduled_at timestamptz;
+
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_scheduled_at_check
+  CHECK (booking_type = 'walk_in' OR scheduled_at IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_appointments_scheduled_at ON appointments(shop_id, scheduled_at)
+  WHERE booking_type = 'scheduled';
+
+CREATE OR REPLACE FUNCTION next_queue_position(p_shop_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date;
+  v_position integer;
+BEGIN
+  SELECT (now() AT TIME ZONE timezone)::date INTO v_today
+  FROM shops
+  WHERE id = p_shop_id;
+
+  INSERT INTO shop_queue_counters AS c (shop_id, queue_date, last_position)
+  VALUES (p_shop_id, v_today, 1)
+  ON CONFLICT (shop_id, queue_date)
+  DO UPDATE SET last_position = c.last_position + 1
+  RETURNING c.last_position INTO v_position;
+
+  RETURN v_position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queued_walk_ins(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, starts_at timestamptz, ends_at timestamptz)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT w.id, w.starts_at, w.starts_at + expected_service_minutes(p_shop_id, w.service_id) * interval '1 minute'
+  FROM (
+    SELECT a.id, coalesce(a.started_at, now()) AS starts_at, a.service_id
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.booking_type = 'walk_in'
+    AND a.status = 'in_progress'
+    UNION ALL
+    SELECT a.id, e.estimated_start, a.service_id
+    FROM compute_queue_estimates(p_shop_id) e
+    JOIN appointments a ON a.id = e.appointment_id
+    WHERE a.booking_type = 'walk_in'
+  ) w;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queued_walk_ins(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION is_slot_available(p_shop_id uuid, p_start timestamptz, p_minutes integer)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_local_start timestamp;
+  v_local_end timestamp;
+  v_barbers integer;
+  v_overlapping integer;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  v_local_start := p_start AT TIME ZONE v_shop.timezone;
+  v_local_end := v_local_start + p_minutes * interval '1 minute';
+
+  IF v_local_start::time < v_shop.opening_time
+    OR v_local_end::time > v_shop.closing_time
+    OR v_local_end::date <> v_local_start::date THEN
+    RETURN false;
+  END IF;
+
+  SELECT count(*) INTO v_barbers
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id;
+
+  SELECT count(*) INTO v_overlapping
+  FROM appointments a
+  LEFT JOIN services s ON s.id = a.service_id
+  WHERE a.shop_id = p_shop_id
+  AND a.booking_type = 'scheduled'
+  AND a.status IN ('waiting', 'in_progress')
+  AND a.scheduled_at < p_start + p_minutes * interval '1 minute'
+  AND a.scheduled_at + coalesce(s.duration_minutes, 30) * interval '1 minute' > p_start;
+
+  SELECT v_overlapping + count(*) INTO v_overlapping
+  FROM queued_walk_ins(p_shop_id) w
+  WHERE w.starts_at < p_start + p_minutes * interval '1 minute'
+  AND w.ends_at > p_start;
+
+  RETURN v_overlapping < v_barbers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_slot_available(uuid, timestamptz, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_available_slots(p_shop_id uuid, p_service_id uuid, p_date date)
+RETURNS SETOF timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_minutes integer;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+
+  SELECT duration_minutes INTO v_minutes
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF v_shop.id IS NULL OR v_minutes IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT slot
+  FROM generate_series(
+    (p_date + v_shop.opening_time) AT TIME ZONE v_shop.timezone,
+    (p_date + v_shop.closing_time) AT TIME ZONE v_shop.timezone - v_minutes * interval '1 minute',
+    interval '15 minutes'
+  ) AS slot
+  WHERE slot > now()
+  AND is_slot_available(p_shop_id, slot, v_minutes)
+  ORDER BY slot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_available_slots(uuid, uuid, date) TO authenticated;
+
+CREATE OR REPLACE FUNCTION book_scheduled_appointment(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_scheduled_at timestamptz,
+  p_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book appointments';
+  END IF;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  IF p_scheduled_at <= now() THEN
+    RAISE EXCEPTION 'Scheduled time must be in the future';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('scheduled_bookings:' || p_shop_id::text));
+
+  IF NOT is_slot_available(p_shop_id, p_scheduled_at, v_service.duration_minutes) THEN
+    RAISE EXCEPTION 'That time slot is not available';
+  END IF;
+
+  INSERT INTO appointments (
+    shop_id, customer_id, service_id, service_type, notes, status, booking_type, scheduled_at
+  )
+  VALUES (
+    p_shop_id, auth.uid(), v_service.id, v_service.name, NULLIF(btrim(p_notes), ''),
+    'waiting', 'scheduled', p_scheduled_at
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_scheduled_appointment(uuid, uuid, timestamptz, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION compute_queue_estimates(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, estimated_start timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chairs integer;
+  v_free_at timestamptz[];
+  v_row record;
+  v_next integer;
+  v_i integer;
+BEGIN
+  SELECT greatest(count(*), 1) INTO v_chairs
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id;
+
+  v_free_at := array_fill(now(), ARRAY[v_chairs]);
+
+  FOR v_row IN
+    SELECT a.started_at, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'in_progress'
+    ORDER BY a.started_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    v_free_at[v_next] := greatest(
+      v_free_at[v_next],
+      coalesce(v_row.started_at, now()) + v_row.minutes * interval '1 minute'
+    );
+  END LOOP;
+
+  FOR v_row IN
+    SELECT a.id, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'waiting'
+    AND (a.booking_type = 'walk_in' OR a.scheduled_at <= now() + interval '15 minutes')
+    ORDER BY (a.booking_type = 'walk_in'), a.scheduled_at, a.queue_position, a.created_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    appointment_id := v_row.id;
+    estimated_start := v_free_at[v_next];
+    RETURN NEXT;
+
+    v_free_at[v_next] := v_free_at[v_next] + v_row.minutes * interval '1 minute';
+  END LOOP;
+
+  appointment_id := NULL;
+  estimated_start := (SELECT min(t) FROM unnest(v_free_at) AS t);
+  RETURN NEXT;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_positions(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, estimated_start timestamptz, people_ahead integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    e.appointment_id,
+    e.estimated_start,
+    (row_number() OVER (ORDER BY e.estimated_start, e.seat_order) - 1)::integer
+  FROM compute_queue_estimates(p_shop_id) WITH ORDINALITY AS e(appointment_id, estimated_start, seat_order)
+  WHERE e.appointment_id IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_positions(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_my_wait_estimates()
+RETURNS TABLE (appointment_id uuid, shop_id uuid, estimated_start timestamptz, people_ahead integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    q.appointment_id,
+    shop_ids.shop_id,
+    q.estimated_start,
+    q.people_ahead
+  FROM (
+    SELECT DISTINCT a.shop_id
+    FROM appointments a
+    WHERE a.customer_id = auth.uid()
+    AND a.status = 'waiting'
+  ) shop_ids
+  CROSS JOIN LATERAL queue_positions(shop_ids.shop_id) q
+  JOIN appointments mine ON mine.id = q.appointment_id
+  WHERE mine.customer_id = auth.uid();
+$$;
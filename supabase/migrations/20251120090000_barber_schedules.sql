@@ -0,0 +1,420 @@
+/*
+  # Barber Working Hours, Breaks and Time Off
+
+  ## Overview
+  `shop_barbers` only says which barbers belong to a shop, not when they work, so customers
+  could join a queue with nobody on shift. Barbers now record a weekly schedule, recurring
+  breaks and time-off entries per shop. A barber with no weekly schedule at a shop is
+  treated as working the shop's full opening hours, so existing shops keep working until
+  schedules are filled in.
+
+  ## New Tables
+
+  ### 1. `barber_schedules`
+  Weekly working hours
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid) - References shops
+  - `barber_id` (uuid) - References profiles
+  - `day_of_week` (smallint) - 0 (Sunday) to 6 (Saturday)
+  - `start_time` (time) - Shift start, in the shop's time zone
+  - `end_time` (time) - Shift end, in the shop's time zone
+  - `created_at` (timestamptz)
+
+  ### 2. `barber_breaks`
+  Recurring weekly breaks, same columns as `barber_schedules`
+
+  ### 3. `barber_time_off`
+  One-off absences
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid) - References shops
+  - `barber_id` (uuid) - References profiles
+  - `starts_at` (timestamptz)
+  - `ends_at` (timestamptz)
+  - `reason` (text, optional)
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `is_barber_available(shop_id, barber_id, start, end)` - True when the whole interval is
+    inside a shift, outside any break and outside any time off
+  - `barbers_on_shift(shop_id, at)` - Number of the shop's barbers working at a moment,
+    callable over RPC
+  - `is_slot_available` - Counts only barbers available for the whole slot
+  - `compute_queue_estimates` - Uses barbers on shift as the number of chairs
+  - `get_shop_wait_times()` - Also returns `barbers_on_shift`
+  - `book_appointment` - Rejects walk-ins when nobody is on shift
+
+  ## Security
+  - All three tables: Read access for authenticated users, barbers manage their own rows
+    for shops they belong to
+*/
+
+CREATE TABLE IF NOT EXISTS barber_schedules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  barber_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  day_of_week smallint NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS barber_breaks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  barber_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  day_of_week smallint NOT NULL CHECK (day_of_week BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (end_time > start_time)
+);
+
+CREATE TABLE IF NOT EXISTS barber_time_off (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  barber_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL,
+  ends_at timestamptz NOT NULL,
+  reason text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+ALTER TABLE barber_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE barber_breaks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE barber_time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view barber schedules"
+  ON barber_schedules FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Barbers can manage own schedules"
+  ON barber_schedules FOR ALL
+  TO authenticated
+  USING (auth.uid() = barber_id)
+  WITH CHECK (
+    auth.uid() = barber_id
+    AND EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = barber_schedules.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view barber breaks"
+  ON barber_breaks FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Barbers can manage own breaks"
+  ON barber_breaks FOR ALL
+  TO authenticated
+  USING (auth.uid() = barber_id)
+  WITH CHECK (
+    auth.uid() = barber_id
+    AND EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = barber_breaks.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Anyone can view barber time off"
+  ON barber_time_off FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Barbers can manage own time off"
+  ON barber_time_off FOR ALL
+  TO authenticated
+  USING (auth.uid() = barber_id)
+  WITH CHECK (
+    auth.uid() = barber_id
+    AND EXISTS (
+      SELECT 1 FROM shop_barbers
+      WHERE shop_barbers.shop_id = barber_time_off.shop_id
+      AND shop_barbers.barber_id = auth.uid()
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_barber_schedules_shop_barber ON barber_schedules(shop_id, barber_id);
+CREATE INDEX IF NOT EXISTS idx_barber_breaks_shop_barber ON barber_breaks(shop_id, barber_id);
+CREATE INDEX IF NOT EXISTS idx_barber_time_off_shop_barber ON barber_time_off(shop_id, barber_id);
+
+CREATE OR REPLACE FUNCTION is_barber_available(
+  p_shop_id uuid,
+  p_barber_id uuid,
+  p_start timestamptz,
+  p_end timestamptz
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_local_start timestamp;
+  v_local_end timestamp;
+  v_day smallint;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  v_local_start := p_start AT TIME ZONE v_shop.timezone;
+  v_local_end := p_end AT TIME ZONE v_shop.timezone;
+  v_day := extract(dow FROM v_local_start)::smallint;
+
+  IF v_local_end::date <> v_local_start::date THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM barber_time_off
+    WHERE shop_id = p_shop_id
+    AND barber_id = p_barber_id
+    AND starts_at < p_end
+    AND ends_at > p_start
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM barber_breaks
+    WHERE shop_id = p_shop_id
+    AND barber_id = p_barber_id
+    AND day_of_week = v_day
+    AND start_time < v_local_end::time
+    AND end_time > v_local_start::time
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM barber_schedules
+    WHERE shop_id = p_shop_id
+    AND barber_id = p_barber_id
+  ) THEN
+    RETURN EXISTS (
+      SELECT 1 FROM barber_schedules
+      WHERE shop_id = p_shop_id
+      AND barber_id = p_barber_id
+      AND day_of_week = v_day
+      AND start_time <= v_local_start::time
+      AND end_time >= v_local_end::time
+    );
+  END IF;
+
+  RETURN v_local_start::time >= v_shop.opening_time
+    AND v_local_end::time <= v_shop.closing_time;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION barbers_on_shift(p_shop_id uuid, p_at timestamptz DEFAULT now())
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id
+  AND is_barber_available(p_shop_id, barber_id, p_at, p_at + interval '1 minute');
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_barber_available(uuid, uuid, timestamptz, timestamptz) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION barbers_on_shift(uuid, timestamptz) TO authenticated;
+
+CREATE OR REPLACE FUNCTION is_slot_available(p_shop_id uuid, p_start timestamptz, p_minutes integer)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_end timestamptz;
+  v_local_start timestamp;
+  v_local_end timestamp;
+  v_barbers integer;
+  v_overlapping integer;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  v_end := p_start + p_minutes * interval '1 minute';
+  v_local_start := p_start AT TIME ZONE v_shop.timezone;
+  v_local_end := v_end AT TIME ZONE v_shop.timezone;
+
+  IF v_local_start::time < v_shop.opening_time
+    OR v_local_end::time > v_shop.closing_time
+    OR v_local_end::date <> v_local_start::date THEN
+    RETURN false;
+  END IF;
+
+  SELECT count(*) INTO v_barbers
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id
+  AND is_barber_available(p_shop_id, barber_id, p_start, v_end);
+
+  SELECT count(*) INTO v_overlapping
+  FROM appointments a
+  LEFT JOIN services s ON s.id = a.service_id
+  WHERE a.shop_id = p_shop_id
+  AND a.booking_type = 'scheduled'
+  AND a.status IN ('waiting', 'in_progress')
+  AND a.scheduled_at < v_end
+  AND a.scheduled_at + coalesce(s.duration_minutes, 30) * interval '1 minute' > p_start;
+
+  SELECT v_overlapping + count(*) INTO v_overlapping
+  FROM queued_walk_ins(p_shop_id) w
+  WHERE w.starts_at < v_end
+  AND w.ends_at > p_start;
+
+  RETURN v_overlapping < v_barbers;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION compute_queue_estimates(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, estimated_start timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chairs integer;
+  v_free_at timestamptz[];
+  v_row record;
+  v_next integer;
+  v_i integer;
+BEGIN
+  v_chairs := greatest(barbers_on_shift(p_shop_id), 1);
+  v_free_at := array_fill(now(), ARRAY[v_chairs]);
+
+  FOR v_row IN
+    SELECT a.started_at, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'in_progress'
+    ORDER BY a.started_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    v_free_at[v_next] := greatest(
+      v_free_at[v_next],
+      coalesce(v_row.started_at, now()) + v_row.minutes * interval '1 minute'
+    );
+  END LOOP;
+
+  FOR v_row IN
+    SELECT a.id, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'waiting'
+    AND (a.booking_type = 'walk_in' OR a.scheduled_at <= now() + interval '15 minutes')
+    ORDER BY (a.booking_type = 'walk_in'), a.scheduled_at, a.queue_position, a.created_at
+  LOOP
+    v_next := 1;
+    FOR v_i IN 2..v_chairs LOOP
+      IF v_free_at[v_i] < v_free_at[v_next] THEN
+        v_next := v_i;
+      END IF;
+    END LOOP;
+
+    appointment_id := v_row.id;
+    estimated_start := v_free_at[v_next];
+    RETURN NEXT;
+
+    v_free_at[v_next] := v_free_at[v_next] + v_row.minutes * interval '1 minute';
+  END LOOP;
+
+  appointment_id := NULL;
+  estimated_start := (SELECT min(t) FROM unnest(v_free_at) AS t);
+  RETURN NEXT;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_shop_wait_times();
+
+CREATE OR REPLACE FUNCTION get_shop_wait_times()
+RETURNS TABLE (
+  shop_id uuid,
+  waiting_count integer,
+  estimated_wait_minutes integer,
+  barbers_on_shift integer
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    (
+      SELECT count(*)::integer
+      FROM appointments a
+      WHERE a.shop_id = s.id
+      AND a.status = 'waiting'
+    ),
+    (
+      SELECT ceil(extract(epoch FROM e.estimated_start - now()) / 60)::integer
+      FROM compute_queue_estimates(s.id) e
+      WHERE e.appointment_id IS NULL
+    ),
+    barbers_on_shift(s.id)
+  FROM shops s
+  WHERE auth.uid() IS NOT NULL;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_shop_wait_times() TO authenticated;
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  IF barbers_on_shift(p_shop_id) = 0 THEN
+    RAISE EXCEPTION 'No barbers are on shift at this shop right now';
+  END IF;
+
+  INSERT INTO appointments (shop_id, customer_id, service_id, service_type, notes, status)
+  VALUES (p_shop_id, auth.uid(), v_service.id, v_service.name, NULLIF(btrim(p_notes), ''), 'waiting')
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
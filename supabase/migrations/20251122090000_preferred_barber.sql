@@ -0,0 +1,363 @@
+/*
+  # Preferred Barber Requests
+
+  ## Overview
+  `barber_id` was only set when a barber started the service, so customers could not ask
+  for a particular barber. Customers can now pick a barber from the shop's roster or leave
+  the choice to "anyone". A preferred-barber request waits for that barber only and never
+  blocks customers behind it who are happy with anyone.
+
+  ## Modified Tables
+
+  ### `appointments`
+  - `preferred_barber_id` (uuid, optional) - References profiles. NULL means anyone.
+
+  ## Functions
+  - `is_slot_available(shop_id, start, minutes, barber_id)` - With a barber, checks that
+    barber's availability, bookings and walk-ins waiting for them instead of the shop's
+    capacity
+  - `get_available_slots(shop_id, service_id, date, barber_id)` - Optional barber filter
+  - `book_appointment` / `book_scheduled_appointment` - Accept an optional preferred barber,
+    which must belong to the shop
+  - `compute_queue_estimates(shop_id)` - Models one chair per barber on shift. Preferred
+    requests are placed on their barber's chair, everyone else takes the next free chair.
+*/
+
+ALTER TABLE appointments
+  ADD COLUMN IF NOT EXISTS preferred_barber_id uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_appointments_preferred_barber_id ON appointments(preferred_barber_id);
+
+DROP FUNCTION IF EXISTS get_available_slots(uuid, uuid, date);
+DROP FUNCTION IF EXISTS book_appointment(uuid, uuid, text);
+DROP FUNCTION IF EXISTS book_scheduled_appointment(uuid, uuid, timestamptz, text);
+DROP FUNCTION IF EXISTS is_slot_available(uuid, timestamptz, integer);
+
+CREATE OR REPLACE FUNCTION is_slot_available(
+  p_shop_id uuid,
+  p_start timestamptz,
+  p_minutes integer,
+  p_barber_id uuid DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_end timestamptz;
+  v_local_start timestamp;
+  v_local_end timestamp;
+  v_barbers integer;
+  v_overlapping integer;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+  IF NOT FOUND THEN
+    RETURN false;
+  END IF;
+
+  v_end := p_start + p_minutes * interval '1 minute';
+  v_local_start := p_start AT TIME ZONE v_shop.timezone;
+  v_local_end := v_end AT TIME ZONE v_shop.timezone;
+
+  IF v_local_start::time < v_shop.opening_time
+    OR v_local_end::time > v_shop.closing_time
+    OR v_local_end::date <> v_local_start::date THEN
+    RETURN false;
+  END IF;
+
+  IF p_barber_id IS NOT NULL THEN
+    IF NOT is_barber_available(p_shop_id, p_barber_id, p_start, v_end) THEN
+      RETURN false;
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM queued_walk_ins(p_shop_id) w
+      JOIN appointments a ON a.id = w.appointment_id
+      WHERE coalesce(a.barber_id, a.preferred_barber_id) = p_barber_id
+      AND w.starts_at < v_end
+      AND w.ends_at > p_start
+    ) THEN
+      RETURN false;
+    END IF;
+
+    RETURN NOT EXISTS (
+      SELECT 1
+      FROM appointments a
+      LEFT JOIN services s ON s.id = a.service_id
+      WHERE a.shop_id = p_shop_id
+      AND a.booking_type = 'scheduled'
+      AND a.status IN ('waiting', 'in_progress')
+      AND coalesce(a.barber_id, a.preferred_barber_id) = p_barber_id
+      AND a.scheduled_at < v_end
+      AND a.scheduled_at + coalesce(s.duration_minutes, 30) * interval '1 minute' > p_start
+    );
+  END IF;
+
+  SELECT count(*) INTO v_barbers
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id
+  AND is_barber_available(p_shop_id, barber_id, p_start, v_end);
+
+  SELECT count(*) INTO v_overlapping
+  FROM appointments a
+  LEFT JOIN services s ON s.id = a.service_id
+  WHERE a.shop_id = p_shop_id
+  AND a.booking_type = 'scheduled'
+  AND a.status IN ('waiting', 'in_progress')
+  AND a.scheduled_at < v_end
+  AND a.scheduled_at + coalesce(s.duration_minutes, 30) * interval '1 minute' > p_start;
+
+  SELECT v_overlapping + count(*) INTO v_overlapping
+  FROM queued_walk_ins(p_shop_id) w
+  WHERE w.starts_at < v_end
+  AND w.ends_at > p_start;
+
+  RETURN v_overlapping < v_barbers;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_slot_available(uuid, timestamptz, integer, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION get_available_slots(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_date date,
+  p_barber_id uuid DEFAULT NULL
+)
+RETURNS SETOF timestamptz
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+  v_minutes integer;
+BEGIN
+  SELECT * INTO v_shop FROM shops WHERE id = p_shop_id;
+
+  SELECT duration_minutes INTO v_minutes
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF v_shop.id IS NULL OR v_minutes IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT slot
+  FROM generate_series(
+    (p_date + v_shop.opening_time) AT TIME ZONE v_shop.timezone,
+    (p_date + v_shop.closing_time) AT TIME ZONE v_shop.timezone - v_minutes * interval '1 minute',
+    interval '15 minutes'
+  ) AS slot
+  WHERE slot > now()
+  AND is_slot_available(p_shop_id, slot, v_minutes, p_barber_id)
+  ORDER BY slot;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_available_slots(uuid, uuid, date, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION book_appointment(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_notes text DEFAULT NULL,
+  p_preferred_barber_id uuid DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  IF p_preferred_barber_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM shop_barbers
+    WHERE shop_id = p_shop_id
+    AND barber_id = p_preferred_barber_id
+  ) THEN
+    RAISE EXCEPTION 'That barber does not work at this shop';
+  END IF;
+
+  IF barbers_on_shift(p_shop_id) = 0 THEN
+    RAISE EXCEPTION 'No barbers are on shift at this shop right now';
+  END IF;
+
+  INSERT INTO appointments (
+    shop_id, customer_id, service_id, service_type, notes, status, preferred_barber_id
+  )
+  VALUES (
+    p_shop_id, auth.uid(), v_service.id, v_service.name, NULLIF(btrim(p_notes), ''),
+    'waiting', p_preferred_barber_id
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_appointment(uuid, uuid, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION book_scheduled_appointment(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_scheduled_at timestamptz,
+  p_notes text DEFAULT NULL,
+  p_preferred_barber_id uuid DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'customer') THEN
+    RAISE EXCEPTION 'Only customers can book appointments';
+  END IF;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  IF p_scheduled_at <= now() THEN
+    RAISE EXCEPTION 'Scheduled time must be in the future';
+  END IF;
+
+  IF p_preferred_barber_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM shop_barbers
+    WHERE shop_id = p_shop_id
+    AND barber_id = p_preferred_barber_id
+  ) THEN
+    RAISE EXCEPTION 'That barber does not work at this shop';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('scheduled_bookings:' || p_shop_id::text));
+
+  IF NOT is_slot_available(p_shop_id, p_scheduled_at, v_service.duration_minutes, p_preferred_barber_id) THEN
+    RAISE EXCEPTION 'That time slot is not available';
+  END IF;
+
+  INSERT INTO appointments (
+    shop_id, customer_id, service_id, service_type, notes, status, booking_type, scheduled_at,
+    preferred_barber_id
+  )
+  VALUES (
+    p_shop_id, auth.uid(), v_service.id, v_service.name, NULLIF(btrim(p_notes), ''),
+    'waiting', 'scheduled', p_scheduled_at, p_preferred_barber_id
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION book_scheduled_appointment(uuid, uuid, timestamptz, text, uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION compute_queue_estimates(p_shop_id uuid)
+RETURNS TABLE (appointment_id uuid, estimated_start timestamptz)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_chair_barbers uuid[];
+  v_chairs integer;
+  v_free_at timestamptz[];
+  v_row record;
+  v_next integer;
+  v_i integer;
+BEGIN
+  SELECT array_agg(barber_id ORDER BY barber_id) INTO v_chair_barbers
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id
+  AND is_barber_available(p_shop_id, barber_id, now(), now() + interval '1 minute');
+
+  IF v_chair_barbers IS NULL THEN
+    v_chair_barbers := ARRAY[NULL::uuid];
+  END IF;
+
+  v_chairs := array_length(v_chair_barbers, 1);
+  v_free_at := array_fill(now(), ARRAY[v_chairs]);
+
+  FOR v_row IN
+    SELECT a.barber_id, a.started_at, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'in_progress'
+    ORDER BY a.started_at
+  LOOP
+    v_next := array_position(v_chair_barbers, v_row.barber_id);
+    IF v_next IS NULL THEN
+      v_next := 1;
+      FOR v_i IN 2..v_chairs LOOP
+        IF v_free_at[v_i] < v_free_at[v_next] THEN
+          v_next := v_i;
+        END IF;
+      END LOOP;
+    END IF;
+
+    v_free_at[v_next] := greatest(
+      v_free_at[v_next],
+      coalesce(v_row.started_at, now()) + v_row.minutes * interval '1 minute'
+    );
+  END LOOP;
+
+  FOR v_row IN
+    SELECT a.id, a.preferred_barber_id, expected_service_minutes(a.shop_id, a.service_id) AS minutes
+    FROM appointments a
+    WHERE a.shop_id = p_shop_id
+    AND a.status = 'waiting'
+    AND (a.booking_type = 'walk_in' OR a.scheduled_at <= now() + interval '15 minutes')
+    ORDER BY (a.booking_type = 'walk_in'), a.scheduled_at, a.queue_position, a.created_at
+  LOOP
+    v_next := array_position(v_chair_barbers, v_row.preferred_barber_id);
+    IF v_next IS NULL THEN
+      v_next := 1;
+      FOR v_i IN 2..v_chairs LOOP
+        IF v_free_at[v_i] < v_free_at[v_next] THEN
+          v_next := v_i;
+        END IF;
+      END LOOP;
+    END IF;
+
+    appointment_id := v_row.id;
+    estimated_start := v_free_at[v_next];
+    RETURN NEXT;
+
+    v_free_at[v_next] := v_free_at[v_next] + v_row.minutes * interval '1 minute';
+  END LOOP;
+
+  appointment_id := NULL;
+  estimated_start := (SELECT min(t) FROM unnest(v_free_at) AS t);
+  RETURN NEXT;
+END;
+$$;
@@ -0,0 +1,163 @@
+/*
+  # Barber Analytics
+
+  ## Overview
+  Aggregations for the barber analytics dashboard. Everything is computed in the database so
+  the browser never downloads raw appointment rows. The view and functions run with the
+  caller's rights, so the existing appointment RLS policies limit barbers to their own shops.
+
+  ## New Views
+
+  ### 1. `appointment_facts`
+  One row per appointment with times converted to the shop's time zone
+  - `local_at` (timestamp) - Service start (or booking time) in the shop's time zone
+  - `wait_minutes` (numeric) - From joining the queue, or the booked time for scheduled
+    appointments, to `started_at`
+  - `service_minutes` (numeric) - From `started_at` to `completed_at`
+
+  ## Functions
+  All take `shop_id`, `barber_id`, `from` and `to` (inclusive dates in the shop's time zone).
+  NULL `shop_id` or `barber_id` means all visible shops or barbers.
+  - `get_analytics_summary` - Totals, cancellation rate, average wait and service time
+  - `get_daily_throughput` - Customers served and cancelled per day
+  - `get_service_time_stats` - Average wait and service time per service type
+  - `get_busiest_hours` - Visits per weekday and hour, for the heatmap
+*/
+
+CREATE OR REPLACE VIEW appointment_facts
+WITH (security_invoker = true)
+AS
+SELECT
+  a.id,
+  a.shop_id,
+  a.barber_id,
+  a.status,
+  a.service_type,
+  coalesce(a.started_at, a.scheduled_at, a.created_at) AT TIME ZONE s.timezone AS local_at,
+  extract(epoch FROM a.started_at - greatest(a.created_at, coalesce(a.scheduled_at, a.created_at))) / 60 AS wait_minutes,
+  extract(epoch FROM a.completed_at - a.started_at) / 60 AS service_minutes
+FROM appointments a
+JOIN shops s ON s.id = a.shop_id;
+
+GRANT SELECT ON appointment_facts TO authenticated;
+
+CREATE OR REPLACE FUNCTION get_analytics_summary(
+  p_shop_id uuid DEFAULT NULL,
+  p_barber_id uuid DEFAULT NULL,
+  p_from date DEFAULT current_date - 30,
+  p_to date DEFAULT current_date
+)
+RETURNS TABLE (
+  total_count integer,
+  completed_count integer,
+  cancelled_count integer,
+  cancellation_rate numeric,
+  avg_wait_minutes numeric,
+  avg_service_minutes numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    count(*)::integer,
+    count(*) FILTER (WHERE status = 'completed')::integer,
+    count(*) FILTER (WHERE status = 'cancelled')::integer,
+    round(
+      count(*) FILTER (WHERE status = 'cancelled')::numeric
+      / nullif(count(*) FILTER (WHERE status IN ('completed', 'cancelled')), 0),
+      4
+    ),
+    round(avg(wait_minutes) FILTER (WHERE wait_minutes IS NOT NULL), 1),
+    round(avg(service_minutes) FILTER (WHERE status = 'completed'), 1)
+  FROM appointment_facts
+  WHERE (p_shop_id IS NULL OR shop_id = p_shop_id)
+  AND (p_barber_id IS NULL OR barber_id = p_barber_id)
+  AND local_at::date BETWEEN p_from AND p_to;
+$$;
+
+CREATE OR REPLACE FUNCTION get_daily_throughput(
+  p_shop_id uuid DEFAULT NULL,
+  p_barber_id uuid DEFAULT NULL,
+  p_from date DEFAULT current_date - 30,
+  p_to date DEFAULT current_date
+)
+RETURNS TABLE (day date, served_count integer, cancelled_count integer)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    d::date,
+    count(f.id) FILTER (WHERE f.status = 'completed')::integer,
+    count(f.id) FILTER (WHERE f.status = 'cancelled')::integer
+  FROM generate_series(p_from, p_to, interval '1 day') AS d
+  LEFT JOIN appointment_facts f
+    ON f.local_at::date = d::date
+    AND (p_shop_id IS NULL OR f.shop_id = p_shop_id)
+    AND (p_barber_id IS NULL OR f.barber_id = p_barber_id)
+  GROUP BY d
+  ORDER BY d;
+$$;
+
+CREATE OR REPLACE FUNCTION get_service_time_stats(
+  p_shop_id uuid DEFAULT NULL,
+  p_barber_id uuid DEFAULT NULL,
+  p_from date DEFAULT current_date - 30,
+  p_to date DEFAULT current_date
+)
+RETURNS TABLE (
+  service_type text,
+  served_count integer,
+  avg_wait_minutes numeric,
+  avg_service_minutes numeric
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    service_type,
+    count(*)::integer,
+    round(avg(wait_minutes), 1),
+    round(avg(service_minutes), 1)
+  FROM appointment_facts
+  WHERE status = 'completed'
+  AND (p_shop_id IS NULL OR shop_id = p_shop_id)
+  AND (p_barber_id IS NULL OR barber_id = p_barber_id)
+  AND local_at::date BETWEEN p_from AND p_to
+  GROUP BY service_type
+  ORDER BY count(*) DESC;
+$$;
+
+CREATE OR REPLACE FUNCTION get_busiest_hours(
+  p_shop_id uuid DEFAULT NULL,
+  p_barber_id uuid DEFAULT NULL,
+  p_from date DEFAULT current_date - 30,
+  p_to date DEFAULT current_date
+)
+RETURNS TABLE (day_of_week integer, hour integer, visit_count integer)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT
+    extract(dow FROM local_at)::integer,
+    extract(hour FROM local_at)::integer,
+    count(*)::integer
+  FROM appointment_facts
+  WHERE status IN ('completed', 'in_progress')
+  AND (p_shop_id IS NULL OR shop_id = p_shop_id)
+  AND (p_barber_id IS NULL OR barber_id = p_barber_id)
+  AND local_at::date BETWEEN p_from AND p_to
+  GROUP BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_analytics_summary(uuid, uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_throughput(uuid, uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_service_time_stats(uuid, uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_busiest_hours(uuid, uuid, date, date) TO authenticated;
@@ -0,0 +1,325 @@
+/*
+  # Shop Owner and Staff Roles with Invitations
+
+  ## Overview
+  Any barber could update any shop and add themselves to any shop through `shop_barbers`.
+  Membership now carries a per-shop role, shops are edited only by their owners and
+  managers, and new barbers join a shop by accepting an invitation sent to their email.
+
+  ## Modified Tables
+
+  ### `shop_barbers`
+  - `role` (text) - 'owner', 'manager' or 'staff'. The earliest barber of every existing
+    shop becomes its owner.
+
+  ## New Tables
+
+  ### 1. `shop_invitations`
+  Invitations for barbers to join a shop
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid) - References shops
+  - `email` (text) - Invitee email, stored lower-case
+  - `role` (text) - 'manager' or 'staff'
+  - `invited_by` (uuid) - References profiles
+  - `status` (text) - 'pending', 'accepted', 'declined' or 'revoked'
+  - `created_at` (timestamptz)
+  - `responded_at` (timestamptz, optional)
+  - `emailed_at` (timestamptz, optional) - When the invitation email was sent. The Edge
+    Function sets it before sending, so each invitation is emailed at most once however
+    often the function is called for it.
+
+  ## Functions
+  - `is_shop_staff(shop_id)` / `is_shop_manager(shop_id)` / `is_shop_owner(shop_id)` -
+    Role checks for the current user, used by policies
+  - `add_shop_creator_as_owner()` - AFTER INSERT trigger on `shops`
+  - `accept_shop_invitation(invitation_id)` / `decline_shop_invitation(invitation_id)` -
+    RPCs for the invitee
+
+  ## Security
+  - Shops: Owners and managers can update, owners can delete
+  - Shop barbers: No direct inserts. Members can leave unless they are the last owner,
+    owners can change roles and remove other members.
+  - Shop invitations: Owners and managers of the shop manage them, invitees can read their
+    own
+  - Appointments: Updates and deletes by barbers use `is_shop_staff`
+
+  ## Webhook
+  - `shop_invitations_send` posts each new invitation to the local `send-invitation` Edge
+    Function, which emails the invitee a link to sign in, or to sign up if they have no
+    account yet. It is only created where database webhooks are available.
+*/
+
+ALTER TABLE shop_barbers
+  ADD COLUMN IF NOT EXISTS role text NOT NULL DEFAULT 'staff'
+    CHECK (role IN ('owner', 'manager', 'staff'));
+
+UPDATE shop_barbers sb
+SET role = 'owner'
+WHERE sb.id IN (
+  SELECT DISTINCT ON (shop_id) id
+  FROM shop_barbers
+  ORDER BY shop_id, created_at, id
+);
+
+CREATE OR REPLACE FUNCTION is_shop_staff(p_shop_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shop_barbers
+    WHERE shop_id = p_shop_id
+    AND barber_id = auth.uid()
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_shop_manager(p_shop_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shop_barbers
+    WHERE shop_id = p_shop_id
+    AND barber_id = auth.uid()
+    AND role IN ('owner', 'manager')
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION is_shop_owner(p_shop_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM shop_barbers
+    WHERE shop_id = p_shop_id
+    AND barber_id = auth.uid()
+    AND role = 'owner'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION shop_owner_count(p_shop_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM shop_barbers
+  WHERE shop_id = p_shop_id
+  AND role = 'owner';
+$$;
+
+-- Shops
+DROP POLICY IF EXISTS "Barbers can update shops" ON shops;
+
+CREATE POLICY "Shop managers can update shops"
+  ON shops FOR UPDATE
+  TO authenticated
+  USING (is_shop_manager(id))
+  WITH CHECK (is_shop_manager(id));
+
+CREATE POLICY "Shop owners can delete shops"
+  ON shops FOR DELETE
+  TO authenticated
+  USING (is_shop_owner(id));
+
+CREATE OR REPLACE FUNCTION add_shop_creator_as_owner()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    INSERT INTO shop_barbers (shop_id, barber_id, role)
+    VALUES (NEW.id, auth.uid(), 'owner')
+    ON CONFLICT (shop_id, barber_id) DO UPDATE SET role = 'owner';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS shops_add_creator_as_owner ON shops;
+CREATE TRIGGER shops_add_creator_as_owner
+  AFTER INSERT ON shops
+  FOR EACH ROW
+  EXECUTE FUNCTION add_shop_creator_as_owner();
+
+-- Shop barbers
+DROP POLICY IF EXISTS "Barbers can associate with shops" ON shop_barbers;
+DROP POLICY IF EXISTS "Barbers can remove their associations" ON shop_barbers;
+
+CREATE POLICY "Shop owners can change member roles"
+  ON shop_barbers FOR UPDATE
+  TO authenticated
+  USING (is_shop_owner(shop_id))
+  WITH CHECK (
+    is_shop_owner(shop_id)
+    AND (role = 'owner' OR barber_id <> auth.uid() OR shop_owner_count(shop_id) > 1)
+  );
+
+CREATE POLICY "Members can leave and owners can remove members"
+  ON shop_barbers FOR DELETE
+  TO authenticated
+  USING (
+    (
+      auth.uid() = barber_id
+      AND (role <> 'owner' OR shop_owner_count(shop_id) > 1)
+    )
+    OR (
+      auth.uid() <> barber_id
+      AND role <> 'owner'
+      AND is_shop_owner(shop_id)
+    )
+  );
+
+-- Invitations
+CREATE TABLE IF NOT EXISTS shop_invitations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  email text NOT NULL CHECK (email = lower(email)),
+  role text NOT NULL DEFAULT 'staff' CHECK (role IN ('manager', 'staff')),
+  invited_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'declined', 'revoked')),
+  created_at timestamptz DEFAULT now(),
+  responded_at timestamptz,
+  emailed_at timestamptz
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_shop_invitations_pending
+  ON shop_invitations(shop_id, email)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_shop_invitations_email ON shop_invitations(email);
+
+ALTER TABLE shop_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shop managers and invitees can view invitations"
+  ON shop_invitations FOR SELECT
+  TO authenticated
+  USING (
+    is_shop_manager(shop_id)
+    OR email = lower(auth.jwt() ->> 'email')
+  );
+
+CREATE POLICY "Shop managers can invite barbers"
+  ON shop_invitations FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_shop_manager(shop_id)
+    AND invited_by = auth.uid()
+    AND status = 'pending'
+    AND (role = 'staff' OR is_shop_owner(shop_id))
+  );
+
+CREATE POLICY "Shop managers can revoke invitations"
+  ON shop_invitations FOR UPDATE
+  TO authenticated
+  USING (is_shop_manager(shop_id) AND status = 'pending')
+  WITH CHECK (is_shop_manager(shop_id) AND status = 'revoked');
+
+CREATE OR REPLACE FUNCTION accept_shop_invitation(p_invitation_id uuid)
+RETURNS shop_barbers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invitation shop_invitations;
+  v_membership shop_barbers;
+BEGIN
+  SELECT * INTO v_invitation
+  FROM shop_invitations
+  WHERE id = p_invitation_id
+  AND status = 'pending'
+  AND email = lower(auth.jwt() ->> 'email')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM profiles
+    WHERE id = auth.uid()
+    AND role = 'barber'
+  ) THEN
+    RAISE EXCEPTION 'Only barber accounts can join a shop';
+  END IF;
+
+  INSERT INTO shop_barbers (shop_id, barber_id, role)
+  VALUES (v_invitation.shop_id, auth.uid(), v_invitation.role)
+  ON CONFLICT (shop_id, barber_id) DO UPDATE SET role = shop_barbers.role
+  RETURNING * INTO v_membership;
+
+  UPDATE shop_invitations
+  SET status = 'accepted', responded_at = now()
+  WHERE id = p_invitation_id;
+
+  RETURN v_membership;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION decline_shop_invitation(p_invitation_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE shop_invitations
+  SET status = 'declined', responded_at = now()
+  WHERE id = p_invitation_id
+  AND status = 'pending'
+  AND email = lower(auth.jwt() ->> 'email');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invitation not found or no longer pending';
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION accept_shop_invitation(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION decline_shop_invitation(uuid) TO authenticated;
+
+-- Appointments
+DROP POLICY IF EXISTS "Barbers can update appointments in their shops" ON appointments;
+DROP POLICY IF EXISTS "Barbers can delete appointments in their shops" ON appointments;
+
+CREATE POLICY "Shop staff can update appointments"
+  ON appointments FOR UPDATE
+  TO authenticated
+  USING (is_shop_staff(shop_id))
+  WITH CHECK (is_shop_staff(shop_id));
+
+CREATE POLICY "Shop staff can delete appointments"
+  ON appointments FOR DELETE
+  TO authenticated
+  USING (is_shop_staff(shop_id));
+
+-- Invitation emails
+DO $$
+BEGIN
+  IF to_regproc('supabase_functions.http_request') IS NOT NULL THEN
+    DROP TRIGGER IF EXISTS shop_invitations_send ON shop_invitations;
+    CREATE TRIGGER shop_invitations_send
+      AFTER INSERT ON shop_invitations
+      FOR EACH ROW
+      EXECUTE FUNCTION supabase_functions.http_request(
+        'http://host.docker.internal:54321/functions/v1/send-invitation',
+        'POST',
+        '{"Content-Type": "application/json"}',
+        '{}',
+        '5000'
+      );
+  END IF;
+END;
+$$;
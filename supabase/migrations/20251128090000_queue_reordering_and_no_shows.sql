@@ -0,0 +1,130 @@
+/*
+  # Queue Reordering, Skipping and No-Shows
+
+  ## Overview
+  Barbers could only start or delete a queued appointment. They can now move a walk-in to
+  another place in the queue, send a customer back a few places ("call later") and record
+  absent customers as no-shows instead of deleting them.
+
+  ## Modified Tables
+
+  ### `appointments`
+  - `status` - Adds 'no_show'
+
+  ## Functions
+  - `move_appointment(appointment_id, before_appointment_id)` - Moves a waiting walk-in in
+    front of another waiting walk-in, or to the end of the queue when no target is given.
+    The shop's existing set of positions is reassigned in the new order, so the counter
+    used for new bookings is unaffected.
+  - `skip_appointment(appointment_id, places)` - Moves a waiting walk-in back by a number
+    of places
+
+  Both functions take a per-shop advisory lock and re-read the queue under that lock, so
+  two barbers reordering at the same time are applied one after the other.
+*/
+
+ALTER TABLE appointments DROP CONSTRAINT IF EXISTS appointments_status_check;
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_status_check
+  CHECK (status IN ('waiting', 'in_progress', 'completed', 'cancelled', 'no_show'));
+
+CREATE OR REPLACE FUNCTION move_appointment(
+  p_appointment_id uuid,
+  p_before_appointment_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_id uuid;
+  v_ids uuid[];
+  v_positions integer[];
+  v_index integer;
+BEGIN
+  SELECT shop_id INTO v_shop_id
+  FROM appointments
+  WHERE id = p_appointment_id;
+
+  IF NOT FOUND OR NOT is_shop_staff(v_shop_id) THEN
+    RAISE EXCEPTION 'Only staff of this shop can reorder its queue';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('queue_order:' || v_shop_id::text));
+
+  SELECT
+    array_agg(id ORDER BY queue_position, created_at),
+    array_agg(queue_position ORDER BY queue_position, created_at)
+  INTO v_ids, v_positions
+  FROM appointments
+  WHERE shop_id = v_shop_id
+  AND status = 'waiting'
+  AND booking_type = 'walk_in';
+
+  IF v_ids IS NULL OR array_position(v_ids, p_appointment_id) IS NULL THEN
+    RAISE EXCEPTION 'Only waiting walk-in appointments can be moved';
+  END IF;
+
+  v_ids := array_remove(v_ids, p_appointment_id);
+
+  IF p_before_appointment_id IS NULL THEN
+    v_ids := v_ids || p_appointment_id;
+  ELSE
+    v_index := array_position(v_ids, p_before_appointment_id);
+    IF v_index IS NULL THEN
+      RAISE EXCEPTION 'Target appointment is no longer waiting in this queue';
+    END IF;
+    v_ids := v_ids[1:v_index - 1] || p_appointment_id || v_ids[v_index:];
+  END IF;
+
+  UPDATE appointments a
+  SET queue_position = v_positions[o.ord], updated_at = now()
+  FROM unnest(v_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE a.id = o.id
+  AND a.queue_position IS DISTINCT FROM v_positions[o.ord];
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION skip_appointment(p_appointment_id uuid, p_places integer DEFAULT 3)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_id uuid;
+  v_ids uuid[];
+  v_index integer;
+BEGIN
+  IF p_places < 1 THEN
+    RAISE EXCEPTION 'Places must be at least 1';
+  END IF;
+
+  SELECT shop_id INTO v_shop_id
+  FROM appointments
+  WHERE id = p_appointment_id;
+
+  IF NOT FOUND OR NOT is_shop_staff(v_shop_id) THEN
+    RAISE EXCEPTION 'Only staff of this shop can reorder its queue';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('queue_order:' || v_shop_id::text));
+
+  SELECT array_agg(id ORDER BY queue_position, created_at) INTO v_ids
+  FROM appointments
+  WHERE shop_id = v_shop_id
+  AND status = 'waiting'
+  AND booking_type = 'walk_in';
+
+  v_index := array_position(v_ids, p_appointment_id);
+  IF v_index IS NULL THEN
+    RAISE EXCEPTION 'Only waiting walk-in appointments can be skipped';
+  END IF;
+
+  PERFORM move_appointment(p_appointment_id, v_ids[v_index + p_places + 1]);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION move_appointment(uuid, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION skip_appointment(uuid, integer) TO authenticated;
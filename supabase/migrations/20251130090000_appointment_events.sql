@@ -0,0 +1,142 @@
+/*
+  # Appointment Audit Trail
+
+  ## Overview
+  Status changes, reorders and deletes overwrote or removed appointment rows without a
+  record. Every change to an appointment is now appended to `appointment_events` by a
+  trigger, so the history of an appointment survives even after the row is deleted.
+
+  ## New Tables
+
+  ### 1. `appointment_events`
+  Append-only log of appointment changes
+  - `id` (uuid, primary key)
+  - `appointment_id` (uuid) - The appointment. Not a foreign key, so events outlive
+    deleted appointments.
+  - `shop_id` (uuid) - References shops
+  - `customer_id` (uuid) - References profiles, used to let customers read their events
+  - `actor_id` (uuid, optional) - References profiles. The signed-in user who made the
+    change, NULL for changes made by the system.
+  - `event_type` (text) - 'created', 'status_changed', 'reordered', 'reassigned' or
+    'deleted'
+  - `old_value` (jsonb, optional) - Relevant fields before the change
+  - `new_value` (jsonb, optional) - Relevant fields after the change
+  - `created_at` (timestamptz)
+
+  ## Functions
+  - `log_appointment_event()` - AFTER INSERT, UPDATE and DELETE trigger on
+    `appointments`. An update can produce several events, one per kind of change.
+
+  ## Security
+  - Shop staff can read the events of their shop, customers can read the events of their
+    own appointments
+  - No one can insert, update or delete events directly
+*/
+
+CREATE TABLE IF NOT EXISTS appointment_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL,
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  customer_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  actor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  event_type text NOT NULL CHECK (event_type IN ('created', 'status_changed', 'reordered', 'reassigned', 'deleted')),
+  old_value jsonb,
+  new_value jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_appointment_events_appointment
+  ON appointment_events(appointment_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_appointment_events_shop ON appointment_events(shop_id);
+CREATE INDEX IF NOT EXISTS idx_appointment_events_customer ON appointment_events(customer_id);
+
+ALTER TABLE appointment_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shop staff and customers can view appointment events"
+  ON appointment_events FOR SELECT
+  TO authenticated
+  USING (
+    auth.uid() = customer_id
+    OR is_shop_staff(shop_id)
+  );
+
+CREATE OR REPLACE FUNCTION log_appointment_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := auth.uid();
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'created',
+      jsonb_build_object(
+        'status', NEW.status,
+        'queue_position', NEW.queue_position,
+        'booking_type', NEW.booking_type,
+        'scheduled_at', NEW.scheduled_at,
+        'preferred_barber_id', NEW.preferred_barber_id
+      )
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting a shop or an account cascades to its appointments; their events go with it.
+    IF NOT EXISTS (SELECT 1 FROM shops WHERE id = OLD.shop_id)
+      OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.customer_id) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value)
+    VALUES (
+      OLD.id, OLD.shop_id, OLD.customer_id, v_actor, 'deleted',
+      jsonb_build_object(
+        'status', OLD.status,
+        'queue_position', OLD.queue_position,
+        'barber_id', OLD.barber_id
+      )
+    );
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'status_changed',
+      jsonb_build_object('status', OLD.status),
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+
+  IF NEW.queue_position IS DISTINCT FROM OLD.queue_position THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reordered',
+      jsonb_build_object('queue_position', OLD.queue_position),
+      jsonb_build_object('queue_position', NEW.queue_position)
+    );
+  END IF;
+
+  IF NEW.barber_id IS DISTINCT FROM OLD.barber_id
+    OR NEW.preferred_barber_id IS DISTINCT FROM OLD.preferred_barber_id THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reassigned',
+      jsonb_build_object('barber_id', OLD.barber_id, 'preferred_barber_id', OLD.preferred_barber_id),
+      jsonb_build_object('barber_id', NEW.barber_id, 'preferred_barber_id', NEW.preferred_barber_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_log_event ON appointments;
+CREATE TRIGGER appointments_log_event
+  AFTER INSERT OR UPDATE OR DELETE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION log_appointment_event();
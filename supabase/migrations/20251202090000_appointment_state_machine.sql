@@ -0,0 +1,185 @@
+/*
+  # Appointment State Machine
+
+  ## Overview
+  Any barber update could set any status with any timestamps, so a completed appointment
+  could go back to waiting or be completed without ever being started. Status changes are
+  now checked by a trigger and the service timestamps are set by the database.
+
+  Allowed transitions:
+  - waiting -> in_progress -> completed
+  - waiting -> cancelled, in_progress -> cancelled
+  - waiting -> no_show
+
+  ## Functions
+  - `enforce_appointment_transition()` - BEFORE INSERT and UPDATE trigger on
+    `appointments`. New appointments must start as waiting. On update it rejects
+    transitions not listed above, sets `started_at` and the serving barber when a service
+    starts, sets `completed_at` when it completes and keeps both unchanged otherwise.
+  - `start_appointment(appointment_id)` - Shop staff start serving a waiting customer
+  - `complete_appointment(appointment_id)` - Shop staff complete a service
+  - `mark_appointment_no_show(appointment_id)` - Shop staff record an absent customer
+  - `cancel_appointment(appointment_id)` - Shop staff or the customer cancel
+
+  The RPCs run with the caller's rights, so the appointment update policies still apply,
+  and return the updated appointment.
+*/
+
+CREATE OR REPLACE FUNCTION enforce_appointment_transition()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status <> 'waiting' THEN
+      RAISE EXCEPTION 'New appointments must be waiting, not %', NEW.status;
+    END IF;
+    NEW.started_at := NULL;
+    NEW.completed_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.updated_at := now();
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    NEW.started_at := OLD.started_at;
+    NEW.completed_at := OLD.completed_at;
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (OLD.status = 'waiting' AND NEW.status IN ('in_progress', 'cancelled', 'no_show'))
+    OR (OLD.status = 'in_progress' AND NEW.status IN ('completed', 'cancelled'))
+  ) THEN
+    RAISE EXCEPTION 'Cannot change an appointment from % to %',
+      replace(OLD.status, '_', ' '), replace(NEW.status, '_', ' ');
+  END IF;
+
+  IF NEW.status = 'in_progress' THEN
+    NEW.started_at := now();
+    NEW.barber_id := coalesce(auth.uid(), NEW.barber_id);
+  ELSE
+    NEW.started_at := OLD.started_at;
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := now();
+  ELSE
+    NEW.completed_at := OLD.completed_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_enforce_transition ON appointments;
+CREATE TRIGGER appointments_enforce_transition
+  BEFORE INSERT OR UPDATE ON appointments
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_appointment_transition();
+
+CREATE OR REPLACE FUNCTION start_appointment(p_appointment_id uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM appointments
+    WHERE id = p_appointment_id
+    AND is_shop_staff(shop_id)
+  ) THEN
+    RAISE EXCEPTION 'Only staff of this shop can change this appointment';
+  END IF;
+
+  UPDATE appointments
+  SET status = 'in_progress'
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_appointment(p_appointment_id uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM appointments
+    WHERE id = p_appointment_id
+    AND is_shop_staff(shop_id)
+  ) THEN
+    RAISE EXCEPTION 'Only staff of this shop can change this appointment';
+  END IF;
+
+  UPDATE appointments
+  SET status = 'completed'
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_appointment_no_show(p_appointment_id uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM appointments
+    WHERE id = p_appointment_id
+    AND is_shop_staff(shop_id)
+  ) THEN
+    RAISE EXCEPTION 'Only staff of this shop can change this appointment';
+  END IF;
+
+  UPDATE appointments
+  SET status = 'no_show'
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_appointment(p_appointment_id uuid)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment appointments;
+BEGIN
+  UPDATE appointments
+  SET status = 'cancelled'
+  WHERE id = p_appointment_id
+  RETURNING * INTO v_appointment;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found or you are not allowed to cancel it';
+  END IF;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_appointment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_appointment(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_appointment_no_show(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_appointment(uuid) TO authenticated;
@@ -0,0 +1,177 @@
+/*
+  # Account Settings
+
+  ## Overview
+  Support for the account settings page: phone numbers are validated, email changes made
+  through Supabase auth are copied to `profiles`, and users can delete their own account.
+
+  ## Modified Tables
+
+  ### `profiles`
+  - `phone` - Must be 7 to 15 digits with an optional leading '+'. Existing numbers are
+    stripped of spaces and punctuation, and cleared when still invalid.
+
+  ## Functions
+  - `sync_profile_email()` - AFTER UPDATE trigger on `auth.users` that copies a confirmed
+    email change to the profile
+  - `delete_my_account()` - Deletes the caller's auth user, which cascades to the profile
+    and their appointments. Shops where the caller is the only member are deleted with it.
+    Fails while the caller is the only owner of a shop that still has other members.
+  - `log_appointment_event()` - Records no actor when the acting user's profile is being
+    deleted, so clearing `barber_id` on their appointments does not fail
+*/
+
+UPDATE profiles
+SET phone = nullif(regexp_replace(phone, '[^0-9+]', '', 'g'), '')
+WHERE phone IS NOT NULL;
+
+UPDATE profiles
+SET phone = NULL
+WHERE phone !~ '^\+?[0-9]{7,15}$';
+
+ALTER TABLE profiles
+  ADD CONSTRAINT profiles_phone_format CHECK (phone ~ '^\+?[0-9]{7,15}$');
+
+CREATE OR REPLACE FUNCTION sync_profile_email()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE profiles
+  SET email = NEW.email, updated_at = now()
+  WHERE id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_email_changed ON auth.users;
+CREATE TRIGGER on_auth_user_email_changed
+  AFTER UPDATE OF email ON auth.users
+  FOR EACH ROW
+  WHEN (NEW.email IS DISTINCT FROM OLD.email)
+  EXECUTE FUNCTION sync_profile_email();
+
+CREATE OR REPLACE FUNCTION log_appointment_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := (SELECT id FROM profiles WHERE id = auth.uid());
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'created',
+      jsonb_build_object(
+        'status', NEW.status,
+        'queue_position', NEW.queue_position,
+        'booking_type', NEW.booking_type,
+        'scheduled_at', NEW.scheduled_at,
+        'preferred_barber_id', NEW.preferred_barber_id
+      )
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting a shop or an account cascades to its appointments; their events go with it.
+    IF NOT EXISTS (SELECT 1 FROM shops WHERE id = OLD.shop_id)
+      OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.customer_id) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value)
+    VALUES (
+      OLD.id, OLD.shop_id, OLD.customer_id, v_actor, 'deleted',
+      jsonb_build_object(
+        'status', OLD.status,
+        'queue_position', OLD.queue_position,
+        'barber_id', OLD.barber_id
+      )
+    );
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'status_changed',
+      jsonb_build_object('status', OLD.status),
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+
+  IF NEW.queue_position IS DISTINCT FROM OLD.queue_position THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reordered',
+      jsonb_build_object('queue_position', OLD.queue_position),
+      jsonb_build_object('queue_position', NEW.queue_position)
+    );
+  END IF;
+
+  IF NEW.barber_id IS DISTINCT FROM OLD.barber_id
+    OR NEW.preferred_barber_id IS DISTINCT FROM OLD.preferred_barber_id THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reassigned',
+      jsonb_build_object('barber_id', OLD.barber_id, 'preferred_barber_id', OLD.preferred_barber_id),
+      jsonb_build_object('barber_id', NEW.barber_id, 'preferred_barber_id', NEW.preferred_barber_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION delete_my_account()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_name text;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT s.name INTO v_shop_name
+  FROM shop_barbers sb
+  JOIN shops s ON s.id = sb.shop_id
+  WHERE sb.barber_id = auth.uid()
+  AND sb.role = 'owner'
+  AND shop_owner_count(sb.shop_id) = 1
+  AND EXISTS (
+    SELECT 1 FROM shop_barbers other
+    WHERE other.shop_id = sb.shop_id
+    AND other.barber_id <> auth.uid()
+  )
+  LIMIT 1;
+
+  IF v_shop_name IS NOT NULL THEN
+    RAISE EXCEPTION 'Make another barber an owner of % before deleting your account', v_shop_name;
+  END IF;
+
+  DELETE FROM shops s
+  WHERE EXISTS (
+    SELECT 1 FROM shop_barbers sb
+    WHERE sb.shop_id = s.id
+    AND sb.barber_id = auth.uid()
+  )
+  AND NOT EXISTS (
+    SELECT 1 FROM shop_barbers other
+    WHERE other.shop_id = s.id
+    AND other.barber_id <> auth.uid()
+  );
+
+  DELETE FROM auth.users WHERE id = auth.uid();
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_my_account() TO authenticated;
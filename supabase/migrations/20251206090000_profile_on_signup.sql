@@ -0,0 +1,45 @@
+/*
+  # Create Profiles on Signup
+
+  ## Overview
+  Profiles were inserted by the browser after `auth.signUp`. With email confirmation on
+  there is no session at that point, so the insert failed and the user was left with an
+  auth account and no profile. A trigger on `auth.users` now creates the profile from the
+  signup metadata (`full_name`, `role` and `phone`).
+
+  ## Functions
+  - `handle_new_user()` - AFTER INSERT trigger on `auth.users`. Unknown roles become
+    'customer' and invalid phone numbers are dropped, so a bad signup payload never blocks
+    the account from being created. Users who still end up without a profile complete it
+    from the app.
+*/
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_role text := NEW.raw_user_meta_data ->> 'role';
+  v_phone text := regexp_replace(coalesce(NEW.raw_user_meta_data ->> 'phone', ''), '[^0-9+]', '', 'g');
+BEGIN
+  INSERT INTO profiles (id, email, full_name, role, phone)
+  VALUES (
+    NEW.id,
+    NEW.email,
+    coalesce(nullif(trim(NEW.raw_user_meta_data ->> 'full_name'), ''), split_part(NEW.email, '@', 1)),
+    CASE WHEN v_role IN ('barber', 'customer') THEN v_role ELSE 'customer' END,
+    CASE WHEN v_phone ~ '^\+?[0-9]{7,15}$' THEN v_phone END
+  )
+  ON CONFLICT (id) DO NOTHING;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_auth_user_created ON auth.users;
+CREATE TRIGGER on_auth_user_created
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_new_user();
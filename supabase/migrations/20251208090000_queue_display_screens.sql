@@ -0,0 +1,146 @@
+/*
+  # Queue Display Screens
+
+  ## Overview
+  Shops can put their queue on a wall-mounted screen that nobody signs in to. Each screen
+  opens a link containing a display token, which owners and managers create and can revoke
+  at any time. The screen reads the queue through a function that only returns first names
+  and last initials.
+
+  ## New Tables
+
+  ### 1. `shop_display_tokens`
+  Revocable links for queue display screens
+  - `id` (uuid, primary key)
+  - `shop_id` (uuid) - References shops
+  - `token` (text, unique) - Random secret used in the display link
+  - `label` (text) - Where the screen is, e.g. "Front window"
+  - `created_by` (uuid) - References profiles
+  - `created_at` (timestamptz)
+  - `revoked_at` (timestamptz, optional) - Set when the link is revoked
+
+  ## Functions
+  - `display_name(full_name)` - First name and last initial, e.g. "Maria G."
+  - `get_display_queue(token)` - The shop name, the appointments being served and the next
+    waiting appointments for a valid display token. Callable without signing in.
+
+  ## Security
+  - Shop display tokens: Owners and managers of the shop can view, create and revoke them
+  - Shop queue status: Now also readable without signing in, so display screens receive
+    realtime updates. It holds only counts.
+*/
+
+CREATE TABLE IF NOT EXISTS shop_display_tokens (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  shop_id uuid NOT NULL REFERENCES shops(id) ON DELETE CASCADE,
+  token text NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+  label text NOT NULL DEFAULT '',
+  created_by uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  revoked_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_shop_display_tokens_shop ON shop_display_tokens(shop_id);
+
+ALTER TABLE shop_display_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Shop managers can view display tokens"
+  ON shop_display_tokens FOR SELECT
+  TO authenticated
+  USING (is_shop_manager(shop_id));
+
+CREATE POLICY "Shop managers can create display tokens"
+  ON shop_display_tokens FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_shop_manager(shop_id)
+    AND created_by = auth.uid()
+    AND revoked_at IS NULL
+  );
+
+CREATE POLICY "Shop managers can revoke display tokens"
+  ON shop_display_tokens FOR UPDATE
+  TO authenticated
+  USING (is_shop_manager(shop_id) AND revoked_at IS NULL)
+  WITH CHECK (is_shop_manager(shop_id) AND revoked_at IS NOT NULL);
+
+CREATE POLICY "Display screens can view shop queue status"
+  ON shop_queue_status FOR SELECT
+  TO anon
+  USING (true);
+
+CREATE OR REPLACE FUNCTION display_name(p_full_name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN array_length(parts, 1) > 1 THEN parts[1] || ' ' || left(parts[array_length(parts, 1)], 1) || '.'
+    ELSE coalesce(parts[1], '')
+  END
+  FROM (SELECT regexp_split_to_array(trim(coalesce(p_full_name, '')), '\s+') AS parts) AS names;
+$$;
+
+CREATE OR REPLACE FUNCTION get_display_queue(p_token text, p_limit integer DEFAULT 8)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+BEGIN
+  SELECT s.* INTO v_shop
+  FROM shop_display_tokens t
+  JOIN shops s ON s.id = t.shop_id
+  WHERE t.token = p_token
+  AND t.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This display link is invalid or has been revoked';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'shop_id', v_shop.id,
+    'shop_name', v_shop.name,
+    'serving', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'name', display_name(c.full_name),
+        'barber', display_name(b.full_name)
+      ) ORDER BY a.started_at)
+      FROM appointments a
+      JOIN profiles c ON c.id = a.customer_id
+      LEFT JOIN profiles b ON b.id = a.barber_id
+      WHERE a.shop_id = v_shop.id
+      AND a.status = 'in_progress'
+    ), '[]'::jsonb),
+    'waiting', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', w.id,
+        'name', w.name,
+        'scheduled_at', w.scheduled_at
+      ) ORDER BY w.sort_order)
+      FROM (
+        SELECT
+          a.id,
+          display_name(c.full_name) AS name,
+          a.scheduled_at,
+          row_number() OVER (
+            ORDER BY a.booking_type = 'walk_in', a.scheduled_at, a.queue_position, a.created_at
+          ) AS sort_order
+        FROM appointments a
+        JOIN profiles c ON c.id = a.customer_id
+        WHERE a.shop_id = v_shop.id
+        AND a.status = 'waiting'
+        AND (a.booking_type = 'walk_in' OR a.scheduled_at <= now() + interval '15 minutes')
+        ORDER BY sort_order
+        LIMIT least(greatest(p_limit, 0), 50)
+      ) AS w
+    ), '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_display_queue(text, integer) TO anon, authenticated;
@@ -0,0 +1,245 @@
+/*
+  # Guest Check-In
+
+  ## Overview
+  Walk-in customers without an account could not join the queue, because every appointment
+  needed a customer profile. Shop staff can now check guests in from a tablet at the front
+  desk: the guest enters a name and, optionally, a phone number, and joins the walk-in queue
+  like any other customer.
+
+  ## Modified Tables
+
+  ### `appointments`
+  - `customer_id` - Now optional; empty for guest appointments
+  - `guest_name` (text, optional) - Name entered at check-in, set only for guests
+  - `guest_phone` (text, optional) - Phone number entered at check-in, 7 to 15 digits with
+    an optional leading '+'
+  - Every appointment has either a customer or a guest name, never both
+
+  ### `appointment_events`
+  - `customer_id` - Now optional; empty for events of guest appointments
+
+  ## Functions
+  - `check_in_guest(shop_id, service_id, guest_name, guest_phone)` - Shop staff add a guest
+    to the walk-in queue
+  - `log_appointment_event()` - Also logs deletions of guest appointments
+  - `get_display_queue(token)` - Shows guests by the name they checked in with
+
+  ## Security
+  - Appointments: Shop staff can create guest appointments for their shop
+*/
+
+ALTER TABLE appointments
+  ALTER COLUMN customer_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS guest_name text,
+  ADD COLUMN IF NOT EXISTS guest_phone text;
+
+ALTER TABLE appointments
+  ADD CONSTRAINT appointments_customer_or_guest CHECK (
+    (customer_id IS NOT NULL AND guest_name IS NULL AND guest_phone IS NULL)
+    OR (customer_id IS NULL AND coalesce(btrim(guest_name), '') <> '')
+  ),
+  ADD CONSTRAINT appointments_guest_phone_format CHECK (guest_phone ~ '^\+?[0-9]{7,15}$');
+
+ALTER TABLE appointment_events
+  ALTER COLUMN customer_id DROP NOT NULL;
+
+CREATE POLICY "Shop staff can check in guests"
+  ON appointments FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    is_shop_staff(shop_id)
+    AND customer_id IS NULL
+    AND guest_name IS NOT NULL
+  );
+
+CREATE OR REPLACE FUNCTION check_in_guest(
+  p_shop_id uuid,
+  p_service_id uuid,
+  p_guest_name text,
+  p_guest_phone text DEFAULT NULL
+)
+RETURNS appointments
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_service services;
+  v_appointment appointments;
+BEGIN
+  IF NOT is_shop_staff(p_shop_id) THEN
+    RAISE EXCEPTION 'Only shop staff can check in guests';
+  END IF;
+
+  IF coalesce(btrim(p_guest_name), '') = '' THEN
+    RAISE EXCEPTION 'Enter a name to check in';
+  END IF;
+
+  SELECT * INTO v_service
+  FROM services
+  WHERE id = p_service_id
+  AND shop_id = p_shop_id
+  AND is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Service is not available at this shop';
+  END IF;
+
+  IF barbers_on_shift(p_shop_id) = 0 THEN
+    RAISE EXCEPTION 'No barbers are on shift at this shop right now';
+  END IF;
+
+  INSERT INTO appointments (
+    shop_id, guest_name, guest_phone, service_id, service_type, status
+  )
+  VALUES (
+    p_shop_id, btrim(p_guest_name), NULLIF(btrim(p_guest_phone), ''), v_service.id,
+    v_service.name, 'waiting'
+  )
+  RETURNING * INTO v_appointment;
+
+  RETURN v_appointment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION check_in_guest(uuid, uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION log_appointment_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_actor uuid := (SELECT id FROM profiles WHERE id = auth.uid());
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'created',
+      jsonb_build_object(
+        'status', NEW.status,
+        'queue_position', NEW.queue_position,
+        'booking_type', NEW.booking_type,
+        'scheduled_at', NEW.scheduled_at,
+        'preferred_barber_id', NEW.preferred_barber_id
+      )
+    );
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    -- Deleting a shop or an account cascades to its appointments; their events go with it.
+    -- Guest appointments have no account to delete.
+    IF NOT EXISTS (SELECT 1 FROM shops WHERE id = OLD.shop_id)
+      OR (OLD.customer_id IS NOT NULL
+        AND NOT EXISTS (SELECT 1 FROM profiles WHERE id = OLD.customer_id)) THEN
+      RETURN OLD;
+    END IF;
+
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value)
+    VALUES (
+      OLD.id, OLD.shop_id, OLD.customer_id, v_actor, 'deleted',
+      jsonb_build_object(
+        'status', OLD.status,
+        'queue_position', OLD.queue_position,
+        'barber_id', OLD.barber_id
+      )
+    );
+    RETURN OLD;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'status_changed',
+      jsonb_build_object('status', OLD.status),
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+
+  IF NEW.queue_position IS DISTINCT FROM OLD.queue_position THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reordered',
+      jsonb_build_object('queue_position', OLD.queue_position),
+      jsonb_build_object('queue_position', NEW.queue_position)
+    );
+  END IF;
+
+  IF NEW.barber_id IS DISTINCT FROM OLD.barber_id
+    OR NEW.preferred_barber_id IS DISTINCT FROM OLD.preferred_barber_id THEN
+    INSERT INTO appointment_events (appointment_id, shop_id, customer_id, actor_id, event_type, old_value, new_value)
+    VALUES (
+      NEW.id, NEW.shop_id, NEW.customer_id, v_actor, 'reassigned',
+      jsonb_build_object('barber_id', OLD.barber_id, 'preferred_barber_id', OLD.preferred_barber_id),
+      jsonb_build_object('barber_id', NEW.barber_id, 'preferred_barber_id', NEW.preferred_barber_id)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_display_queue(p_token text, p_limit integer DEFAULT 8)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop shops;
+BEGIN
+  SELECT s.* INTO v_shop
+  FROM shop_display_tokens t
+  JOIN shops s ON s.id = t.shop_id
+  WHERE t.token = p_token
+  AND t.revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This display link is invalid or has been revoked';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'shop_id', v_shop.id,
+    'shop_name', v_shop.name,
+    'serving', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', a.id,
+        'name', display_name(coalesce(c.full_name, a.guest_name)),
+        'barber', display_name(b.full_name)
+      ) ORDER BY a.started_at)
+      FROM appointments a
+      LEFT JOIN profiles c ON c.id = a.customer_id
+      LEFT JOIN profiles b ON b.id = a.barber_id
+      WHERE a.shop_id = v_shop.id
+      AND a.status = 'in_progress'
+    ), '[]'::jsonb),
+    'waiting', coalesce((
+      SELECT jsonb_agg(jsonb_build_object(
+        'id', w.id,
+        'name', w.name,
+        'scheduled_at', w.scheduled_at
+      ) ORDER BY w.sort_order)
+      FROM (
+        SELECT
+          a.id,
+          display_name(coalesce(c.full_name, a.guest_name)) AS name,
+          a.scheduled_at,
+          row_number() OVER (
+            ORDER BY a.booking_type = 'walk_in', a.scheduled_at, a.queue_position, a.created_at
+          ) AS sort_order
+        FROM appointments a
+        LEFT JOIN profiles c ON c.id = a.customer_id
+        WHERE a.shop_id = v_shop.id
+        AND a.status = 'waiting'
+        AND (a.booking_type = 'walk_in' OR a.scheduled_at <= now() + interval '15 minutes')
+        ORDER BY sort_order
+        LIMIT least(greatest(p_limit, 0), 50)
+      ) AS w
+    ), '[]'::jsonb)
+  );
+END;
+$$;
@@ -0,0 +1,224 @@
+/*
+  # Queue Notifications
+
+  ## Overview
+  Customers step out while they wait and miss their turn. They can now opt in to an email
+  or a text when they are two away, when they are next and when a barber starts their
+  service.
+
+  A trigger on `appointments` writes each message to an outbox when the queue moves. A
+  database webhook on the outbox calls the `send-notifications` Edge Function, which
+  delivers the message and records the result. Each message is sent at most once per
+  appointment and channel, so a customer who is moved back and reaches the same spot again
+  is not notified twice.
+
+  ## New Tables
+
+  ### 1. `notification_preferences`
+  Per-user opt-in, off until the customer turns it on
+  - `profile_id` (uuid, primary key) - References profiles
+  - `email_enabled` (boolean) - Send queue updates to the profile's email
+  - `sms_enabled` (boolean) - Send queue updates to the profile's phone
+  - `updated_at` (timestamptz)
+
+  ### 2. `queue_notifications`
+  Outbox of queue messages
+  - `id` (uuid, primary key)
+  - `appointment_id` (uuid) - References appointments
+  - `profile_id` (uuid) - The customer, references profiles
+  - `kind` (text) - 'two_away', 'next' or 'barber_ready'
+  - `channel` (text) - 'email' or 'sms'
+  - `recipient` (text) - Email address or phone number at the time the message was queued
+  - `status` (text) - 'pending', 'sending', 'sent' or 'failed'
+  - `error` (text, optional) - Why delivery failed
+  - `created_at`, `sent_at` (timestamptz)
+  - `claimed_at` (timestamptz, optional) - When a run of the Edge Function last claimed the
+    row for delivery. Rows left 'sending' by a run that crashed or timed out are picked up
+    again once their claim is older than the function's timeout.
+
+  ## Functions
+  - `notification_recipients(profile_id)` - The channels and addresses a customer opted in
+    to. Text messages need a phone number on the profile.
+  - `enqueue_queue_notifications()` - Statement-level AFTER INSERT, UPDATE and DELETE
+    trigger on `appointments`. Queues 'barber_ready' when a service starts, and 'next' or
+    'two_away' for the customers with 0 or 2 people ahead in `queue_positions(shop_id)`,
+    the same count `get_my_wait_estimates` shows. Bookings that are not due yet are not
+    notified until they join the queue. Each shop touched by the statement is counted
+    once, however many of its appointments changed.
+
+  ## Webhook
+  - `queue_notifications_send` posts each new outbox row to the local Edge Function. It is
+    only created where database webhooks are available. Hosted projects point a webhook
+    at the deployed function from the dashboard instead.
+
+  ## Security
+  - Notification preferences: Users can view, create and update their own
+  - Queue notifications: Customers can view their own. Rows are written by the trigger and
+    updated by the Edge Function with the service role.
+  - Guests checked in at the kiosk are never notified; they have not opted in.
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  profile_id uuid PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  email_enabled boolean NOT NULL DEFAULT false,
+  sms_enabled boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own notification preferences"
+  ON notification_preferences FOR SELECT
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+CREATE POLICY "Users can create own notification preferences"
+  ON notification_preferences FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can update own notification preferences"
+  ON notification_preferences FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = profile_id)
+  WITH CHECK (auth.uid() = profile_id);
+
+CREATE TABLE IF NOT EXISTS queue_notifications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  appointment_id uuid NOT NULL REFERENCES appointments(id) ON DELETE CASCADE,
+  profile_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('two_away', 'next', 'barber_ready')),
+  channel text NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed')),
+  error text,
+  created_at timestamptz DEFAULT now(),
+  sent_at timestamptz,
+  claimed_at timestamptz,
+  UNIQUE (appointment_id, kind, channel)
+);
+
+CREATE INDEX IF NOT EXISTS idx_queue_notifications_profile ON queue_notifications(profile_id);
+CREATE INDEX IF NOT EXISTS idx_queue_notifications_pending ON queue_notifications(created_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_queue_notifications_claimed ON queue_notifications(claimed_at)
+  WHERE status = 'sending';
+
+ALTER TABLE queue_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customers can view own queue notifications"
+  ON queue_notifications FOR SELECT
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+CREATE OR REPLACE FUNCTION notification_recipients(p_profile_id uuid)
+RETURNS TABLE (channel text, recipient text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'email', p.email
+  FROM profiles p
+  JOIN notification_preferences n ON n.profile_id = p.id
+  WHERE p.id = p_profile_id
+  AND n.email_enabled
+  UNION ALL
+  SELECT 'sms', p.phone
+  FROM profiles p
+  JOIN notification_preferences n ON n.profile_id = p.id
+  WHERE p.id = p_profile_id
+  AND n.sms_enabled
+  AND p.phone IS NOT NULL;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notification_recipients(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION enqueue_queue_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_ids uuid[];
+BEGIN
+  -- Each trigger below only defines the transition tables its event has.
+  IF TG_OP = 'INSERT' THEN
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids FROM new_rows;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO queue_notifications (appointment_id, profile_id, kind, channel, recipient)
+    SELECT n.id, n.customer_id, 'barber_ready', r.channel, r.recipient
+    FROM new_rows n
+    JOIN old_rows o ON o.id = n.id
+    CROSS JOIN LATERAL notification_recipients(n.customer_id) r
+    WHERE o.status = 'waiting'
+    AND n.status = 'in_progress'
+    ON CONFLICT (appointment_id, kind, channel) DO NOTHING;
+
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids
+    FROM (
+      SELECT shop_id FROM new_rows
+      UNION
+      SELECT shop_id FROM old_rows
+    ) changed;
+  ELSE
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids FROM old_rows;
+  END IF;
+
+  INSERT INTO queue_notifications (appointment_id, profile_id, kind, channel, recipient)
+  SELECT
+    a.id,
+    a.customer_id,
+    CASE WHEN q.people_ahead = 0 THEN 'next' ELSE 'two_away' END,
+    r.channel,
+    r.recipient
+  FROM unnest(v_shop_ids) AS shop(id)
+  CROSS JOIN LATERAL queue_positions(shop.id) q
+  JOIN appointments a ON a.id = q.appointment_id
+  CROSS JOIN LATERAL notification_recipients(a.customer_id) r
+  WHERE q.people_ahead IN (0, 2)
+  ON CONFLICT (appointment_id, kind, channel) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS appointments_enqueue_notifications_insert ON appointments;
+CREATE TRIGGER appointments_enqueue_notifications_insert
+  AFTER INSERT ON appointments
+  REFERENCING NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION enqueue_queue_notifications();
+
+DROP TRIGGER IF EXISTS appointments_enqueue_notifications_update ON appointments;
+CREATE TRIGGER appointments_enqueue_notifications_update
+  AFTER UPDATE ON appointments
+  REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION enqueue_queue_notifications();
+
+DROP TRIGGER IF EXISTS appointments_enqueue_notifications_delete ON appointments;
+CREATE TRIGGER appointments_enqueue_notifications_delete
+  AFTER DELETE ON appointments
+  REFERENCING OLD TABLE AS old_rows
+  FOR EACH STATEMENT
+  EXECUTE FUNCTION enqueue_queue_notifications();
+
+DO $$
+BEGIN
+  IF to_regproc('supabase_functions.http_request') IS NOT NULL THEN
+    DROP TRIGGER IF EXISTS queue_notifications_send ON queue_notifications;
+    CREATE TRIGGER queue_notifications_send
+      AFTER INSERT ON queue_notifications
+      FOR EACH ROW
+      EXECUTE FUNCTION supabase_functions.http_request(
+        'http://host.docker.internal:54321/functions/v1/send-notifications',
+        'POST',
+        '{"Content-Type": "application/json"}',
+        '{}',
+        '5000'
+      );
+  END IF;
+END;
+$$;
@@ -0,0 +1,153 @@
+/*
+  # Web Push Notifications
+
+  ## Overview
+  Customers can turn on browser notifications from their dashboard. They get one when
+  they are next and when their barber starts their service, even with the tab in the
+  background. Each browser the customer turns them on in has its own subscription.
+
+  Push messages go through the same outbox as email and texts: the appointments trigger
+  queues one row per subscription and the `send-notifications` Edge Function sends it.
+
+  ## New Tables
+
+  ### 1. `push_subscriptions`
+  Web Push subscriptions, one per profile and browser
+  - `id` (uuid, primary key)
+  - `profile_id` (uuid) - References profiles
+  - `endpoint` (text) - Push service URL for the browser
+  - `p256dh` (text) - Browser public key used to encrypt messages
+  - `auth` (text) - Browser authentication secret
+  - `created_at` (timestamptz)
+  - Unique on (`profile_id`, `endpoint`)
+
+  ## Changes
+  - `queue_notifications.channel` now also allows 'push', with the endpoint as recipient.
+    Messages are unique per recipient, so every subscribed browser gets its own.
+  - `notification_recipients(profile_id)` also returns the profile's push subscriptions.
+    Having a subscription is the opt-in.
+  - `enqueue_queue_notifications()` does not push 'two_away' messages.
+
+  ## Security
+  - Push subscriptions: Users can view, add, refresh and remove their own
+*/
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  profile_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  endpoint text NOT NULL,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (profile_id, endpoint)
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_endpoint ON push_subscriptions(endpoint);
+
+ALTER TABLE push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own push subscriptions"
+  ON push_subscriptions FOR SELECT
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+CREATE POLICY "Users can add own push subscriptions"
+  ON push_subscriptions FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can refresh own push subscriptions"
+  ON push_subscriptions FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = profile_id)
+  WITH CHECK (auth.uid() = profile_id);
+
+CREATE POLICY "Users can remove own push subscriptions"
+  ON push_subscriptions FOR DELETE
+  TO authenticated
+  USING (auth.uid() = profile_id);
+
+ALTER TABLE queue_notifications
+  DROP CONSTRAINT IF EXISTS queue_notifications_channel_check,
+  ADD CONSTRAINT queue_notifications_channel_check CHECK (channel IN ('email', 'sms', 'push'));
+
+ALTER TABLE queue_notifications
+  DROP CONSTRAINT IF EXISTS queue_notifications_appointment_id_kind_channel_key,
+  ADD CONSTRAINT queue_notifications_appointment_id_kind_channel_recipient_key
+    UNIQUE (appointment_id, kind, channel, recipient);
+
+CREATE OR REPLACE FUNCTION notification_recipients(p_profile_id uuid)
+RETURNS TABLE (channel text, recipient text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT 'email', p.email
+  FROM profiles p
+  JOIN notification_preferences n ON n.profile_id = p.id
+  WHERE p.id = p_profile_id
+  AND n.email_enabled
+  UNION ALL
+  SELECT 'sms', p.phone
+  FROM profiles p
+  JOIN notification_preferences n ON n.profile_id = p.id
+  WHERE p.id = p_profile_id
+  AND n.sms_enabled
+  AND p.phone IS NOT NULL
+  UNION ALL
+  SELECT 'push', s.endpoint
+  FROM push_subscriptions s
+  WHERE s.profile_id = p_profile_id;
+$$;
+
+CREATE OR REPLACE FUNCTION enqueue_queue_notifications()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_shop_ids uuid[];
+BEGIN
+  -- Each trigger below only defines the transition tables its event has.
+  IF TG_OP = 'INSERT' THEN
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids FROM new_rows;
+  ELSIF TG_OP = 'UPDATE' THEN
+    INSERT INTO queue_notifications (appointment_id, profile_id, kind, channel, recipient)
+    SELECT n.id, n.customer_id, 'barber_ready', r.channel, r.recipient
+    FROM new_rows n
+    JOIN old_rows o ON o.id = n.id
+    CROSS JOIN LATERAL notification_recipients(n.customer_id) r
+    WHERE o.status = 'waiting'
+    AND n.status = 'in_progress'
+    ON CONFLICT (appointment_id, kind, channel, recipient) DO NOTHING;
+
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids
+    FROM (
+      SELECT shop_id FROM new_rows
+      UNION
+      SELECT shop_id FROM old_rows
+    ) changed;
+  ELSE
+    SELECT array_agg(DISTINCT shop_id) INTO v_shop_ids FROM old_rows;
+  END IF;
+
+  INSERT INTO queue_notifications (appointment_id, profile_id, kind, channel, recipient)
+  SELECT
+    a.id,
+    a.customer_id,
+    CASE WHEN q.people_ahead = 0 THEN 'next' ELSE 'two_away' END,
+    r.channel,
+    r.recipient
+  FROM unnest(v_shop_ids) AS shop(id)
+  CROSS JOIN LATERAL queue_positions(shop.id) q
+  JOIN appointments a ON a.id = q.appointment_id
+  CROSS JOIN LATERAL notification_recipients(a.customer_id) r
+  WHERE q.people_ahead IN (0, 2)
+  AND NOT (r.channel = 'push' AND q.people_ahead = 2)
+  ON CONFLICT (appointment_id, kind, channel, recipient) DO NOTHING;
+
+  RETURN NULL;
+END;
+$$;
@@ -0,0 +1,98 @@
+// Books many walk-ins at the same moment, each over its own connection, to show that the
+// queue counter hands out every position exactly once.
+//
+// Needs the local stack and its keys:
+//   supabase start
+//   eval "$(supabase status -o env)" && npm run test:concurrency
+
+import { afterAll, beforeAll, expect, it } from 'vitest';
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+
+const CUSTOMERS = 12;
+const PASSWORD = 'concurrent-booking-test';
+
+const { API_URL, ANON_KEY, SERVICE_ROLE_KEY } = process.env;
+if (!API_URL || !ANON_KEY || !SERVICE_ROLE_KEY) {
+  throw new Error('Set API_URL, ANON_KEY and SERVICE_ROLE_KEY, e.g. eval "$(supabase status -o env)"');
+}
+
+const options = { auth: { persistSession: false, autoRefreshToken: false } };
+const admin = createClient(API_URL, SERVICE_ROLE_KEY, options);
+const run = Date.now();
+const userIds: string[] = [];
+const customers: SupabaseClient[] = [];
+let shopId = '';
+let serviceId = '';
+
+// A fixed-offset zone where it is around midday, so the shop is open and its barber on
+// shift whenever the test runs. Etc/GMT offsets have the opposite sign to UTC offsets.
+function middayTimezone() {
+  const hoursBehind = new Date().getUTCHours() - 12;
+  if (hoursBehind === 0) return 'Etc/GMT';
+  return hoursBehind > 0 ? `Etc/GMT+${hoursBehind}` : `Etc/GMT${hoursBehind}`;
+}
+
+async function createUser(label: string, role: 'barber' | 'customer') {
+  const email = `${label}-${run}@barbereasy.test`;
+  const { data, error } = await admin.auth.admin.createUser({ email, password: PASSWORD, email_confirm: true });
+  if (error) throw error;
+  userIds.push(data.user.id);
+
+  const profile = await admin.from('profiles').insert({ id: data.user.id, email, full_name: label, role });
+  if (profile.error) throw profile.error;
+  return { id: data.user.id, email };
+}
+
+beforeAll(async () => {
+  const barber = await createUser('concurrent-barber', 'barber');
+
+  const shop = await admin
+    .from('shops')
+    .insert({ name: `Concurrent Cuts ${run}`, address: '1 Test Street', timezone: middayTimezone() })
+    .select('id')
+    .single();
+  if (shop.error) throw shop.error;
+  shopId = shop.data.id;
+
+  const membership = await admin.from('shop_barbers').insert({ shop_id: shopId, barber_id: barber.id });
+  if (membership.error) throw membership.error;
+
+  const service = await admin
+    .from('services')
+    .insert({ shop_id: shopId, name: 'Haircut', price: 20, duration_minutes: 30 })
+    .select('id')
+    .single();
+  if (service.error) throw service.error;
+  serviceId = service.data.id;
+
+  for (let i = 0; i < CUSTOMERS; i++) {
+    const { email } = await createUser(`concurrent-customer-${i}`, 'customer');
+    const client = createClient(API_URL, ANON_KEY, options);
+    const { error } = await client.auth.signInWithPassword({ email, password: PASSWORD });
+    if (error) throw error;
+    customers.push(client);
+  }
+});
+
+afterAll(async () => {
+  if (shopId) await admin.from('shops').delete().eq('id', shopId);
+  for (const id of userIds) await admin.auth.admin.deleteUser(id);
+});
+
+it('gives customers who book at the same moment unique, contiguous positions', async () => {
+  const results = await Promise.all(customers.map(client =>
+    client.rpc('book_appointment', { p_shop_id: shopId, p_service_id: serviceId })
+  ));
+
+  for (const { error } of results) expect(error).toBeNull();
+
+  const { data, error } = await admin
+    .from('appointments')
+    .select('queue_position')
+    .eq('shop_id', shopId)
+    .order('queue_position');
+  expect(error).toBeNull();
+  expect(data!.map(row => row.queue_position)).toEqual(
+    Array.from({ length: CUSTOMERS }, (_, i) => i + 1)
+  );
+});
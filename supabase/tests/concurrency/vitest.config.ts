@@ -0,0 +1,10 @@
+import { defineConfig } from 'vitest/config';
+
+// Runs against the local stack from `supabase start`; see booking.test.ts.
+export default defineConfig({
+  test: {
+    include: ['supabase/tests/concurrency/*.test.ts'],
+    testTimeout: 60000,
+    hookTimeout: 60000,
+  },
+});
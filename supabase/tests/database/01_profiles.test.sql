@@ -0,0 +1,96 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(11);
+
+SELECT tests.create_user('pat@barbereasy.test', 'barber', 'Pat Barber');
+SELECT tests.create_user('cleo@barbereasy.test', 'customer', 'Cleo Customer');
+SELECT tests.create_user('odd@barbereasy.test', 'admin', 'Odd Role');
+
+-- Signup trigger
+
+SELECT results_eq(
+  $$ SELECT role FROM profiles WHERE email LIKE '%@barbereasy.test' ORDER BY email $$,
+  ARRAY['customer', 'customer', 'barber'],
+  'signup creates a profile with the requested role, and unknown roles become customers'
+);
+
+-- Authenticated users
+
+SELECT tests.authenticate_as('cleo@barbereasy.test');
+
+SELECT is(
+  (SELECT count(*) FROM profiles WHERE email LIKE '%@barbereasy.test'),
+  3::bigint,
+  'signed-in users can view every profile'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE profiles SET phone = '+15551234567' WHERE email = 'cleo@barbereasy.test' RETURNING id $$,
+  'users can update their own profile'
+);
+
+SELECT is_empty(
+  $$ UPDATE profiles SET full_name = 'Hijacked' WHERE email = 'pat@barbereasy.test' RETURNING id $$,
+  'users cannot update someone else''s profile'
+);
+
+SELECT throws_ok(
+  $$ UPDATE profiles SET id = tests.user_id('pat@barbereasy.test') WHERE email = 'cleo@barbereasy.test' $$,
+  '42501',
+  NULL,
+  'users cannot move their profile to another account'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO profiles (id, email, full_name, role)
+     VALUES (tests.user_id('odd@barbereasy.test'), 'odd@barbereasy.test', 'Odd', 'barber') $$,
+  '42501',
+  NULL,
+  'users cannot create a profile for another account'
+);
+
+SELECT throws_ok(
+  $$ UPDATE profiles SET phone = 'call me' WHERE email = 'cleo@barbereasy.test' $$,
+  '23514',
+  NULL,
+  'phone numbers must be digits with an optional leading +'
+);
+
+-- Anonymous visitors
+
+SELECT tests.authenticate_as_anon();
+
+SELECT is_empty(
+  $$ SELECT id FROM profiles $$,
+  'anonymous visitors cannot view profiles'
+);
+
+-- Account deletion
+
+SELECT tests.clear_authentication();
+SELECT tests.create_shop('pat@barbereasy.test', 'Solo Cuts');
+INSERT INTO appointments (shop_id, customer_id, service_type)
+VALUES (tests.shop_id('Solo Cuts'), tests.user_id('cleo@barbereasy.test'), 'Haircut');
+
+SELECT tests.authenticate_as('pat@barbereasy.test');
+
+SELECT lives_ok(
+  $$ SELECT delete_my_account() $$,
+  'users can delete their own account'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT is_empty(
+  $$ SELECT id FROM profiles WHERE email = 'pat@barbereasy.test' $$,
+  'deleting the account removes the profile'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM shops WHERE name = 'Solo Cuts' $$,
+  'deleting the account removes the shop they ran alone, queue and all'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
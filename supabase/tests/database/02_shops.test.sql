@@ -0,0 +1,164 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(20);
+
+SELECT tests.create_user('olga@barbereasy.test', 'barber', 'Olga Owner');
+SELECT tests.create_user('mia@barbereasy.test', 'barber', 'Mia Manager');
+SELECT tests.create_user('stan@barbereasy.test', 'barber', 'Stan Staff');
+SELECT tests.create_user('sid@barbereasy.test', 'barber', 'Sid Staff');
+SELECT tests.create_user('otto@barbereasy.test', 'barber', 'Otto Outsider');
+SELECT tests.create_user('cora@barbereasy.test', 'customer', 'Cora Customer');
+
+SELECT tests.create_shop('olga@barbereasy.test', 'Test Fades');
+SELECT tests.add_member('Test Fades', 'mia@barbereasy.test', 'manager');
+SELECT tests.add_member('Test Fades', 'stan@barbereasy.test', 'staff');
+SELECT tests.add_member('Test Fades', 'sid@barbereasy.test', 'staff');
+
+-- Viewing shops
+
+SELECT tests.authenticate_as('cora@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ SELECT id FROM shops WHERE name = 'Test Fades' $$,
+  'customers can view shops'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO shops (name, address) VALUES ('Cora Cuts', '2 Test Street') $$,
+  '42501',
+  NULL,
+  'customers cannot create shops'
+);
+
+SELECT tests.authenticate_as_anon();
+
+SELECT is_empty(
+  $$ SELECT id FROM shops $$,
+  'anonymous visitors cannot view shops'
+);
+
+-- Creating shops
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO shops (name, address) VALUES ('Otto Trims', '3 Test Street') $$,
+  'barbers can create shops'
+);
+
+SELECT results_eq(
+  $$ SELECT role FROM shop_barbers WHERE shop_id = tests.shop_id('Otto Trims') AND barber_id = auth.uid() $$,
+  ARRAY['owner'],
+  'the barber who creates a shop becomes its owner'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_barbers (shop_id, barber_id, role)
+     VALUES (tests.shop_id('Test Fades'), auth.uid(), 'staff') $$,
+  '42501',
+  NULL,
+  'barbers cannot add themselves to a shop without an invitation'
+);
+
+-- Editing and deleting shops
+
+SELECT is_empty(
+  $$ UPDATE shops SET name = 'Otto Fades' WHERE name = 'Test Fades' RETURNING id $$,
+  'barbers cannot edit shops they do not work at'
+);
+
+SELECT tests.authenticate_as('stan@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE shops SET phone = '+15550000000' WHERE name = 'Test Fades' RETURNING id $$,
+  'staff cannot edit their shop'
+);
+
+SELECT tests.authenticate_as('mia@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ UPDATE shops SET phone = '+15550000001' WHERE name = 'Test Fades' RETURNING id $$,
+  'managers can edit their shop'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM shops WHERE name = 'Test Fades' RETURNING id $$,
+  'managers cannot delete their shop'
+);
+
+-- Member roles
+
+SELECT is_empty(
+  $$ UPDATE shop_barbers SET role = 'owner'
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = auth.uid() RETURNING id $$,
+  'managers cannot promote themselves'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM shop_barbers
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = tests.user_id('olga@barbereasy.test') RETURNING id $$,
+  'managers cannot remove the owner'
+);
+
+SELECT tests.authenticate_as('stan@barbereasy.test');
+
+SELECT is_empty(
+  $$ DELETE FROM shop_barbers
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = tests.user_id('sid@barbereasy.test') RETURNING id $$,
+  'staff cannot remove other members'
+);
+
+SELECT tests.authenticate_as('olga@barbereasy.test');
+
+SELECT throws_ok(
+  $$ UPDATE shop_barbers SET role = 'manager'
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = auth.uid() $$,
+  '42501',
+  NULL,
+  'the only owner cannot step down'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM shop_barbers
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = auth.uid() RETURNING id $$,
+  'the only owner cannot leave'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE shop_barbers SET role = 'manager'
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = tests.user_id('stan@barbereasy.test')
+     RETURNING id $$,
+  'owners can change member roles'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM shop_barbers
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = tests.user_id('sid@barbereasy.test') RETURNING id $$,
+  'owners can remove members'
+);
+
+SELECT tests.authenticate_as('stan@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ DELETE FROM shop_barbers
+     WHERE shop_id = tests.shop_id('Test Fades') AND barber_id = auth.uid() RETURNING id $$,
+  'members can leave a shop'
+);
+
+SELECT tests.authenticate_as('olga@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ DELETE FROM shops WHERE name = 'Test Fades' RETURNING id $$,
+  'owners can delete their shop'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT is_empty(
+  $$ SELECT id FROM shop_barbers WHERE barber_id = tests.user_id('mia@barbereasy.test') $$,
+  'deleting a shop removes its memberships'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
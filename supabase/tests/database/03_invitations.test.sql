@@ -0,0 +1,232 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(27);
+
+SELECT tests.create_user('olga@barbereasy.test', 'barber', 'Olga Owner');
+SELECT tests.create_user('mia@barbereasy.test', 'barber', 'Mia Manager');
+SELECT tests.create_user('stan@barbereasy.test', 'barber', 'Stan Staff');
+SELECT tests.create_user('ivy@barbereasy.test', 'barber', 'Ivy Invitee');
+SELECT tests.create_user('ian@barbereasy.test', 'barber', 'Ian Invitee');
+SELECT tests.create_user('nate@barbereasy.test', 'barber', 'Nate Newcomer');
+SELECT tests.create_user('carla@barbereasy.test', 'customer', 'Carla Customer');
+SELECT tests.create_user('rex@barbereasy.test', 'barber', 'Rex Rival');
+SELECT tests.create_user('rita@barbereasy.test', 'barber', 'Rita Rival');
+
+SELECT tests.create_shop('olga@barbereasy.test', 'Invite Cuts');
+SELECT tests.add_member('Invite Cuts', 'mia@barbereasy.test', 'manager');
+SELECT tests.add_member('Invite Cuts', 'stan@barbereasy.test', 'staff');
+
+SELECT tests.create_shop('rex@barbereasy.test', 'Rival Cuts');
+SELECT tests.add_member('Rival Cuts', 'rita@barbereasy.test', 'staff');
+
+INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+VALUES
+  (tests.shop_id('Invite Cuts'), 'carla@barbereasy.test', 'staff', tests.user_id('olga@barbereasy.test')),
+  (tests.shop_id('Invite Cuts'), 'nate@barbereasy.test', 'staff', tests.user_id('olga@barbereasy.test')),
+  (tests.shop_id('Rival Cuts'), 'ivy@barbereasy.test', 'staff', tests.user_id('rex@barbereasy.test'));
+
+-- Sending invitations
+
+SELECT tests.authenticate_as('mia@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Invite Cuts'), 'ivy@barbereasy.test', 'staff', auth.uid()) $$,
+  'managers can invite staff'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Invite Cuts'), 'ian@barbereasy.test', 'manager', auth.uid()) $$,
+  '42501',
+  NULL,
+  'managers cannot invite managers'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Invite Cuts'), 'ian@barbereasy.test', 'staff', tests.user_id('olga@barbereasy.test')) $$,
+  '42501',
+  NULL,
+  'invitations are always sent by the signed-in barber'
+);
+
+SELECT tests.authenticate_as('olga@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Invite Cuts'), 'ian@barbereasy.test', 'manager', auth.uid()) $$,
+  'owners can invite managers'
+);
+
+SELECT tests.authenticate_as('stan@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Invite Cuts'), 'nobody@barbereasy.test', 'staff', auth.uid()) $$,
+  '42501',
+  NULL,
+  'staff cannot invite barbers'
+);
+
+-- Viewing invitations
+
+SELECT is_empty(
+  $$ SELECT id FROM shop_invitations WHERE shop_id = tests.shop_id('Invite Cuts') $$,
+  'staff cannot view their shop''s invitations'
+);
+
+SELECT tests.authenticate_as('mia@barbereasy.test');
+
+SELECT is(
+  (SELECT count(*) FROM shop_invitations WHERE shop_id = tests.shop_id('Invite Cuts')),
+  4::bigint,
+  'managers can view their shop''s invitations'
+);
+
+SELECT tests.authenticate_as('ivy@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT DISTINCT email FROM shop_invitations $$,
+  ARRAY['ivy@barbereasy.test'],
+  'invitees only see invitations sent to their email'
+);
+
+SELECT tests.authenticate_as('nate@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM shop_invitations WHERE email = 'ivy@barbereasy.test' $$,
+  'barbers cannot view invitations sent to someone else'
+);
+
+-- Responding
+
+SELECT tests.authenticate_as('ivy@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE shop_invitations SET status = 'accepted' RETURNING id $$,
+  'invitees cannot mark an invitation accepted directly'
+);
+
+SELECT lives_ok(
+  $$ SELECT accept_shop_invitation((SELECT id FROM shop_invitations WHERE email = 'ivy@barbereasy.test' AND shop_id = tests.shop_id('Invite Cuts'))) $$,
+  'invitees can accept an invitation'
+);
+
+SELECT results_eq(
+  $$ SELECT role FROM shop_barbers WHERE shop_id = tests.shop_id('Invite Cuts') AND barber_id = auth.uid() $$,
+  ARRAY['staff'],
+  'accepting an invitation adds the barber with the invited role'
+);
+
+SELECT is(
+  (SELECT status FROM shop_invitations WHERE email = 'ivy@barbereasy.test' AND shop_id = tests.shop_id('Invite Cuts')),
+  'accepted',
+  'accepted invitations are no longer pending'
+);
+
+SELECT tests.authenticate_as('ian@barbereasy.test');
+
+SELECT lives_ok(
+  $$ SELECT accept_shop_invitation((SELECT id FROM shop_invitations WHERE email = 'ian@barbereasy.test')) $$,
+  'invitees can accept a manager invitation'
+);
+
+SELECT results_eq(
+  $$ SELECT role FROM shop_barbers WHERE shop_id = tests.shop_id('Invite Cuts') AND barber_id = auth.uid() $$,
+  ARRAY['manager'],
+  'manager invitations make the barber a manager'
+);
+
+SELECT tests.authenticate_as('carla@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT accept_shop_invitation((SELECT id FROM shop_invitations WHERE email = 'carla@barbereasy.test')) $$,
+  'P0001',
+  'Only barber accounts can join a shop',
+  'customers cannot join a shop'
+);
+
+SELECT lives_ok(
+  $$ SELECT decline_shop_invitation((SELECT id FROM shop_invitations WHERE email = 'carla@barbereasy.test')) $$,
+  'customers can decline an invitation'
+);
+
+-- Revoking
+
+SELECT tests.authenticate_as('mia@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ UPDATE shop_invitations SET status = 'revoked', responded_at = now()
+     WHERE email = 'nate@barbereasy.test' RETURNING id $$,
+  'managers can revoke pending invitations'
+);
+
+SELECT is_empty(
+  $$ UPDATE shop_invitations SET status = 'pending'
+     WHERE email = 'nate@barbereasy.test' RETURNING id $$,
+  'revoked invitations cannot be reopened'
+);
+
+SELECT tests.authenticate_as('nate@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT accept_shop_invitation((SELECT id FROM shop_invitations WHERE email = 'nate@barbereasy.test')) $$,
+  'P0001',
+  'Invitation not found or no longer pending',
+  'revoked invitations cannot be accepted'
+);
+
+-- Other shops
+
+SELECT tests.authenticate_as('mia@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_invitations (shop_id, email, role, invited_by)
+     VALUES (tests.shop_id('Rival Cuts'), 'ian@barbereasy.test', 'staff', auth.uid()) $$,
+  '42501',
+  NULL,
+  'managers cannot invite barbers to another shop'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM shop_invitations WHERE shop_id = tests.shop_id('Rival Cuts') $$,
+  'managers cannot view another shop''s invitations'
+);
+
+SELECT is_empty(
+  $$ UPDATE shop_invitations SET status = 'revoked', responded_at = now()
+     WHERE shop_id = tests.shop_id('Rival Cuts') RETURNING id $$,
+  'managers cannot revoke another shop''s invitations'
+);
+
+SELECT tests.authenticate_as('olga@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE shop_barbers SET role = 'manager'
+     WHERE shop_id = tests.shop_id('Rival Cuts') RETURNING id $$,
+  'owners cannot change roles in another shop'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM shop_barbers WHERE shop_id = tests.shop_id('Rival Cuts') RETURNING id $$,
+  'owners cannot remove members of another shop'
+);
+
+SELECT is_empty(
+  $$ UPDATE shop_invitations SET status = 'revoked', responded_at = now()
+     WHERE shop_id = tests.shop_id('Rival Cuts') RETURNING id $$,
+  'owners cannot revoke another shop''s invitations'
+);
+
+SELECT tests.authenticate_as('ivy@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT status FROM shop_invitations WHERE shop_id = tests.shop_id('Rival Cuts') $$,
+  ARRAY['pending'],
+  'another shop''s invitations are still pending'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,140 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(18);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('sam@barbereasy.test', 'barber', 'Sam Staff');
+SELECT tests.create_user('otto@barbereasy.test', 'barber', 'Otto Outsider');
+SELECT tests.create_user('cora@barbereasy.test', 'customer', 'Cora Customer');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Menu Cuts');
+SELECT tests.add_member('Menu Cuts', 'sam@barbereasy.test', 'staff');
+SELECT tests.create_shop('otto@barbereasy.test', 'Other Cuts');
+SELECT tests.create_service('Menu Cuts', 'Haircut');
+
+-- Services
+
+SELECT tests.authenticate_as('cora@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ SELECT id FROM services WHERE shop_id = tests.shop_id('Menu Cuts') $$,
+  'customers can view a shop''s services'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO services (shop_id, name) VALUES (tests.shop_id('Menu Cuts'), 'Free Cut') $$,
+  '42501',
+  NULL,
+  'customers cannot add services'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM services WHERE shop_id = tests.shop_id('Menu Cuts') RETURNING id $$,
+  'customers cannot delete services'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO services (shop_id, name) VALUES (tests.shop_id('Menu Cuts'), 'Otto Special') $$,
+  '42501',
+  NULL,
+  'barbers cannot add services to shops they do not work at'
+);
+
+SELECT is_empty(
+  $$ UPDATE services SET price = 0 WHERE shop_id = tests.shop_id('Menu Cuts') RETURNING id $$,
+  'barbers cannot edit services at shops they do not work at'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO services (shop_id, name, price, duration_minutes)
+     VALUES (tests.shop_id('Menu Cuts'), 'Beard Trim', 12, 15) $$,
+  'shop members can add services'
+);
+
+SELECT isnt_empty(
+  $$ UPDATE services SET price = 15 WHERE id = tests.service_id('Menu Cuts', 'Beard Trim') RETURNING id $$,
+  'shop members can edit services'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM services WHERE id = tests.service_id('Menu Cuts', 'Beard Trim') RETURNING id $$,
+  'shop members can delete services'
+);
+
+-- Weekly hours, breaks and time off
+
+SELECT lives_ok(
+  $$ INSERT INTO barber_schedules (shop_id, barber_id, day_of_week, start_time, end_time)
+     VALUES (tests.shop_id('Menu Cuts'), auth.uid(), 1, '09:00', '17:00') $$,
+  'barbers can set their own hours'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO barber_breaks (shop_id, barber_id, day_of_week, start_time, end_time)
+     VALUES (tests.shop_id('Menu Cuts'), auth.uid(), 1, '12:00', '12:30') $$,
+  'barbers can add their own breaks'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO barber_time_off (shop_id, barber_id, starts_at, ends_at, reason)
+     VALUES (tests.shop_id('Menu Cuts'), auth.uid(), now() + interval '7 days', now() + interval '8 days', 'Holiday') $$,
+  'barbers can book their own time off'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO barber_schedules (shop_id, barber_id, day_of_week, start_time, end_time)
+     VALUES (tests.shop_id('Menu Cuts'), tests.user_id('bea@barbereasy.test'), 2, '09:00', '17:00') $$,
+  '42501',
+  NULL,
+  'barbers cannot set hours for someone else'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO barber_schedules (shop_id, barber_id, day_of_week, start_time, end_time)
+     VALUES (tests.shop_id('Other Cuts'), auth.uid(), 2, '09:00', '17:00') $$,
+  '42501',
+  NULL,
+  'barbers cannot set hours at a shop they do not work at'
+);
+
+SELECT throws_ok(
+  $$ UPDATE barber_schedules SET shop_id = tests.shop_id('Other Cuts') WHERE barber_id = auth.uid() $$,
+  '42501',
+  NULL,
+  'barbers cannot move their hours to a shop they do not work at'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM barber_breaks WHERE barber_id = auth.uid() RETURNING id $$,
+  'barbers can remove their own breaks'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE barber_time_off SET ends_at = ends_at + interval '1 day'
+     WHERE barber_id = tests.user_id('sam@barbereasy.test') RETURNING id $$,
+  'owners cannot change a barber''s time off'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT is_empty(
+  $$ DELETE FROM barber_schedules WHERE barber_id = tests.user_id('sam@barbereasy.test') RETURNING id $$,
+  'barbers cannot delete someone else''s hours'
+);
+
+SELECT tests.authenticate_as('cora@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ SELECT id FROM barber_schedules WHERE barber_id = tests.user_id('sam@barbereasy.test') $$,
+  'customers can view barbers'' hours'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
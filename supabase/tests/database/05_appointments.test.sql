@@ -0,0 +1,219 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(24);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('sam@barbereasy.test', 'barber', 'Sam Staff');
+SELECT tests.create_user('otto@barbereasy.test', 'barber', 'Otto Outsider');
+SELECT tests.create_user('carl@barbereasy.test', 'customer', 'Carl Customer');
+SELECT tests.create_user('dana@barbereasy.test', 'customer', 'Dana Customer');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Queue Cuts');
+SELECT tests.add_member('Queue Cuts', 'sam@barbereasy.test', 'staff');
+SELECT tests.create_shop('otto@barbereasy.test', 'Other Cuts');
+
+INSERT INTO appointments (shop_id, customer_id, service_type, notes)
+VALUES
+  (tests.shop_id('Queue Cuts'), tests.user_id('carl@barbereasy.test'), 'Haircut', 'carl-walk-in'),
+  (tests.shop_id('Queue Cuts'), tests.user_id('dana@barbereasy.test'), 'Haircut', 'dana-walk-in'),
+  (tests.shop_id('Other Cuts'), tests.user_id('dana@barbereasy.test'), 'Haircut', 'dana-other');
+
+-- Viewing appointments
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT notes FROM appointments ORDER BY notes $$,
+  ARRAY['carl-walk-in'],
+  'customers only see their own appointments'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT notes FROM appointments ORDER BY notes $$,
+  ARRAY['carl-walk-in', 'dana-walk-in'],
+  'shop staff see their shop''s appointments and no others'
+);
+
+SELECT tests.authenticate_as_anon();
+
+SELECT is_empty(
+  $$ SELECT id FROM appointments $$,
+  'anonymous visitors cannot view appointments'
+);
+
+-- Creating appointments directly
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO appointments (shop_id, customer_id, service_type, notes)
+     VALUES (tests.shop_id('Queue Cuts'), auth.uid(), 'Haircut', 'carl-direct') $$,
+  'customers can create their own appointments'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO appointments (shop_id, customer_id, service_type)
+     VALUES (tests.shop_id('Queue Cuts'), tests.user_id('dana@barbereasy.test'), 'Haircut') $$,
+  '42501',
+  NULL,
+  'customers cannot book for someone else'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO appointments (shop_id, customer_id, service_type, status)
+     VALUES (tests.shop_id('Queue Cuts'), auth.uid(), 'Haircut', 'completed') $$,
+  'P0001',
+  'New appointments must be waiting, not completed',
+  'new appointments must start out waiting'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO appointments (shop_id, customer_id, service_type)
+     VALUES (tests.shop_id('Queue Cuts'), auth.uid(), 'Haircut') $$,
+  '42501',
+  NULL,
+  'barbers cannot book themselves in as customers'
+);
+
+-- Changing appointments directly
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE appointments SET status = 'cancelled' WHERE id = tests.appointment_id('dana-walk-in') RETURNING id $$,
+  'customers cannot cancel someone else''s appointment'
+);
+
+SELECT throws_ok(
+  $$ UPDATE appointments SET status = 'in_progress' WHERE id = tests.appointment_id('carl-walk-in') $$,
+  '42501',
+  NULL,
+  'customers cannot start their own appointment'
+);
+
+SELECT throws_ok(
+  $$ UPDATE appointments SET queue_position = 0 WHERE id = tests.appointment_id('carl-walk-in') $$,
+  '42501',
+  NULL,
+  'customers cannot jump the queue'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT is_empty(
+  $$ UPDATE appointments SET status = 'in_progress' WHERE id = tests.appointment_id('carl-walk-in') RETURNING id $$,
+  'barbers cannot change appointments at shops they do not work at'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM appointments WHERE id = tests.appointment_id('carl-walk-in') RETURNING id $$,
+  'barbers cannot remove appointments at shops they do not work at'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT results_eq(
+  $$ SELECT status FROM appointments WHERE id IN (tests.appointment_id('carl-walk-in'), tests.appointment_id('dana-walk-in')) $$,
+  ARRAY['waiting', 'waiting'],
+  'rejected changes leave the appointments waiting'
+);
+
+-- Cancelling and removing
+
+SELECT tests.authenticate_as('dana@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT cancel_appointment(tests.appointment_id('carl-walk-in')) $$,
+  'P0001',
+  'Appointment not found or you are not allowed to cancel it',
+  'customers cannot cancel someone else''s appointment through the RPC'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT is(
+  (SELECT status FROM cancel_appointment(tests.appointment_id('carl-walk-in'))),
+  'cancelled',
+  'customers can cancel their own appointment'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM appointments WHERE id = tests.appointment_id('carl-direct') RETURNING id $$,
+  'customers cannot delete appointments'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ DELETE FROM appointments WHERE id = tests.appointment_id('carl-direct') RETURNING id $$,
+  'shop staff can remove appointments'
+);
+
+-- Guests without accounts
+
+SELECT lives_ok(
+  $$ INSERT INTO appointments (shop_id, guest_name, service_type)
+     VALUES (tests.shop_id('Queue Cuts'), 'Gus Guest', 'Haircut') $$,
+  'shop staff can check in guests'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO appointments (shop_id, guest_name, service_type)
+     VALUES (tests.shop_id('Queue Cuts'), 'Gail Guest', 'Haircut') $$,
+  '42501',
+  NULL,
+  'barbers cannot check guests in at shops they do not work at'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO appointments (shop_id, guest_name, service_type)
+     VALUES (tests.shop_id('Queue Cuts'), 'Carl''s Friend', 'Haircut') $$,
+  '42501',
+  NULL,
+  'customers cannot check in guests'
+);
+
+-- Queue bookkeeping
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT shop_id FROM shop_queue_counters $$,
+  'queue counters are hidden from barbers'
+);
+
+SELECT throws_ok(
+  $$ SELECT next_queue_position(tests.shop_id('Queue Cuts')) $$,
+  '42501',
+  NULL,
+  'barbers cannot take queue positions directly'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_queue_status (shop_id, waiting_count) VALUES (tests.shop_id('Other Cuts'), 0) $$,
+  '42501',
+  NULL,
+  'customers cannot write queue status'
+);
+
+SELECT tests.authenticate_as_anon();
+
+SELECT results_eq(
+  $$ SELECT waiting_count FROM shop_queue_status WHERE shop_id = tests.shop_id('Queue Cuts') $$,
+  ARRAY[2],
+  'display screens can read queue counts'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,170 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(19);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('sam@barbereasy.test', 'barber', 'Sam Staff');
+SELECT tests.create_user('otto@barbereasy.test', 'barber', 'Otto Outsider');
+SELECT tests.create_user('alice@barbereasy.test', 'customer', 'Alice Anders');
+SELECT tests.create_user('dana@barbereasy.test', 'customer', 'Dana Customer');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Display Cuts');
+SELECT tests.add_member('Display Cuts', 'sam@barbereasy.test', 'staff');
+SELECT tests.create_shop('otto@barbereasy.test', 'Other Cuts');
+
+INSERT INTO appointments (shop_id, customer_id, service_type, notes)
+VALUES (tests.shop_id('Display Cuts'), tests.user_id('alice@barbereasy.test'), 'Haircut', 'alice-walk-in');
+
+INSERT INTO appointments (shop_id, guest_name, service_type)
+VALUES (tests.shop_id('Display Cuts'), 'Gus Guest', 'Haircut');
+
+-- Appointment history
+
+SELECT tests.authenticate_as('alice@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ SELECT id FROM appointment_events WHERE appointment_id = tests.appointment_id('alice-walk-in') $$,
+  'customers can view the history of their appointments'
+);
+
+SELECT tests.authenticate_as('dana@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM appointment_events WHERE appointment_id = tests.appointment_id('alice-walk-in') $$,
+  'customers cannot view the history of someone else''s appointment'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM appointment_events WHERE shop_id = tests.shop_id('Display Cuts') $$,
+  'barbers cannot view appointment history at shops they do not work at'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT is(
+  (SELECT count(*) FROM appointment_events WHERE shop_id = tests.shop_id('Display Cuts') AND event_type = 'created'),
+  2::bigint,
+  'shop staff can view appointment history, including guests'''
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO appointment_events (appointment_id, shop_id, customer_id, event_type)
+     VALUES (tests.appointment_id('alice-walk-in'), tests.shop_id('Display Cuts'),
+       tests.user_id('alice@barbereasy.test'), 'deleted') $$,
+  '42501',
+  NULL,
+  'appointment history cannot be written directly'
+);
+
+SELECT is_empty(
+  $$ UPDATE appointment_events SET event_type = 'deleted' WHERE shop_id = tests.shop_id('Display Cuts') RETURNING id $$,
+  'appointment history cannot be edited'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM appointment_events WHERE shop_id = tests.shop_id('Display Cuts') RETURNING id $$,
+  'appointment history cannot be deleted'
+);
+
+-- Display links
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_display_tokens (shop_id, label, created_by)
+     VALUES (tests.shop_id('Display Cuts'), 'Staff Screen', auth.uid()) $$,
+  '42501',
+  NULL,
+  'staff cannot create display links'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO shop_display_tokens (shop_id, label, created_by)
+     VALUES (tests.shop_id('Display Cuts'), 'Window', auth.uid()) $$,
+  'owners can create display links'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO shop_display_tokens (shop_id, label, created_by)
+     VALUES (tests.shop_id('Display Cuts'), 'Door', tests.user_id('sam@barbereasy.test')) $$,
+  '42501',
+  NULL,
+  'display links are always created by the signed-in barber'
+);
+
+SELECT isnt_empty(
+  $$ SELECT token FROM shop_display_tokens WHERE shop_id = tests.shop_id('Display Cuts') $$,
+  'owners can view their display links'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT token FROM shop_display_tokens $$,
+  'staff cannot view display links'
+);
+
+SELECT tests.authenticate_as('otto@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT token FROM shop_display_tokens WHERE shop_id = tests.shop_id('Display Cuts') $$,
+  'barbers cannot view display links of shops they do not work at'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT set_config(
+  'tests.display_token',
+  (SELECT token FROM shop_display_tokens WHERE shop_id = tests.shop_id('Display Cuts') AND label = 'Window'),
+  true
+);
+
+SELECT tests.authenticate_as_anon();
+
+SELECT is_empty(
+  $$ SELECT token FROM shop_display_tokens $$,
+  'display screens cannot list display links'
+);
+
+SELECT is(
+  get_display_queue(current_setting('tests.display_token')) ->> 'shop_name',
+  'Display Cuts',
+  'display screens can load the queue with a valid link'
+);
+
+SELECT is(
+  jsonb_path_query_array(get_display_queue(current_setting('tests.display_token')), '$.waiting[*].name'),
+  '["Alice A.", "Gus G."]'::jsonb,
+  'display screens only show first names and initials'
+);
+
+-- Revoking display links
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ UPDATE shop_display_tokens SET revoked_at = now()
+     WHERE token = current_setting('tests.display_token') RETURNING id $$,
+  'owners can revoke display links'
+);
+
+SELECT is_empty(
+  $$ UPDATE shop_display_tokens SET revoked_at = NULL
+     WHERE token = current_setting('tests.display_token') RETURNING id $$,
+  'revoked display links cannot be restored'
+);
+
+SELECT tests.authenticate_as_anon();
+
+SELECT throws_ok(
+  $$ SELECT get_display_queue(current_setting('tests.display_token')) $$,
+  'P0001',
+  'This display link is invalid or has been revoked',
+  'revoked display links stop working'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,300 @@
+-- The walk-in flow as the dashboards drive it: customers book from CustomerDashboard, and
+-- barbers start and complete the service from BarberDashboard.
+
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(34);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('sam@barbereasy.test', 'barber', 'Sam Outsider');
+SELECT tests.create_user('carl@barbereasy.test', 'customer', 'Carl Customer');
+SELECT tests.create_user('dana@barbereasy.test', 'customer', 'Dana Customer');
+SELECT tests.create_user('eve@barbereasy.test', 'customer', 'Eve Customer');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Flow Cuts');
+SELECT tests.create_shop('sam@barbereasy.test', 'Other Cuts');
+SELECT tests.create_service('Flow Cuts', 'Haircut');
+SELECT tests.create_service('Flow Cuts', 'Retired Cut');
+UPDATE services SET is_active = false WHERE id = tests.service_id('Flow Cuts', 'Retired Cut');
+
+-- Joining the queue
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT is(
+  (SELECT status FROM book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), 'carl-walk-in')),
+  'waiting',
+  'customers join the queue as waiting'
+);
+
+SELECT tests.authenticate_as('dana@barbereasy.test');
+
+SELECT lives_ok(
+  $$ SELECT book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), 'dana-walk-in') $$,
+  'a second customer can join the same queue'
+);
+
+SELECT throws_ok(
+  $$ SELECT book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Retired Cut')) $$,
+  'P0001',
+  'Service is not available at this shop',
+  'customers cannot book inactive services'
+);
+
+SELECT throws_ok(
+  $$ SELECT book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), NULL,
+       tests.user_id('sam@barbereasy.test')) $$,
+  'P0001',
+  'That barber does not work at this shop',
+  'customers can only ask for barbers who work at the shop'
+);
+
+SELECT is(
+  (SELECT people_ahead FROM get_my_wait_estimates()),
+  1,
+  'the second customer has one person ahead'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT is(
+  (SELECT people_ahead FROM get_my_wait_estimates()),
+  0,
+  'the first customer is next'
+);
+
+SELECT results_eq(
+  $$ SELECT waiting_count, in_progress_count FROM shop_queue_status WHERE shop_id = tests.shop_id('Flow Cuts') $$,
+  $$ VALUES (2, 0) $$,
+  'queue counts include both customers'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT notes FROM appointments
+     WHERE shop_id = tests.shop_id('Flow Cuts') AND status IN ('waiting', 'in_progress')
+     ORDER BY queue_position $$,
+  ARRAY['carl-walk-in', 'dana-walk-in'],
+  'the barber sees customers in the order they joined'
+);
+
+-- Serving a customer
+
+SELECT throws_ok(
+  $$ SELECT complete_appointment(tests.appointment_id('carl-walk-in')) $$,
+  'P0001',
+  'Cannot change an appointment from waiting to completed',
+  'a service cannot be completed before it starts'
+);
+
+SELECT tests.authenticate_as('sam@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT start_appointment(tests.appointment_id('carl-walk-in')) $$,
+  'P0001',
+  'Only staff of this shop can change this appointment',
+  'barbers cannot serve customers at shops they do not work at'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT start_appointment(tests.appointment_id('carl-walk-in')) $$,
+  'P0001',
+  'Only staff of this shop can change this appointment',
+  'customers cannot start their own service'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT is(
+  (SELECT status FROM start_appointment(tests.appointment_id('carl-walk-in'))),
+  'in_progress',
+  'barbers can start serving the next customer'
+);
+
+SELECT results_eq(
+  $$ SELECT started_at IS NOT NULL, barber_id = auth.uid() FROM appointments WHERE id = tests.appointment_id('carl-walk-in') $$,
+  $$ VALUES (true, true) $$,
+  'starting a service records the time and the serving barber'
+);
+
+SELECT results_eq(
+  $$ SELECT waiting_count, in_progress_count FROM shop_queue_status WHERE shop_id = tests.shop_id('Flow Cuts') $$,
+  $$ VALUES (1, 1) $$,
+  'queue counts move the customer into the chair'
+);
+
+SELECT is(
+  (SELECT status FROM complete_appointment(tests.appointment_id('carl-walk-in'))),
+  'completed',
+  'barbers can complete a service'
+);
+
+SELECT ok(
+  (SELECT completed_at >= started_at FROM appointments WHERE id = tests.appointment_id('carl-walk-in')),
+  'completing a service records when it ended'
+);
+
+SELECT throws_ok(
+  $$ SELECT start_appointment(tests.appointment_id('carl-walk-in')) $$,
+  'P0001',
+  'Cannot change an appointment from completed to in progress',
+  'completed services cannot be restarted'
+);
+
+SELECT results_eq(
+  $$ SELECT new_value ->> 'status' FROM appointment_events
+     WHERE appointment_id = tests.appointment_id('carl-walk-in') AND event_type = 'status_changed'
+     ORDER BY new_value ->> 'status' $$,
+  ARRAY['completed', 'in_progress'],
+  'each status change is recorded in the appointment history'
+);
+
+SELECT is(
+  (SELECT completed_count FROM get_analytics_summary(
+    tests.shop_id('Flow Cuts'), NULL,
+    (now() AT TIME ZONE tests.midday_timezone())::date, (now() AT TIME ZONE tests.midday_timezone())::date
+  )),
+  1,
+  'completed services show up in the shop''s analytics'
+);
+
+SELECT results_eq(
+  $$ SELECT notes FROM appointments
+     WHERE shop_id = tests.shop_id('Flow Cuts') AND status IN ('waiting', 'in_progress')
+     ORDER BY queue_position $$,
+  ARRAY['dana-walk-in'],
+  'served customers leave the barber''s queue'
+);
+
+SELECT is(
+  (SELECT status FROM mark_appointment_no_show(tests.appointment_id('dana-walk-in'))),
+  'no_show',
+  'barbers can mark an absent customer as a no-show'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM appointments WHERE customer_id = auth.uid() AND status IN ('waiting', 'in_progress') $$,
+  'served customers no longer have an active appointment'
+);
+
+-- Scheduled bookings
+
+SELECT tests.authenticate_as('eve@barbereasy.test');
+
+SELECT is(
+  (SELECT booking_type FROM book_scheduled_appointment(
+    tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+    date_trunc('hour', now()) + interval '3 hours', 'eve-scheduled'
+  )),
+  'scheduled',
+  'customers can book a time later today'
+);
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT book_scheduled_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+       date_trunc('hour', now()) + interval '3 hours') $$,
+  'P0001',
+  'That time slot is not available',
+  'a slot cannot be booked twice when the shop has one barber'
+);
+
+SELECT throws_ok(
+  $$ SELECT book_scheduled_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+       now() - interval '1 hour') $$,
+  'P0001',
+  'Scheduled time must be in the future',
+  'customers cannot book a time that has passed'
+);
+
+-- A walk-in waiting for the only barber holds the next half hour, so it is not offered as a
+-- scheduled slot. The slot check runs inside the booking functions, not on its own.
+
+SELECT lives_ok(
+  $$ SELECT book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), 'carl-second-visit') $$,
+  'customers can join the queue again after being served'
+);
+
+SELECT throws_ok(
+  $$ SELECT is_slot_available(tests.shop_id('Flow Cuts'), now(), 30) $$,
+  '42501',
+  NULL,
+  'customers cannot call the slot check directly'
+);
+
+SELECT tests.authenticate_as('eve@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT book_scheduled_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+       now() + interval '5 minutes') $$,
+  'P0001',
+  'That time slot is not available',
+  'a waiting walk-in takes the barber''s next slot'
+);
+
+SELECT lives_ok(
+  $$ SELECT book_scheduled_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+       now() + interval '31 minutes') $$,
+  'the slot after the walk-in can be booked'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT book_scheduled_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'),
+       date_trunc('hour', now()) + interval '4 hours') $$,
+  'P0001',
+  'Only customers can book appointments',
+  'barbers cannot book scheduled appointments'
+);
+
+SELECT tests.authenticate_as('eve@barbereasy.test');
+
+SELECT is(
+  (SELECT status FROM cancel_appointment(tests.appointment_id('eve-scheduled'))),
+  'cancelled',
+  'customers can cancel a scheduled booking'
+);
+
+-- Guests at the kiosk
+
+SELECT throws_ok(
+  $$ SELECT check_in_guest(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), 'Eve''s Friend') $$,
+  'P0001',
+  'Only shop staff can check in guests',
+  'customers cannot check in guests'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT is(
+  (SELECT guest_name FROM check_in_guest(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut'), '  Gus Guest  ')),
+  'Gus Guest',
+  'staff can check in a guest from the kiosk'
+);
+
+-- Nobody on shift
+
+SELECT tests.clear_authentication();
+
+INSERT INTO barber_time_off (shop_id, barber_id, starts_at, ends_at, reason)
+VALUES (tests.shop_id('Flow Cuts'), tests.user_id('bea@barbereasy.test'), now() - interval '1 hour', now() + interval '1 hour', 'Dentist');
+
+SELECT tests.authenticate_as('carl@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT book_appointment(tests.shop_id('Flow Cuts'), tests.service_id('Flow Cuts', 'Haircut')) $$,
+  'P0001',
+  'No barbers are on shift at this shop right now',
+  'customers cannot join the queue while every barber is off'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,85 @@
+-- People ahead follow the wait simulation, not the order people joined in: due bookings go
+-- first, bookings that are not due yet wait outside the queue, and a walk-in can be served
+-- on a free chair before someone waiting for a particular barber.
+
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(6);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('sam@barbereasy.test', 'barber', 'Sam Staff');
+SELECT tests.create_user('ann@barbereasy.test', 'customer', 'Ann Early');
+SELECT tests.create_user('ben@barbereasy.test', 'customer', 'Ben Loyal');
+SELECT tests.create_user('cat@barbereasy.test', 'customer', 'Cat Anyone');
+SELECT tests.create_user('dot@barbereasy.test', 'customer', 'Dot Booked');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Order Cuts');
+SELECT tests.add_member('Order Cuts', 'sam@barbereasy.test');
+
+-- In the order they joined. Ann booked for later this afternoon, Ben only wants Bea, and
+-- Dot's booking with Bea is due in a few minutes.
+INSERT INTO appointments (shop_id, customer_id, service_type, notes, booking_type, scheduled_at, preferred_barber_id)
+VALUES
+  (tests.shop_id('Order Cuts'), tests.user_id('ann@barbereasy.test'), 'Haircut', 'ann-later',
+   'scheduled', date_trunc('hour', now()) + interval '3 hours', NULL),
+  (tests.shop_id('Order Cuts'), tests.user_id('ben@barbereasy.test'), 'Haircut', 'ben-for-bea',
+   'walk_in', NULL, tests.user_id('bea@barbereasy.test')),
+  (tests.shop_id('Order Cuts'), tests.user_id('cat@barbereasy.test'), 'Haircut', 'cat-anyone',
+   'walk_in', NULL, NULL),
+  (tests.shop_id('Order Cuts'), tests.user_id('dot@barbereasy.test'), 'Haircut', 'dot-due',
+   'scheduled', now() + interval '5 minutes', tests.user_id('bea@barbereasy.test'));
+
+SELECT tests.authenticate_as('ann@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT appointment_id FROM get_my_wait_estimates() $$,
+  'bookings that are not due yet are not in the queue'
+);
+
+SELECT tests.authenticate_as('dot@barbereasy.test');
+
+SELECT is(
+  (SELECT people_ahead FROM get_my_wait_estimates()),
+  0,
+  'a booking that is due goes ahead of the walk-ins'
+);
+
+SELECT tests.authenticate_as('cat@barbereasy.test');
+
+SELECT is(
+  (SELECT people_ahead FROM get_my_wait_estimates()),
+  1,
+  'walk-ins happy with anyone are counted from the next free chair'
+);
+
+SELECT tests.authenticate_as('ben@barbereasy.test');
+
+SELECT is(
+  (SELECT people_ahead FROM get_my_wait_estimates()),
+  2,
+  'customers waiting for a barber count everyone served before them'
+);
+
+SELECT tests.clear_authentication();
+
+SELECT is_empty(
+  $$ SELECT earlier.appointment_id
+     FROM queue_positions(tests.shop_id('Order Cuts')) earlier
+     JOIN queue_positions(tests.shop_id('Order Cuts')) later
+       ON earlier.people_ahead < later.people_ahead
+     WHERE earlier.estimated_start > later.estimated_start $$,
+  'nobody with fewer people ahead starts later'
+);
+
+SELECT tests.authenticate_as('cat@barbereasy.test');
+
+SELECT throws_ok(
+  $$ SELECT * FROM queue_positions(tests.shop_id('Order Cuts')) $$,
+  '42501',
+  NULL,
+  'customers cannot read the whole queue'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,209 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(18);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('alice@barbereasy.test', 'customer', 'Alice Anders');
+SELECT tests.create_user('bob@barbereasy.test', 'customer', 'Bob Brown');
+SELECT tests.create_user('cleo@barbereasy.test', 'customer', 'Cleo Clark');
+SELECT tests.create_user('dan@barbereasy.test', 'customer', 'Dan Davis');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Notify Cuts');
+
+UPDATE profiles SET phone = '+15551230000' WHERE email = 'alice@barbereasy.test';
+
+-- Cleo never opted in. Dan wants texts but has no phone number.
+INSERT INTO notification_preferences (profile_id, email_enabled, sms_enabled)
+VALUES
+  (tests.user_id('alice@barbereasy.test'), true, true),
+  (tests.user_id('bob@barbereasy.test'), true, false),
+  (tests.user_id('dan@barbereasy.test'), true, true);
+
+INSERT INTO appointments (shop_id, customer_id, service_type, notes)
+VALUES
+  (tests.shop_id('Notify Cuts'), tests.user_id('alice@barbereasy.test'), 'Haircut', 'alice-walk-in'),
+  (tests.shop_id('Notify Cuts'), tests.user_id('bob@barbereasy.test'), 'Haircut', 'bob-walk-in'),
+  (tests.shop_id('Notify Cuts'), tests.user_id('cleo@barbereasy.test'), 'Haircut', 'cleo-walk-in'),
+  (tests.shop_id('Notify Cuts'), tests.user_id('dan@barbereasy.test'), 'Haircut', 'dan-walk-in');
+
+INSERT INTO appointments (shop_id, guest_name, service_type)
+VALUES (tests.shop_id('Notify Cuts'), 'Gus Guest', 'Haircut');
+
+-- The queue moves
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+SELECT start_appointment(tests.appointment_id('alice-walk-in'));
+SELECT tests.clear_authentication();
+
+SELECT results_eq(
+  $$ SELECT channel FROM queue_notifications
+     WHERE profile_id = tests.user_id('alice@barbereasy.test') AND kind = 'barber_ready' ORDER BY channel $$,
+  ARRAY['email', 'sms'],
+  'customers hear that their barber is ready on every channel they opted in to'
+);
+
+SELECT results_eq(
+  $$ SELECT kind, channel, recipient FROM queue_notifications WHERE profile_id = tests.user_id('bob@barbereasy.test') $$,
+  $$ VALUES ('next', 'email', 'bob@barbereasy.test') $$,
+  'the customer at the front of the queue hears they are next'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM queue_notifications WHERE profile_id = tests.user_id('cleo@barbereasy.test') $$,
+  'customers who did not opt in are not notified'
+);
+
+SELECT results_eq(
+  $$ SELECT kind, channel FROM queue_notifications WHERE profile_id = tests.user_id('dan@barbereasy.test') $$,
+  $$ VALUES ('two_away', 'email') $$,
+  'customers two away are notified, and texts need a phone number'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+UPDATE appointments SET notes = 'bob-walk-in' WHERE id = tests.appointment_id('bob-walk-in');
+SELECT complete_appointment(tests.appointment_id('alice-walk-in'));
+SELECT tests.clear_authentication();
+
+SELECT is(
+  (SELECT count(*) FROM queue_notifications WHERE profile_id = tests.user_id('bob@barbereasy.test')),
+  1::bigint,
+  'each message is only sent once per appointment'
+);
+
+-- People ahead are counted the way the wait estimate counts them. Eli booked for later this
+-- afternoon, so he is not in the queue yet and nobody waits behind him.
+
+SELECT tests.create_user('eli@barbereasy.test', 'customer', 'Eli Early');
+SELECT tests.create_user('fay@barbereasy.test', 'customer', 'Fay Fisher');
+SELECT tests.create_user('gil@barbereasy.test', 'customer', 'Gil Grant');
+SELECT tests.create_user('hal@barbereasy.test', 'customer', 'Hal Hughes');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Booked Cuts');
+
+INSERT INTO notification_preferences (profile_id, email_enabled)
+VALUES
+  (tests.user_id('eli@barbereasy.test'), true),
+  (tests.user_id('fay@barbereasy.test'), true),
+  (tests.user_id('hal@barbereasy.test'), true);
+
+INSERT INTO appointments (shop_id, customer_id, service_type, notes, booking_type, scheduled_at)
+VALUES
+  (tests.shop_id('Booked Cuts'), tests.user_id('eli@barbereasy.test'), 'Haircut', 'eli-later',
+   'scheduled', date_trunc('hour', now()) + interval '3 hours'),
+  (tests.shop_id('Booked Cuts'), tests.user_id('fay@barbereasy.test'), 'Haircut', 'fay-walk-in', 'walk_in', NULL),
+  (tests.shop_id('Booked Cuts'), tests.user_id('gil@barbereasy.test'), 'Haircut', 'gil-walk-in', 'walk_in', NULL),
+  (tests.shop_id('Booked Cuts'), tests.user_id('hal@barbereasy.test'), 'Haircut', 'hal-walk-in', 'walk_in', NULL);
+
+SELECT is_empty(
+  $$ SELECT id FROM queue_notifications WHERE profile_id = tests.user_id('eli@barbereasy.test') $$,
+  'bookings that are not due yet are not told they are next'
+);
+
+SELECT results_eq(
+  $$ SELECT kind FROM queue_notifications WHERE profile_id = tests.user_id('fay@barbereasy.test') $$,
+  ARRAY['next'],
+  'the first walk-in behind a later booking is next'
+);
+
+SELECT results_eq(
+  $$ SELECT kind FROM queue_notifications WHERE profile_id = tests.user_id('hal@barbereasy.test') $$,
+  ARRAY['two_away'],
+  'later bookings do not count towards people ahead'
+);
+
+-- Joining the queue. Ivy books with two guests ahead of her, and both guests leave in one
+-- statement.
+
+SELECT tests.create_user('ivy@barbereasy.test', 'customer', 'Ivy Irwin');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Join Cuts');
+SELECT tests.create_service('Join Cuts', 'Haircut');
+
+INSERT INTO notification_preferences (profile_id, email_enabled)
+VALUES (tests.user_id('ivy@barbereasy.test'), true);
+
+INSERT INTO appointments (shop_id, guest_name, service_type)
+VALUES
+  (tests.shop_id('Join Cuts'), 'First Guest', 'Haircut'),
+  (tests.shop_id('Join Cuts'), 'Second Guest', 'Haircut');
+
+SELECT tests.authenticate_as('ivy@barbereasy.test');
+SELECT book_appointment(tests.shop_id('Join Cuts'), tests.service_id('Join Cuts', 'Haircut'), 'ivy-walk-in');
+SELECT tests.clear_authentication();
+
+SELECT results_eq(
+  $$ SELECT kind FROM queue_notifications WHERE profile_id = tests.user_id('ivy@barbereasy.test') $$,
+  ARRAY['two_away'],
+  'customers who join with two people ahead hear they are two away'
+);
+
+DELETE FROM appointments WHERE shop_id = tests.shop_id('Join Cuts') AND guest_name IS NOT NULL;
+
+SELECT results_eq(
+  $$ SELECT kind FROM queue_notifications WHERE profile_id = tests.user_id('ivy@barbereasy.test') ORDER BY kind $$,
+  ARRAY['next', 'two_away'],
+  'a statement that changes several appointments notifies the new front of the queue once'
+);
+
+-- Preferences
+
+SELECT tests.authenticate_as('alice@barbereasy.test');
+
+SELECT isnt_empty(
+  $$ SELECT profile_id FROM notification_preferences WHERE profile_id = auth.uid() $$,
+  'users can view their own notification settings'
+);
+
+SELECT tests.authenticate_as('bob@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT profile_id FROM notification_preferences WHERE profile_id = tests.user_id('alice@barbereasy.test') $$,
+  'users cannot view someone else''s notification settings'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO notification_preferences (profile_id, email_enabled)
+     VALUES (tests.user_id('cleo@barbereasy.test'), true) $$,
+  '42501',
+  NULL,
+  'users cannot opt someone else in'
+);
+
+-- The outbox
+
+SELECT results_eq(
+  $$ SELECT kind FROM queue_notifications $$,
+  ARRAY['next'],
+  'customers only see their own notifications'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO queue_notifications (appointment_id, profile_id, kind, channel, recipient)
+     VALUES (tests.appointment_id('bob-walk-in'), auth.uid(), 'next', 'sms', '+15550000000') $$,
+  '42501',
+  NULL,
+  'customers cannot queue notifications'
+);
+
+SELECT is_empty(
+  $$ UPDATE queue_notifications SET status = 'sent' RETURNING id $$,
+  'customers cannot change notification status'
+);
+
+SELECT throws_ok(
+  $$ SELECT * FROM notification_recipients(auth.uid()) $$,
+  '42501',
+  NULL,
+  'customers cannot look up notification addresses'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM queue_notifications $$,
+  'barbers cannot view customers'' notifications'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
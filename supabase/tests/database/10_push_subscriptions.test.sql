@@ -0,0 +1,98 @@
+BEGIN;
+\ir helpers.psql
+
+SELECT plan(9);
+
+SELECT tests.create_user('bea@barbereasy.test', 'barber', 'Bea Owner');
+SELECT tests.create_user('alice@barbereasy.test', 'customer', 'Alice Anders');
+SELECT tests.create_user('bob@barbereasy.test', 'customer', 'Bob Brown');
+SELECT tests.create_user('cleo@barbereasy.test', 'customer', 'Cleo Clark');
+SELECT tests.create_user('dan@barbereasy.test', 'customer', 'Dan Davis');
+
+SELECT tests.create_shop('bea@barbereasy.test', 'Push Cuts');
+
+-- Alice turned notifications on in two browsers. Cleo never did.
+INSERT INTO push_subscriptions (profile_id, endpoint, p256dh, auth)
+VALUES
+  (tests.user_id('alice@barbereasy.test'), 'https://push.test/alice-phone', 'key', 'secret'),
+  (tests.user_id('alice@barbereasy.test'), 'https://push.test/alice-laptop', 'key', 'secret'),
+  (tests.user_id('bob@barbereasy.test'), 'https://push.test/bob-phone', 'key', 'secret'),
+  (tests.user_id('dan@barbereasy.test'), 'https://push.test/dan-phone', 'key', 'secret');
+
+INSERT INTO appointments (shop_id, customer_id, service_type, notes)
+VALUES
+  (tests.shop_id('Push Cuts'), tests.user_id('alice@barbereasy.test'), 'Haircut', 'alice-walk-in'),
+  (tests.shop_id('Push Cuts'), tests.user_id('bob@barbereasy.test'), 'Haircut', 'bob-walk-in'),
+  (tests.shop_id('Push Cuts'), tests.user_id('cleo@barbereasy.test'), 'Haircut', 'cleo-walk-in'),
+  (tests.shop_id('Push Cuts'), tests.user_id('dan@barbereasy.test'), 'Haircut', 'dan-walk-in');
+
+-- The queue moves
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+SELECT start_appointment(tests.appointment_id('alice-walk-in'));
+SELECT tests.clear_authentication();
+
+SELECT results_eq(
+  $$ SELECT recipient FROM queue_notifications
+     WHERE profile_id = tests.user_id('alice@barbereasy.test') AND kind = 'barber_ready' AND channel = 'push'
+     ORDER BY recipient $$,
+  ARRAY['https://push.test/alice-laptop', 'https://push.test/alice-phone'],
+  'every subscribed browser hears that the barber is ready'
+);
+
+SELECT results_eq(
+  $$ SELECT kind, channel FROM queue_notifications WHERE profile_id = tests.user_id('bob@barbereasy.test') $$,
+  $$ VALUES ('next', 'push') $$,
+  'the customer at the front of the queue gets a push when they are next'
+);
+
+SELECT is_empty(
+  $$ SELECT id FROM queue_notifications WHERE profile_id = tests.user_id('dan@barbereasy.test') $$,
+  'customers two away are not pushed'
+);
+
+-- Subscriptions
+
+SELECT tests.authenticate_as('alice@barbereasy.test');
+
+SELECT results_eq(
+  $$ SELECT count(*) FROM push_subscriptions $$,
+  ARRAY[2::bigint],
+  'users only see their own push subscriptions'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO push_subscriptions (profile_id, endpoint, p256dh, auth)
+     VALUES (tests.user_id('cleo@barbereasy.test'), 'https://push.test/cleo-phone', 'key', 'secret') $$,
+  '42501',
+  NULL,
+  'users cannot subscribe someone else'
+);
+
+SELECT is_empty(
+  $$ DELETE FROM push_subscriptions WHERE profile_id = tests.user_id('bob@barbereasy.test') RETURNING id $$,
+  'users cannot remove someone else''s push subscription'
+);
+
+SELECT isnt_empty(
+  $$ DELETE FROM push_subscriptions WHERE endpoint = 'https://push.test/alice-laptop' RETURNING id $$,
+  'users can turn notifications off in a browser'
+);
+
+SELECT tests.authenticate_as('bob@barbereasy.test');
+
+SELECT lives_ok(
+  $$ INSERT INTO push_subscriptions (profile_id, endpoint, p256dh, auth)
+     VALUES (auth.uid(), 'https://push.test/alice-phone', 'key', 'secret') $$,
+  'someone else signed in on the same browser can subscribe it too'
+);
+
+SELECT tests.authenticate_as('bea@barbereasy.test');
+
+SELECT is_empty(
+  $$ SELECT id FROM push_subscriptions $$,
+  'barbers cannot view customers'' push subscriptions'
+);
+
+SELECT * FROM finish();
+ROLLBACK;